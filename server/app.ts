@@ -0,0 +1,54 @@
+import bodyParser from "body-parser";
+import express, { type NextFunction, type Request, type Response } from "express";
+import { config } from "./config";
+import { authRouter } from "./routes/auth";
+import { imagesRouter } from "./routes/images";
+
+/* -----------------------------------------------------
+   Express app: JSON bodies, CORS for the web app's
+   origins, one router per concern
+   ----------------------------------------------------- */
+export function createApp() {
+  const app = express();
+  app.set("trust proxy", config.trustProxy);
+  app.disable("x-powered-by");
+
+  app.use((req, res, next) => {
+    const origin = req.headers.origin;
+    if (origin && config.allowedOrigins.includes(origin)) {
+      res.set("Access-Control-Allow-Origin", origin);
+      res.set("Vary", "Origin");
+      res.set("Access-Control-Allow-Headers", "Content-Type, Authorization");
+      res.set("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+    }
+    if (req.method === "OPTIONS") {
+      res.sendStatus(204);
+      return;
+    }
+    next();
+  });
+
+  app.use(bodyParser.json({ limit: "10kb" }));
+
+  app.get("/health", (_req, res) => {
+    res.json({ ok: true });
+  });
+  app.use("/auth", authRouter);
+  app.use("/images", imagesRouter);
+
+  // Express 5 forwards rejected async handlers here
+  app.use((err: Error & { type?: string }, _req: Request, res: Response, _next: NextFunction) => {
+    if (err.type === "entity.too.large") {
+      res.status(413).json({ error: "too_large", message: "The upload is too large." });
+      return;
+    }
+    if (err.type === "entity.parse.failed") {
+      res.status(400).json({ error: "bad_request", message: "The request could not be read." });
+      return;
+    }
+    console.error("❌ Gateway error:", err);
+    res.status(500).json({ error: "server_error", message: "Something went wrong. Please try again." });
+  });
+
+  return app;
+}
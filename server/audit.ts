@@ -0,0 +1,12 @@
+import { admin } from "./supabase";
+
+/* -----------------------------------------------------
+   Audit events the gateway writes for the user it acted
+   for. Inserted with the service role, so
+   stamp_audit_event() takes the actor from actor_id.
+   A failure is logged and never undoes the request.
+   ----------------------------------------------------- */
+export async function recordEvents(events: object[]) {
+  const { error } = await admin.from("audit_events").insert(events);
+  if (error) console.error("❌ Couldn't record the audit events:", error);
+}
@@ -0,0 +1,28 @@
+import type { Request } from "express";
+import { USER_COLUMNS, parseUser } from "../src/lib/schema";
+import { phoneLookupKeys, pickPhoneMatch } from "../src/lib/phone";
+import type { User } from "../src/types";
+import { admin } from "./supabase";
+
+/* -----------------------------------------------------
+   users row of the request's bearer token, or null when
+   the token is missing, expired or has no active account
+   ----------------------------------------------------- */
+export async function callerOf(req: Request): Promise<User | null> {
+  const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+  if (!token) return null;
+
+  const { data, error } = await admin.auth.getUser(token);
+  const phone = data.user?.phone;
+  if (error || !phone) return null;
+
+  const e164 = phone.startsWith("+") ? phone : "+" + phone;
+  const { data: rows, error: lookupError } = await admin
+    .from("users")
+    .select(USER_COLUMNS)
+    .in("phone", phoneLookupKeys(e164))
+    .is("deactivated_at", null);
+  if (lookupError) throw lookupError;
+  const row = pickPhoneMatch(rows ?? [], e164);
+  return row ? parseUser(row) : null;
+}
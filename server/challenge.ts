@@ -0,0 +1,41 @@
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from "node:crypto";
+import type { ChallengeAnswer, LoginChallenge } from "../src/lib/data/types";
+import { config } from "./config";
+
+const TTL_MS = 5 * 60 * 1000;
+
+// Nonces already answered, until they expire anyway
+const used = new Map<string, number>();
+
+const sign = (payload: string) =>
+  createHmac("sha256", config.challengeSecret).update(payload).digest("base64url");
+
+/* -----------------------------------------------------
+   Small arithmetic question. The token carries expiry,
+   nonce and an HMAC over the expected answer, so no
+   state is kept until it is answered.
+   ----------------------------------------------------- */
+export function createChallenge(now = Date.now()): LoginChallenge {
+  const a = randomInt(2, 10);
+  const b = randomInt(2, 10);
+  const expires = now + TTL_MS;
+  const nonce = randomBytes(12).toString("base64url");
+  const payload = `${expires}.${nonce}`;
+  return { token: `${payload}.${sign(`${payload}.${a + b}`)}`, question: `What is ${a} + ${b}?` };
+}
+
+// True once per token, for the right answer before it expires
+export function checkChallenge(input: ChallengeAnswer, now = Date.now()): boolean {
+  for (const [nonce, expires] of used) if (expires <= now) used.delete(nonce);
+
+  const [expiresRaw, nonce, mac] = input.token.split(".");
+  const expires = Number(expiresRaw);
+  if (!nonce || !mac || !(expires > now) || used.has(nonce)) return false;
+
+  const expected = Buffer.from(sign(`${expiresRaw}.${nonce}.${input.answer.trim()}`));
+  const given = Buffer.from(mac);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return false;
+
+  used.set(nonce, expires);
+  return true;
+}
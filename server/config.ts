@@ -0,0 +1,29 @@
+/* -----------------------------------------------------
+   Gateway settings, read once from the environment
+   (see .env.server.example). Secrets never reach the
+   browser bundle.
+   ----------------------------------------------------- */
+function required(name: string): string {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing environment variable ${name}`);
+  return value;
+}
+
+export const config = {
+  port: Number(process.env.PORT ?? 8787),
+  supabaseUrl: required("SUPABASE_URL"),
+  supabaseAnonKey: required("SUPABASE_ANON_KEY"),
+  // Bypasses row-level security: only used for lookups the browser may not do
+  supabaseServiceRoleKey: required("SUPABASE_SERVICE_ROLE_KEY"),
+  // AuthenX AI service (main.py); only the gateway calls it
+  aiServiceUrl: process.env.AI_SERVICE_URL ?? "http://127.0.0.1:8000",
+  // Signs login challenges; any long random string
+  challengeSecret: required("CHALLENGE_SECRET"),
+  // Comma-separated origins of the web app
+  allowedOrigins: (process.env.ALLOWED_ORIGINS ?? "http://localhost:5173")
+    .split(",")
+    .map((o) => o.trim())
+    .filter(Boolean),
+  // Behind a load balancer the client IP comes from X-Forwarded-For
+  trustProxy: process.env.TRUST_PROXY === "true",
+};
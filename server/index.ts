@@ -0,0 +1,6 @@
+import { createApp } from "./app";
+import { config } from "./config";
+
+createApp().listen(config.port, () => {
+  console.log(`✅ AuthenX gateway listening on http://localhost:${config.port}`);
+});
@@ -0,0 +1,70 @@
+/* -----------------------------------------------------
+   In-memory counters keyed by IP or phone. Good for a
+   single gateway instance; several instances behind a
+   load balancer would need a shared store.
+   ----------------------------------------------------- */
+interface Window {
+  count: number;
+  resetAt: number; // ms epoch
+}
+
+export interface LimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+// At most `limit` hits per key in each `windowMs`
+export class RateLimiter {
+  private readonly windows = new Map<string, Window>();
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  hit(key: string, now = Date.now()): LimitResult {
+    this.prune(now);
+    const current = this.windows.get(key);
+    const window =
+      current && current.resetAt > now ? current : { count: 0, resetAt: now + this.windowMs };
+    window.count += 1;
+    this.windows.set(key, window);
+    return {
+      allowed: window.count <= this.limit,
+      retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000),
+    };
+  }
+
+  private prune(now: number) {
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) this.windows.delete(key);
+    }
+  }
+}
+
+// Failures per key that expire `ttlMs` after the last one
+export class FailureCounter {
+  private readonly failures = new Map<string, Window>();
+
+  constructor(private readonly ttlMs: number) {}
+
+  count(key: string, now = Date.now()): number {
+    const entry = this.failures.get(key);
+    if (!entry || entry.resetAt <= now) {
+      this.failures.delete(key);
+      return 0;
+    }
+    return entry.count;
+  }
+
+  // Until the count for key expires; 0 when there is none
+  retryAfterSeconds(key: string, now = Date.now()): number {
+    const entry = this.failures.get(key);
+    return entry && entry.resetAt > now ? Math.ceil((entry.resetAt - now) / 1000) : 0;
+  }
+
+  fail(key: string, now = Date.now()) {
+    this.failures.set(key, { count: this.count(key, now) + 1, resetAt: now + this.ttlMs });
+  }
+
+  reset(key: string) {
+    this.failures.delete(key);
+  }
+}
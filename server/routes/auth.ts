@@ -0,0 +1,162 @@
+import { randomInt } from "node:crypto";
+import { Router, type Request, type Response } from "express";
+import type { ChallengeAnswer } from "../../src/lib/data/types";
+import { invalidPhoneMessage, phoneLookupKeys, pickPhoneMatch, toE164 } from "../../src/lib/phone";
+import { recordEvents } from "../audit";
+import { checkChallenge, createChallenge } from "../challenge";
+import { FailureCounter, RateLimiter, type LimitResult } from "../limits";
+import { admin, authClient } from "../supabase";
+
+const MINUTE = 60 * 1000;
+
+// OTP requests: SMS costs money, so per phone as well as per IP
+const otpPerIp = new RateLimiter(20, 60 * MINUTE);
+const otpPerPhone = new RateLimiter(5, 60 * MINUTE);
+const verifyPerIp = new RateLimiter(30, 60 * MINUTE);
+const verifyPerPhone = new RateLimiter(10, 15 * MINUTE);
+
+// Every code requested or entered without a successful sign-in
+// counts; from the third one on, a challenge comes first
+const failures = new FailureCounter(30 * MINUTE);
+const CHALLENGE_AFTER = 3;
+
+// Wrong codes per phone, whichever browser or IP they come from. At
+// the limit the phone is locked until LOCKOUT_SECONDS after the last
+// one. Same limits as src/lib/otpPolicy.ts, which shows them.
+const MAX_WRONG_ATTEMPTS = 5;
+const LOCKOUT_SECONDS = 15 * 60;
+const wrongCodes = new FailureCounter(LOCKOUT_SECONDS * 1000);
+
+// Answers take the same time whatever happened behind them
+const uniformDelay = () =>
+  new Promise((resolve) => setTimeout(resolve, 700 + randomInt(300)));
+
+function tooMany(res: Response, limit: LimitResult) {
+  res.set("Retry-After", String(limit.retryAfterSeconds));
+  res.status(429).json({
+    error: "rate_limited",
+    message: "Too many requests. Please wait and try again.",
+    retry_after: limit.retryAfterSeconds,
+  });
+}
+
+// Answers 429 otp_locked and returns true while the phone is locked
+function lockedOut(res: Response, phone: string): boolean {
+  if (wrongCodes.count(phone) < MAX_WRONG_ATTEMPTS) return false;
+  const retryAfter = wrongCodes.retryAfterSeconds(phone);
+  res.set("Retry-After", String(retryAfter));
+  res.status(429).json({
+    error: "otp_locked",
+    message: "Too many wrong codes. Please wait and try again.",
+    retry_after: retryAfter,
+  });
+  return true;
+}
+
+const clientIp = (req: Request) => req.ip ?? "unknown";
+
+// The signed-in user, for the auth.login event the login analytics count
+async function recordLogin(phone: string) {
+  const { data, error } = await admin
+    .from("users")
+    .select("id, phone")
+    .in("phone", phoneLookupKeys(phone));
+  if (error) throw error;
+  const user = pickPhoneMatch(data ?? [], phone);
+  if (!user) return;
+  await recordEvents([{ action: "auth.login", target_type: "user", actor_id: user.id }]);
+}
+
+// The code goes out only to active registered phones; nobody waits for it
+async function deliverOtp(phone: string) {
+  const { data, error } = await admin
+    .from("users")
+    .select("id")
+    .in("phone", phoneLookupKeys(phone))
+    .is("deactivated_at", null)
+    .limit(1);
+  if (error) throw error;
+  if (!data?.length) return;
+  const { error: sendError } = await authClient().auth.signInWithOtp({ phone });
+  if (sendError) throw sendError;
+}
+
+/* -----------------------------------------------------
+   Sign-in without a users lookup in the browser. Both
+   endpoints answer the same way for registered and
+   unknown numbers.
+   POST /auth/otp     { phone, challenge? } → { status: "sent" }
+   POST /auth/verify  { phone, token }      → { access_token, refresh_token }
+   and records the auth.login event.
+   A phone with MAX_WRONG_ATTEMPTS wrong codes gets 429
+   otp_locked from both until the lockout ends.
+   ----------------------------------------------------- */
+export const authRouter = Router();
+
+authRouter.post("/otp", async (req, res) => {
+  const phone = toE164(req.body?.phone);
+  if (!phone) {
+    res.status(400).json({ error: "invalid_phone", message: invalidPhoneMessage(req.body?.phone) });
+    return;
+  }
+  const ip = clientIp(req);
+
+  const byIp = otpPerIp.hit(ip);
+  if (!byIp.allowed) return tooMany(res, byIp);
+  if (lockedOut(res, phone)) return;
+
+  if (failures.count(ip) >= CHALLENGE_AFTER) {
+    const answer = req.body?.challenge as ChallengeAnswer | undefined;
+    const solved =
+      typeof answer?.token === "string" &&
+      typeof answer?.answer === "string" &&
+      checkChallenge(answer);
+    if (!solved) {
+      res.status(403).json({ error: "challenge_required", challenge: createChallenge() });
+      return;
+    }
+  }
+
+  const byPhone = otpPerPhone.hit(phone);
+  if (!byPhone.allowed) return tooMany(res, byPhone);
+
+  failures.fail(ip);
+  // A fresh code comes with fresh attempts
+  wrongCodes.reset(phone);
+  deliverOtp(phone).catch((err) => console.error("❌ OTP delivery failed:", err));
+  await uniformDelay();
+  res.json({ status: "sent" });
+});
+
+authRouter.post("/verify", async (req, res) => {
+  const phone = toE164(req.body?.phone);
+  const token = req.body?.token;
+  if (!phone || typeof token !== "string" || !/^\d{4,8}$/.test(token)) {
+    res.status(400).json({ error: "invalid_code", message: "Token has expired or is invalid" });
+    return;
+  }
+  const ip = clientIp(req);
+
+  const byIp = verifyPerIp.hit(ip);
+  if (!byIp.allowed) return tooMany(res, byIp);
+  const byPhone = verifyPerPhone.hit(phone);
+  if (!byPhone.allowed) return tooMany(res, byPhone);
+  if (lockedOut(res, phone)) return;
+
+  const { data, error } = await authClient().auth.verifyOtp({ phone, token, type: "sms" });
+  if (error || !data.session) {
+    failures.fail(ip);
+    wrongCodes.fail(phone);
+    if (lockedOut(res, phone)) return;
+    res.status(401).json({ error: "invalid_code", message: "Token has expired or is invalid" });
+    return;
+  }
+
+  failures.reset(ip);
+  wrongCodes.reset(phone);
+  await recordLogin(phone).catch((err) => console.error("❌ Couldn't record the login:", err));
+  res.json({
+    access_token: data.session.access_token,
+    refresh_token: data.session.refresh_token,
+  });
+});
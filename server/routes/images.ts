@@ -0,0 +1,150 @@
+import bodyParser from "body-parser";
+import { Router, type Response } from "express";
+import { EVIDENCE_OPEN_STATUSES, upgradeAssetStatus } from "../../src/lib/assetLifecycle";
+import type { AssetStatus, User } from "../../src/types";
+import { recordEvents } from "../audit";
+import { callerOf } from "../caller";
+import { admin } from "../supabase";
+import { verifyImage } from "../verifier";
+
+const IMAGE_BUCKET = "asset-images";
+
+// Matches the bucket's allowed types (20251001000000_base_schema.sql)
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/heic": "heic",
+};
+
+// Answers 404 / 409 and returns false unless the caller's asset still takes evidence
+async function evidenceOpen(res: Response, assetId: string, caller: User): Promise<boolean> {
+  const { data: asset, error } = await admin
+    .from("assets")
+    .select("id, user_id, status")
+    .eq("id", assetId)
+    .maybeSingle();
+  if (error) throw error;
+  // Someone else's asset looks the same as a missing one
+  if (!asset || asset.user_id !== caller.id) {
+    res.status(404).json({ error: "not_found", message: "Asset not found." });
+    return false;
+  }
+  const status = upgradeAssetStatus(asset.status) as AssetStatus;
+  if (!EVIDENCE_OPEN_STATUSES.includes(status)) {
+    res.status(409).json({ error: "evidence_closed", message: "This asset no longer takes photos." });
+    return false;
+  }
+  return true;
+}
+
+/* -----------------------------------------------------
+   The only way into the asset-images bucket. The image
+   is verified first and stored only if it passes; the
+   verdict is recorded either way.
+   POST /images/:assetId  (raw image body, bearer token)
+     → { is_real, score, message, url }  url null if rejected
+   DELETE /images/:assetId/:file  (bearer token)
+     → { status: "deleted" }
+   Both only while the asset still takes evidence.
+   ----------------------------------------------------- */
+export const imagesRouter = Router();
+
+imagesRouter.post(
+  "/:assetId",
+  bodyParser.raw({ type: Object.keys(EXTENSIONS), limit: "10mb" }),
+  async (req, res) => {
+    const caller = await callerOf(req);
+    if (!caller) {
+      res.status(401).json({ error: "unauthorized", message: "Please log in again." });
+      return;
+    }
+
+    const { assetId } = req.params;
+    if (!(await evidenceOpen(res, assetId, caller))) return;
+
+    const mimeType = req.headers["content-type"] ?? "";
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0 || !EXTENSIONS[mimeType]) {
+      res.status(400).json({ error: "bad_request", message: "Send a JPEG, PNG, WebP or HEIC image." });
+      return;
+    }
+
+    let verdict;
+    try {
+      verdict = await verifyImage(assetId, req.body, mimeType);
+    } catch (err) {
+      console.error("❌ AI verification failed:", err);
+      res.status(502).json({ error: "verifier_unavailable", message: "AI verification failed." });
+      return;
+    }
+
+    const verifyEvent = {
+      action: "image.verify",
+      target_type: "image",
+      asset_id: assetId,
+      actor_id: caller.id,
+      after: { is_real: verdict.isReal, score: verdict.score },
+    };
+    if (!verdict.isReal) {
+      await recordEvents([verifyEvent]);
+      res.json({ is_real: false, score: verdict.score, message: verdict.message, url: null });
+      return;
+    }
+
+    const path = `${assetId}/${Date.now()}.${EXTENSIONS[mimeType]}`;
+    const { error: uploadError } = await admin.storage
+      .from(IMAGE_BUCKET)
+      .upload(path, req.body, { contentType: mimeType, upsert: false });
+    if (uploadError) {
+      await recordEvents([verifyEvent]);
+      throw uploadError;
+    }
+
+    await recordEvents([
+      { ...verifyEvent, target_id: `${IMAGE_BUCKET}/${path}` },
+      {
+        action: "image.upload",
+        target_type: "image",
+        target_id: `${IMAGE_BUCKET}/${path}`,
+        asset_id: assetId,
+        actor_id: caller.id,
+      },
+    ]);
+    res.json({
+      is_real: true,
+      score: verdict.score,
+      message: verdict.message,
+      url: admin.storage.from(IMAGE_BUCKET).getPublicUrl(path).data.publicUrl,
+    });
+  }
+);
+
+imagesRouter.delete("/:assetId/:file", async (req, res) => {
+  const caller = await callerOf(req);
+  if (!caller) {
+    res.status(401).json({ error: "unauthorized", message: "Please log in again." });
+    return;
+  }
+
+  const { assetId, file } = req.params;
+  if (!(await evidenceOpen(res, assetId, caller))) return;
+
+  const path = `${assetId}/${file}`;
+  const { data: removed, error } = await admin.storage.from(IMAGE_BUCKET).remove([path]);
+  if (error) throw error;
+  if (!removed?.length) {
+    res.status(404).json({ error: "not_found", message: "Image not found." });
+    return;
+  }
+
+  await recordEvents([
+    {
+      action: "image.delete",
+      target_type: "image",
+      target_id: `${IMAGE_BUCKET}/${path}`,
+      asset_id: assetId,
+      actor_id: caller.id,
+    },
+  ]);
+  res.json({ status: "deleted" });
+});
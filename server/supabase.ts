@@ -0,0 +1,15 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { config } from "./config";
+
+const options = { auth: { persistSession: false, autoRefreshToken: false } };
+
+// Service-role client for lookups; never signs anyone in
+export const admin: SupabaseClient = createClient(
+  config.supabaseUrl,
+  config.supabaseServiceRoleKey,
+  options
+);
+
+// Fresh anon client per sign-in, so one caller's session can't leak into another request
+export const authClient = (): SupabaseClient =>
+  createClient(config.supabaseUrl, config.supabaseAnonKey, options);
@@ -0,0 +1,35 @@
+import type { VerificationResult } from "../src/lib/data/types";
+import { config } from "./config";
+
+/* -----------------------------------------------------
+   AuthenX AI service (main.py → POST /verify-image).
+   Throws when the service can't give a verdict.
+   ----------------------------------------------------- */
+export async function verifyImage(
+  assetId: string,
+  image: Buffer,
+  mimeType: string
+): Promise<VerificationResult> {
+  const res = await fetch(`${config.aiServiceUrl}/verify-image`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      image_base64: `data:${mimeType};base64,${image.toString("base64")}`,
+      asset_id: assetId,
+    }),
+  });
+  if (!res.ok) throw new Error(`AI verification failed (HTTP ${res.status})`);
+
+  const json = (await res.json()) as {
+    success?: boolean;
+    is_real?: boolean;
+    authenticity_score?: number;
+    message?: string;
+  };
+  if (json.success === false) throw new Error(json.message || "AI verification failed");
+  return {
+    isReal: json.is_real === true,
+    score: json.authenticity_score ?? 0,
+    message: json.message ?? "Rejected",
+  };
+}
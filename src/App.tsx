@@ -1,138 +1,257 @@
 import { useState } from "react";
+import { Navigate, Route, Routes, useLocation, useNavigate } from "react-router-dom";
 import { SplashScreen } from "./components/SplashScreen";
 import { LoginScreen } from "./components/LoginScreen";
 import { OTPScreen } from "./components/OTPScreen";
 import { SuperAdminDashboard } from "./components/SuperAdminDashboard";
 import { BankAdminDashboard } from "./components/BankAdminDashboard";
 import { UserDashboard } from "./components/UserDashboard";
+import { RequireRole } from "./components/RequireRole";
+import { DashboardBoundary } from "./components/DashboardBoundary";
 import { Toaster } from "./components/ui/sonner";
-import { supabase } from "./supabaseClient";
-
-type AppState = "splash" | "login" | "otp" | "dashboard";
-type UserRole = "superadmin" | "loanmanager" | "user";
+import { Loader2 } from "lucide-react";
+import { ChallengeRequiredError, OtpLockedError, db, type ChallengeAnswer } from "./lib/data";
+import { useAuthSession } from "./lib/auth";
+import { notify } from "./lib/notify";
+import { ServiceError, toUserMessage } from "./lib/errors";
+import { invalidPhoneMessage, toE164 } from "./lib/phone";
+import {
+  clearOtpState,
+  getOtpStatus,
+  lockoutMessage,
+  recordOtpFailure,
+  recordOtpLockout,
+  recordOtpSent,
+} from "./lib/otpPolicy";
+import {
+  ROUTES,
+  homePathFor,
+  redirectTargetFor,
+  type RedirectState,
+} from "./lib/routes";
+import type { UserRole } from "./types";
 
 export default function App() {
-  const [appState, setAppState] = useState<AppState>("splash");
+  const navigate = useNavigate();
+  const location = useLocation();
   const [phone, setPhone] = useState("");
   const [userRole, setUserRole] = useState<UserRole | null>(null);
 
+  // Page a guard bounced us from, carried through login → OTP
+  const redirectState = (location.state as RedirectState | null) ?? {};
+
+  // ---------- SESSION (restore on reload, react to other tabs) ----------
+  const { ready: authReady, applySession } = useAuthSession({
+    onSignedIn: (sessionPhone, role) => {
+      setPhone(sessionPhone);
+      setUserRole(role);
+      // Just verified an OTP → continue to the dashboard
+      if (location.pathname === ROUTES.otp) {
+        navigate(redirectTargetFor(role, redirectState.from), { replace: true });
+      }
+    },
+    onSignedOut: () => {
+      console.log("ℹ️ Session ended (sign-out, expiry or another tab)");
+      setPhone("");
+      setUserRole(null);
+      navigate(ROUTES.login, { replace: true });
+    },
+    onRoleError: (err) => {
+      setPhone("");
+      setUserRole(null);
+      notify.error(err, { title: "Login failed" });
+      navigate(ROUTES.login, { replace: true });
+    },
+  });
+
   // 🔹 Splash → Login
-  const handleSplashComplete = () => setAppState("login");
+  const handleSplashComplete = () => navigate(ROUTES.login, { replace: true });
 
   // ---------- SEND OTP ----------
-  const handleLogin = async (phoneNumberRaw: string) => {
-    try {
-      let phoneNumber = String(phoneNumberRaw || "").trim();
-      phoneNumber = phoneNumber.replace(/[^\d+]/g, "");
+  // Errors are thrown as user-facing messages; the screens display them
+  const handleLogin = async (phoneNumberRaw: string, challenge?: ChallengeAnswer) => {
+    const phoneNumber = toE164(phoneNumberRaw);
+    if (!phoneNumber) throw new Error(invalidPhoneMessage(phoneNumberRaw));
 
-      if (!phoneNumber.startsWith("+")) {
-        phoneNumber = "+91" + phoneNumber;
-      }
+    const status = getOtpStatus(phoneNumber);
+    if (status.lockedForSeconds > 0) throw new Error(lockoutMessage(status.lockedForSeconds));
 
-      const e164 = /^\+\d{7,15}$/;
-      if (!e164.test(phoneNumber)) {
-        alert("Invalid phone number. Example: +919876543210");
-        return;
-      }
+    setPhone(phoneNumber);
 
-      setPhone(phoneNumber);
+    // A code sent moments ago is still valid → reuse it instead of sending another
+    if (status.resendInSeconds === 0) {
+      await sendOtp(phoneNumber, challenge);
+    }
+    navigate(ROUTES.otp, { state: redirectState });
+  };
+
+  const sendOtp = async (phoneNumber: string, challenge?: ChallengeAnswer) => {
+    try {
+      await db.auth.sendOtp(phoneNumber, challenge);
+    } catch (err) {
+      if (err instanceof ChallengeRequiredError) throw err;
+      if (err instanceof OtpLockedError) throw lockedOut(phoneNumber, err);
+      console.error("❌ OTP send error:", err);
+      throw new Error("Couldn't send the code. " + toUserMessage(err));
+    }
+    recordOtpSent(phoneNumber);
+    console.log("✅ OTP sent to:", phoneNumber);
+  };
 
-      const { error } = await supabase.auth.signInWithOtp({ phone: phoneNumber });
+  // The gateway's lockout wins over whatever this browser counted
+  const lockedOut = (phoneNumber: string, err: OtpLockedError) => {
+    recordOtpLockout(phoneNumber, err.retryAfterSeconds);
+    return new Error(lockoutMessage(err.retryAfterSeconds));
+  };
 
-      if (error) {
-        console.error("❌ Supabase OTP send error:", error.message);
-        alert("OTP send failed: " + error.message);
-        return;
+  // ---------- RESEND OTP ----------
+  const handleResendOTP = async () => {
+    const status = getOtpStatus(phone);
+    if (status.lockedForSeconds > 0) throw new Error(lockoutMessage(status.lockedForSeconds));
+    if (status.resendInSeconds > 0) return; // OTPScreen keeps the button disabled
+    try {
+      await sendOtp(phone);
+    } catch (err) {
+      // The question is asked on the login screen
+      if (err instanceof ChallengeRequiredError) {
+        throw new Error("Go back and answer the security question to get a new code.");
       }
-
-      console.log("✅ Supabase OTP sent to:", phoneNumber);
-      setAppState("otp");
-    } catch (err: any) {
-      console.error("❌ OTP send error:", err.message);
-      alert("OTP send failed: " + err.message);
+      throw err;
     }
   };
 
   // ---------- VERIFY OTP ----------
   const handleOTPVerify = async (otp: string) => {
+    const status = getOtpStatus(phone);
+    if (status.lockedForSeconds > 0) throw new Error(lockoutMessage(status.lockedForSeconds));
+    if (status.attemptsLeft === 0) throw new Error("Too many wrong codes. Request a new one.");
+    if (status.expiresInSeconds === 0) throw new Error("This code has expired. Request a new one.");
+
+    let session;
     try {
-      const { data, error } = await supabase.auth.verifyOtp({
-        phone,
-        token: otp,
-        type: "sms",
-      });
-
-      if (error) {
-        console.error("❌ OTP verification failed:", error.message);
-        alert("OTP verification failed: " + error.message);
-        return;
+      session = await db.auth.verifyOtp(phone, otp);
+    } catch (err) {
+      console.error("❌ OTP verification failed:", err);
+      if (err instanceof OtpLockedError) throw lockedOut(phone, err);
+      // Only a rejected code counts against the attempts, not a rate limit or
+      // a dropped connection
+      if (!(err instanceof ServiceError && err.code === "invalid_code")) {
+        throw new Error(toUserMessage(err));
       }
+      const after = recordOtpFailure(phone);
+      if (after.lockedForSeconds > 0) throw new Error(lockoutMessage(after.lockedForSeconds));
+      throw new Error(
+        `Incorrect or expired code. ${after.attemptsLeft} attempt${after.attemptsLeft === 1 ? "" : "s"} left.`
+      );
+    }
 
-      console.log("✅ Verified user:", data.user);
-
-      // Normalize phone
-      let normalizedPhone = phone.replace(/[^\d+]/g, "");
-      if (!normalizedPhone.startsWith("+")) normalizedPhone = "+91" + normalizedPhone;
-
-      // Fetch role
-      const { data: userData, error: roleError } = await supabase
-        .from("users")
-        .select("role")
-        .eq("phone", normalizedPhone)
-        .single();
-
-      if (roleError) {
-        console.warn("⚠️ Role not found, defaulting to 'user':", roleError.message);
-        setUserRole("user");
-      } else {
-        console.log("ℹ️ Role from DB:", userData?.role);
-        setUserRole((userData?.role as UserRole) || "user");
-      }
+    clearOtpState(phone);
+    console.log("✅ Verified user:", session.phone);
 
-      setAppState("dashboard");
-    } catch (err: any) {
-      console.error("❌ OTP verification failed:", err.message);
-      alert("OTP verification failed: " + err.message);
-    }
+    // Resolves the role and continues via onSignedIn
+    await applySession(session);
   };
 
   // ---------- LOGOUT ----------
   const handleLogout = async () => {
-    await supabase.auth.signOut();
-    setAppState("login");
+    // Recorded while the session still identifies the actor; never blocks signing out
+    await db.audit
+      .record({ action: "auth.logout", target_type: "user" })
+      .catch((err) => console.error("❌ Couldn't record the logout:", err));
+    await db.auth.signOut();
     setPhone("");
     setUserRole(null);
+    navigate(ROUTES.login, { replace: true });
   };
 
   // ---------- BACK ----------
   const handleBackToLogin = () => {
-    setAppState("login");
     setPhone("");
+    navigate(ROUTES.login, { state: redirectState });
   };
 
+  if (!authReady) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-blue-100 via-purple-100 to-pink-100">
+        <Loader2 className="w-8 h-8 animate-spin text-indigo-500" />
+      </div>
+    );
+  }
+
   return (
     <>
-      {appState === "splash" && <SplashScreen onComplete={handleSplashComplete} />}
+      <Routes>
+        <Route
+          path={ROUTES.splash}
+          element={
+            userRole ? (
+              <Navigate to={homePathFor(userRole)} replace />
+            ) : (
+              <SplashScreen onComplete={handleSplashComplete} />
+            )
+          }
+        />
+
+        <Route
+          path={ROUTES.login}
+          element={
+            userRole ? (
+              <Navigate to={homePathFor(userRole)} replace />
+            ) : (
+              <LoginScreen onLogin={handleLogin} />
+            )
+          }
+        />
 
-      {appState === "login" && <LoginScreen onLogin={handleLogin} />}
+        <Route
+          path={ROUTES.otp}
+          element={
+            phone ? (
+              <OTPScreen
+                onVerify={handleOTPVerify}
+                onBack={handleBackToLogin}
+                onResend={handleResendOTP}
+                phone={phone}
+              />
+            ) : (
+              <Navigate to={ROUTES.login} replace state={redirectState} />
+            )
+          }
+        />
 
-      {appState === "otp" && (
-        <OTPScreen onVerify={handleOTPVerify} onBack={handleBackToLogin} phone={phone} />
-      )}
+        {/* ---------- DASHBOARD ROUTES ---------- */}
+        <Route path="/admin" element={<RequireRole role="superadmin" userRole={userRole} />}>
+          <Route element={<DashboardBoundary name="Super Admin dashboard" onLogout={handleLogout} />}>
+            <Route index element={<Navigate to={ROUTES.adminBanks} replace />} />
+            <Route path=":tab" element={<SuperAdminDashboard onLogout={handleLogout} />} />
+            <Route path="banks/:bankId" element={<SuperAdminDashboard onLogout={handleLogout} />} />
+          </Route>
+        </Route>
 
-      {/* ---------- DASHBOARD ROUTES ---------- */}
-      {appState === "dashboard" && userRole === "superadmin" && (
-        <SuperAdminDashboard onLogout={handleLogout} />
-      )}
+        <Route path="/lm" element={<RequireRole role="loanmanager" userRole={userRole} />}>
+          <Route element={<DashboardBoundary name="Loan Manager dashboard" onLogout={handleLogout} />}>
+            <Route index element={<Navigate to={ROUTES.lmUsers} replace />} />
+            <Route path=":tab" element={<BankAdminDashboard onLogout={handleLogout} phone={phone} />} />
+            <Route path="users/:userId" element={<BankAdminDashboard onLogout={handleLogout} phone={phone} />} />
+          </Route>
+        </Route>
 
-      {appState === "dashboard" && userRole === "loanmanager" && (
-        <BankAdminDashboard onLogout={handleLogout} />
-      )}
+        <Route path="/me" element={<RequireRole role="user" userRole={userRole} />}>
+          <Route element={<DashboardBoundary name="asset dashboard" onLogout={handleLogout} />}>
+            <Route index element={<Navigate to={ROUTES.myAssets} replace />} />
+            <Route path="assets" element={<UserDashboard onLogout={handleLogout} phone={phone} />} />
+            <Route
+              path="assets/:assetId"
+              element={<UserDashboard onLogout={handleLogout} phone={phone} />}
+            />
+          </Route>
+        </Route>
 
-      {appState === "dashboard" && userRole === "user" && (
-        // ✅ FIX: Pass phone to UserDashboard
-        <UserDashboard onLogout={handleLogout} phone={phone} />
-      )}
+        <Route
+          path="*"
+          element={<Navigate to={userRole ? homePathFor(userRole) : ROUTES.login} replace />}
+        />
+      </Routes>
 
       <Toaster />
     </>
@@ -0,0 +1,37 @@
+import { History } from "lucide-react";
+import { AUDIT_ACTION_LABELS, describeAuditEvent, formatAuditTime } from "../lib/audit";
+import type { AuditEvent } from "../types";
+
+/* -----------------------------------------------------
+   Collapsible, oldest-first activity of one asset:
+   who did what and when
+   ----------------------------------------------------- */
+export function ActivityTimeline({ events }: { events: AuditEvent[] }) {
+  return (
+    <details className="mt-3 text-sm">
+      <summary className="cursor-pointer font-semibold flex items-center gap-1">
+        <History className="w-4 h-4" /> Activity ({events.length})
+      </summary>
+      {events.length === 0 ? (
+        <p className="text-xs text-gray-500 mt-2">No recorded activity.</p>
+      ) : (
+        <ol className="mt-2 border-l-2 border-green-200 ml-2 space-y-2">
+          {events.map((event) => (
+            <li key={event.id} className="pl-3 relative">
+              <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-green-500" />
+              <p className="text-xs text-gray-500">
+                {formatAuditTime(event.created_at)} ·{" "}
+                {event.actor_name ?? "System"}
+                {event.actor_role ? ` (${event.actor_role})` : ""}
+              </p>
+              <p>
+                <span className="font-medium">{AUDIT_ACTION_LABELS[event.action]}:</span>{" "}
+                {describeAuditEvent(event)}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </details>
+  );
+}
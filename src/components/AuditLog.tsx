@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import { Loader2, Search } from "lucide-react";
+import { Card } from "./ui/card";
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { db } from "../lib/data";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_PAGE_SIZE,
+  describeAuditEvent,
+  formatAuditTime,
+} from "../lib/audit";
+import { notify } from "../lib/notify";
+import { AUDIT_ACTIONS, type AuditAction, type AuditEvent } from "../types";
+
+const SEARCH_DELAY_MS = 300;
+
+/* -----------------------------------------------------
+   Searchable, newest-first audit log for super admins
+   ----------------------------------------------------- */
+export function AuditLog() {
+  const [text, setText] = useState("");
+  const [action, setAction] = useState<AuditAction | "all">("all");
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchEvents = async () => {
+    setLoading(true);
+    try {
+      setEvents(await db.audit.search({ text, action: action === "all" ? undefined : action }));
+    } catch (err) {
+      notify.error(err, { title: "Couldn't load the audit log", retry: fetchEvents });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // ✅ Re-query once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(fetchEvents, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [text, action]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <Input
+            placeholder="Search by person, asset, file, phone..."
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            className="pl-12 h-12 rounded-xl bg-white shadow-sm"
+          />
+        </div>
+        <Select value={action} onValueChange={(v) => setAction(v as AuditAction | "all")}>
+          <SelectTrigger className="w-48 bg-white">
+            <SelectValue placeholder="Action" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All actions</SelectItem>
+            {AUDIT_ACTIONS.map((a) => (
+              <SelectItem key={a} value={a}>
+                {AUDIT_ACTION_LABELS[a]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card className="bg-white p-0 overflow-x-auto">
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-gray-500">
+            <Loader2 className="animate-spin w-5 h-5 mr-2" /> Loading activity...
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No matching activity</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-2 font-medium">When</th>
+                <th className="px-4 py-2 font-medium">Who</th>
+                <th className="px-4 py-2 font-medium">Action</th>
+                <th className="px-4 py-2 font-medium">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.map((event) => (
+                <tr key={event.id} className="border-t align-top">
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-500">
+                    {formatAuditTime(event.created_at)}
+                  </td>
+                  <td className="px-4 py-2">
+                    {event.actor_name ?? "System"}
+                    {event.actor_role && (
+                      <span className="block text-xs text-gray-500">{event.actor_role}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap">{AUDIT_ACTION_LABELS[event.action]}</td>
+                  <td className="px-4 py-2 break-all">{describeAuditEvent(event)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </Card>
+      {events.length === AUDIT_PAGE_SIZE && (
+        <p className="text-xs text-center text-gray-500">
+          Showing the latest {AUDIT_PAGE_SIZE} events. Narrow the search to see older ones.
+        </p>
+      )}
+    </div>
+  );
+}
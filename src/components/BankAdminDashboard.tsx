@@ -1,13 +1,12 @@
 import { useState, useEffect } from "react";
+import { Navigate, useNavigate, useParams } from "react-router-dom";
 import { motion } from "motion/react";
 import {
   Shield,
   Search,
   LogOut,
-  Download,
   UserPlus,
-  Upload,
-  FileSpreadsheet,
+  Download,
   X,
   ChevronLeft,
   ChevronRight,
@@ -25,12 +24,96 @@ import {
   SelectTrigger,
   SelectValue,
 } from "./ui/select";
-import * as XLSX from "xlsx";
-import { supabase } from "../supabaseClient";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { db } from "../lib/data";
+import { deriveUserStatus, groupAssetsByUser } from "../lib/assets";
+import {
+  ASSET_STATUS_LABELS,
+  REVIEW_QUEUE_STATUSES,
+  allowedTransitions,
+} from "../lib/assetLifecycle";
+import {
+  EXPORT_FORMATS,
+  beneficiaryExportRows,
+  downloadBeneficiaries,
+  type ExportFormat,
+} from "../lib/beneficiaryExport";
+import { formatBytes, groupFilesByDocument, isPdf } from "../lib/documents";
+import {
+  documentReview,
+  imageReview,
+  imageReviewRef,
+  indexReviews,
+  summarizeReview,
+  type ReviewIndex,
+} from "../lib/reviews";
+import { ActivityTimeline } from "./ActivityTimeline";
+import { BeneficiaryImport } from "./BeneficiaryImport";
+import { ReviewControls } from "./ReviewControls";
+import { notify } from "../lib/notify";
+import { formatPhone, invalidPhoneMessage, toE164 } from "../lib/phone";
+import { ROUTES } from "../lib/routes";
+import type {
+  Asset,
+  AssetStatus,
+  AuditEvent,
+  DocumentFile,
+  RejectionReason,
+  RequiredDocument,
+  ReviewItemType,
+  User,
+} from "../types";
+
+const TABS = ["users", "add"] as const;
+type Tab = (typeof TABS)[number];
+
+const TAB_PATHS: Record<Tab, string> = {
+  users: ROUTES.lmUsers,
+  add: ROUTES.lmAdd,
+};
+
+type AssetDetails = Asset & {
+  documents: RequiredDocument[];
+  files: Record<string, DocumentFile[]>; // document id → versions, newest first
+  images: string[];
+  reviews: ReviewIndex;
+  events: AuditEvent[]; // audit timeline, oldest first
+};
+
+const statusColor = (status: AssetStatus | null) =>
+  status === "authenticated"
+    ? "text-green-600"
+    : status && REVIEW_QUEUE_STATUSES.includes(status)
+    ? "text-yellow-600"
+    : "text-red-600";
+
+const statusLabel = (status: AssetStatus | null) =>
+  status ? ASSET_STATUS_LABELS[status] : "no assets";
+
+// Statuses a beneficiary can be filtered by (see deriveUserStatus)
+const FILTER_STATUSES: AssetStatus[] = [
+  "awaiting_evidence",
+  "under_review",
+  "rejected",
+  "authenticated",
+];
+
+interface BankAdminDashboardProps {
+  onLogout: () => void;
+  phone: string; // the signed-in loan manager
+}
 
-export function BankAdminDashboard({ onLogout }: { onLogout: () => void }) {
+export function BankAdminDashboard({ onLogout, phone }: BankAdminDashboardProps) {
+  const navigate = useNavigate();
+  const { tab, userId } = useParams<{ tab?: string; userId?: string }>();
   const [searchQuery, setSearchQuery] = useState("");
-  const [users, setUsers] = useState<any[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [assetsByUser, setAssetsByUser] = useState<Record<string, Asset[]>>({});
   const [loading, setLoading] = useState(true);
   const [filter, setFilter] = useState("all");
   const [userForm, setUserForm] = useState({
@@ -39,222 +122,255 @@ export function BankAdminDashboard({ onLogout }: { onLogout: () => void }) {
     asset: "",
     documents: "",
   });
-  const [selectedUser, setSelectedUser] = useState<any | null>(null);
-  const [assetDetails, setAssetDetails] = useState<any | null>(null);
-  const [assetImages, setAssetImages] = useState<string[]>([]);
-  const [currentImageIndex, setCurrentImageIndex] = useState(0);
-  const [processing, setProcessing] = useState(false);
-
-  // ✅ Fetch all users
+  const [userAssets, setUserAssets] = useState<AssetDetails[] | null>(null);
+  const [updatingAssetId, setUpdatingAssetId] = useState<string | null>(null);
+  const [previewDocId, setPreviewDocId] = useState<string | null>(null);
+  const [reviewing, setReviewing] = useState(false);
+  const [rejecting, setRejecting] = useState<{ assetId: string; reason: string } | null>(null);
+  const [me, setMe] = useState<User | null>(null);
+  const [noProfile, setNoProfile] = useState(false); // no active loan manager for this phone
+
+  // ✅ Reviews and status changes are signed with the loan manager's user id,
+  //    and everything they see is scoped to their bank
+  useEffect(() => {
+    db.users
+      .findByPhone(phone)
+      .then((user) => {
+        if (user && !user.deactivated_at) return setMe(user);
+        // e.g. deactivated since signing in: there is nothing left to load
+        setNoProfile(true);
+        setLoading(false);
+      })
+      .catch((err) => {
+        notify.error(err, { title: "Couldn't load your loan manager profile" });
+        setLoading(false);
+      });
+  }, [phone]);
+
+  // ✅ Fetch the bank's beneficiaries with every asset they hold
   const fetchUsers = async () => {
+    if (!me) return;
+    if (!me.bank_id) {
+      notify.warning("Your account isn't linked to a bank yet. Ask a super admin to assign one.");
+      setLoading(false);
+      return;
+    }
     setLoading(true);
-    const { data, error } = await supabase
-      .from("users")
-      .select("id, name, phone, asset, status, role")
-      .eq("role", "user");
-    if (!error) setUsers(data || []);
-    setLoading(false);
+    try {
+      const userRows = await db.users.listByBank(me.bank_id, "user");
+      const assets = await db.assets.listByUsers(userRows.map((u) => u.id));
+      setUsers(userRows);
+      setAssetsByUser(groupAssetsByUser(assets));
+    } catch (err) {
+      notify.error(err, { title: "Couldn't load beneficiaries", retry: fetchUsers });
+    } finally {
+      setLoading(false);
+    }
   };
 
   useEffect(() => {
     fetchUsers();
-  }, []);
+  }, [me]);
+
+  // ✅ Active tab + open user come from the URL (/lm/:tab, /lm/users/:userId)
+  const activeTab: Tab | null = userId ? "users" : TABS.find((t) => t === tab) ?? null;
+  const selectedUser = userId ? users.find((u) => u.id === userId) ?? null : null;
+
+  useEffect(() => {
+    setUserAssets(null);
+    if (userId) fetchAssetDetails(userId);
+  }, [userId]);
+
+  // ✅ A user's status is derived from all of their assets
+  const statusOf = (user: User) => deriveUserStatus(assetsByUser[user.id] ?? []);
 
-  // ✅ Filter + Search
+  // ✅ Filter + Search (name, phone or any asset name)
   const filteredUsers = users.filter((u) => {
+    const query = searchQuery.toLowerCase();
     const matchesSearch =
-      u.name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      u.phone?.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesFilter =
-      filter === "all" ? true : u.status?.toLowerCase() === filter;
+      u.name?.toLowerCase().includes(query) ||
+      u.phone?.toLowerCase().includes(query) ||
+      (assetsByUser[u.id] ?? []).some((a) => a.asset_name.toLowerCase().includes(query));
+    const matchesFilter = filter === "all" ? true : statusOf(u) === filter;
     return matchesSearch && matchesFilter;
   });
 
-  // ✅ Fetch asset + documents + images
+  // ✅ Export exactly what the search + filter show, with each asset's checklist
+  const handleExport = async (format: ExportFormat) => {
+    const assetIds = filteredUsers.flatMap((u) => (assetsByUser[u.id] ?? []).map((a) => a.id));
+    try {
+      const documents = await db.documents.listByAssets(assetIds);
+      downloadBeneficiaries(beneficiaryExportRows(filteredUsers, assetsByUser, documents), format);
+    } catch (err) {
+      notify.error(err, { title: "Couldn't export the beneficiaries" });
+    }
+  };
+
+  // ✅ Fetch every asset of the user with its documents + images
   const fetchAssetDetails = async (userId: string) => {
-    const { data: asset } = await supabase
-      .from("assets")
-      .select("id, asset_name, issued_date, status")
-      .eq("user_id", userId)
-      .single();
-
-    if (!asset) return;
-
-    const { data: docs } = await supabase
-      .from("required_documents")
-      .select("document_name, is_uploaded, uploaded_at")
-      .eq("asset_id", asset.id);
-
-    let imageList: string[] = [];
-    if (asset.status === "pending") {
-      const { data: files } = await supabase.storage
-        .from("asset-images")
-        .list(asset.id + "/");
-      imageList =
-        files?.map(
-          (f) =>
-            `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/public/asset-images/${asset.id}/${f.name}`
-        ) || [];
+    try {
+      const assets = await db.assets.listByUser(userId);
+      const details = await Promise.all(
+        assets.map(async (asset) => ({
+          ...asset,
+          documents: await db.documents.listByAsset(asset.id),
+          files: groupFilesByDocument(await db.documents.listFiles(asset.id)),
+          images: REVIEW_QUEUE_STATUSES.includes(asset.status) ? await db.images.list(asset.id) : [],
+          reviews: indexReviews(await db.reviews.listByAsset(asset.id)),
+          events: await db.audit.listByAsset(asset.id),
+        }))
+      );
+      setUserAssets(details);
+    } catch (err) {
+      notify.error(err, {
+        title: "Couldn't load the asset",
+        retry: () => fetchAssetDetails(userId),
+      });
     }
+  };
+
+  const signedIn = (): User => {
+    if (!me) throw new Error("Your loan manager profile hasn't loaded yet. Please try again.");
+    return me;
+  };
 
-    setAssetDetails({ ...asset, documents: docs || [] });
-    setAssetImages(imageList);
-    setCurrentImageIndex(0);
+  // ✅ A submitted / resubmitted asset moves to under_review when first acted on
+  const startReview = async (asset: Asset): Promise<Asset> => {
+    if (!allowedTransitions(asset.status, "loanmanager").includes("under_review")) return asset;
+    await db.assets.transition({ asset, to: "under_review", actor: signedIn() });
+    return { ...asset, status: "under_review" };
   };
 
-  // ✅ Modal open
-  const handleUserClick = (user: any) => {
-    setSelectedUser(user);
-    fetchAssetDetails(user.id);
+  // ✅ Modal open / close
+  const handleUserClick = (user: User) => navigate(ROUTES.lmUser(user.id));
+  const closeUserDetails = () => navigate(ROUTES.lmUsers);
+
+  // ✅ Accept / reject one document version or image; a rejection shows up
+  //    for the beneficiary as a request to upload that item again
+  const handleReview = async (
+    asset: AssetDetails,
+    itemType: ReviewItemType,
+    itemRef: string,
+    rejection?: { reason: RejectionReason; note: string }
+  ) => {
+    setReviewing(true);
+    try {
+      await startReview(asset);
+      await db.reviews.record({
+        asset_id: asset.id,
+        item_type: itemType,
+        item_ref: itemRef,
+        decision: rejection ? "rejected" : "accepted",
+        reason: rejection?.reason ?? null,
+        note: rejection?.note || null,
+        reviewed_by: signedIn().id,
+      });
+      await Promise.all([fetchUsers(), fetchAssetDetails(asset.user_id)]);
+    } catch (err) {
+      notify.error(err, { title: "Couldn't save the review" });
+    } finally {
+      setReviewing(false);
+    }
   };
 
-  // ✅ Grant / Non-Grant actions
-  const handleStatusUpdate = async (newStatus: string) => {
-    if (!assetDetails) return;
-    setProcessing(true);
-    await supabase.from("assets").update({ status: newStatus }).eq("id", assetDetails.id);
-    await fetchUsers();
-    setProcessing(false);
-    setSelectedUser(null);
+  // ✅ Grant / Non-Grant actions (per asset; the popup stays open for the rest).
+  //    Non-Grant needs a reason, which the beneficiary sees in the audit trail
+  const handleDecision = async (
+    asset: Asset,
+    to: "authenticated" | "rejected",
+    reason: string | null = null
+  ) => {
+    setUpdatingAssetId(asset.id);
+    try {
+      const current = await startReview(asset);
+      await db.assets.transition({ asset: current, to, actor: signedIn(), reason });
+    } catch (err) {
+      notify.error(err, {
+        title: "Couldn't update the asset",
+        retry: () => handleDecision(asset, to, reason),
+      });
+      return;
+    } finally {
+      setUpdatingAssetId(null);
+    }
+    setRejecting(null);
+    notify.success(`${asset.asset_name} marked ${ASSET_STATUS_LABELS[to].toLowerCase()}`);
+    await Promise.all([fetchUsers(), fetchAssetDetails(asset.user_id)]);
   };
 
-  // ✅ Download sample Excel
-  const handleDownloadSample = () => {
-    const sample = [
-      {
-        name: "Ramesh Kumar",
-        phone: "9876543210",
-        asset_name: "Tractor Loan",
-        documents: "Aadhaar Card, Land Proof, Income Certificate",
-      },
-    ];
-    const ws = XLSX.utils.json_to_sheet(sample);
-    const wb = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(wb, ws, "Sample");
-    XLSX.writeFile(wb, "sample_user_upload.xlsx");
+  // ✅ User + asset + required documents in one call; a phone that already
+  //    belongs to a beneficiary gets the asset added as another loan.
+  //    The asset is opened for evidence once its checklist exists
+  const createBeneficiary = async (
+    name: string,
+    phone: string,
+    assetName: string,
+    documents: string
+  ) => {
+    const { user, added_to_existing } = await db.users.addBeneficiary({
+      name,
+      phone,
+      asset_name: assetName,
+      documents: documents
+        .split(",")
+        .map((d) => d.trim())
+        .filter(Boolean),
+    });
+    return { user, addedToExisting: added_to_existing };
   };
 
   // ✅ Add user manually
   const handleAddUser = async () => {
     if (!userForm.name || !userForm.phone || !userForm.asset) {
-      alert("⚠️ Please fill all fields");
+      notify.warning("Please fill all fields");
+      return;
+    }
+    const phone = toE164(userForm.phone);
+    if (!phone) {
+      notify.warning(invalidPhoneMessage(userForm.phone));
       return;
     }
 
-    const { data: userData } = await supabase
-      .from("users")
-      .insert([
-        {
-          name: userForm.name,
-          phone: userForm.phone,
-          role: "user",
-          status: "non-verified",
-          asset: userForm.asset,
-        },
-      ])
-      .select("id")
-      .single();
-
-    const { data: assetData } = await supabase
-      .from("assets")
-      .insert([
-        {
-          user_id: userData.id,
-          asset_name: userForm.asset,
-          issued_date: new Date().toISOString().split("T")[0],
-          status: "non-verified",
-        },
-      ])
-      .select("id")
-      .single();
-
-    const docs = userForm.documents
-      .split(",")
-      .map((d) => d.trim())
-      .filter(Boolean);
-    if (assetData?.id && docs.length > 0) {
-      const docRows = docs.map((d) => ({
-        asset_id: assetData.id,
-        document_name: d,
-        is_uploaded: false,
-      }));
-      await supabase.from("required_documents").insert(docRows);
+    let result: Awaited<ReturnType<typeof createBeneficiary>>;
+    try {
+      result = await createBeneficiary(userForm.name, phone, userForm.asset, userForm.documents);
+    } catch (err) {
+      notify.error(err, { title: "Couldn't add the beneficiary" });
+      return;
     }
 
-    alert("✅ User, asset, and documents added!");
+    const { user, addedToExisting } = result;
+    notify.success(
+      addedToExisting
+        ? `${userForm.asset} added to ${user.name}'s assets`
+        : `${user.name} added with their asset and documents`,
+      { action: { label: "View", onClick: () => navigate(ROUTES.lmUser(user.id)) } }
+    );
     fetchUsers();
     setUserForm({ name: "", phone: "", asset: "", documents: "" });
   };
 
-  // ✅ Excel Upload via Drag & Drop
-  const handleExcelDrop = async (e: React.DragEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    const file = e.dataTransfer.files?.[0];
-    if (file) await processExcel(file);
-  };
-
-  // ✅ Shared Excel Parser
-  const processExcel = async (file: File) => {
-    const reader = new FileReader();
-    reader.onload = async (evt) => {
-      const data = new Uint8Array(evt.target?.result as ArrayBuffer);
-      const workbook = XLSX.read(data, { type: "array" });
-      const sheet = XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]]);
-
-      for (const row of sheet as any[]) {
-        const { name, phone, asset_name, documents } = row;
-        if (!name || !phone || !asset_name) continue;
-
-        const { data: userData } = await supabase
-          .from("users")
-          .insert([
-            { name, phone, role: "user", status: "non-verified", asset: asset_name },
-          ])
-          .select("id")
-          .single();
-
-        const { data: assetData } = await supabase
-          .from("assets")
-          .insert([
-            {
-              user_id: userData.id,
-              asset_name,
-              issued_date: new Date().toISOString().split("T")[0],
-              status: "non-verified",
-            },
-          ])
-          .select("id")
-          .single();
-
-        if (assetData?.id && documents) {
-          const docList = documents
-            .split(",")
-            .map((d: string) => d.trim())
-            .filter(Boolean)
-            .map((d: string) => ({
-              asset_id: assetData.id,
-              document_name: d,
-              is_uploaded: false,
-            }));
-          await supabase.from("required_documents").insert(docList);
-        }
-      }
-
-      alert("✅ Excel upload complete!");
-      fetchUsers();
-    };
-    reader.readAsArrayBuffer(file);
-  };
-
-  // ✅ Pagination controls for image preview
-  const handleNextImage = () => {
-    setCurrentImageIndex((prev) => (prev + 1) % assetImages.length);
-  };
-  const handlePrevImage = () => {
-    setCurrentImageIndex(
-      (prev) => (prev - 1 + assetImages.length) % assetImages.length
+  if (!activeTab) return <Navigate to={ROUTES.lmUsers} replace />;
+
+  if (noProfile) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-green-50 via-green-100 to-green-200 p-6">
+        <Card className="p-6 bg-white max-w-md text-center space-y-4">
+          <h2 className="font-semibold text-gray-900">Your account is no longer active</h2>
+          <p className="text-sm text-gray-600">
+            {formatPhone(phone)} isn't an active loan manager any more. Ask a super admin if you
+            think this is a mistake.
+          </p>
+          <Button
+            onClick={onLogout}
+            className="bg-gradient-to-r from-green-500 to-green-700 text-white px-4 rounded-full"
+          >
+            <LogOut className="w-4 h-4 mr-2" /> Sign out
+          </Button>
+        </Card>
+      </div>
     );
-  };
+  }
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-green-50 via-green-100 to-green-200">
@@ -282,7 +398,11 @@ export function BankAdminDashboard({ onLogout }: { onLogout: () => void }) {
 
       {/* Content */}
       <div className="max-w-7xl mx-auto p-6 space-y-6">
-        <Tabs defaultValue="users" className="w-full">
+        <Tabs
+          value={activeTab}
+          onValueChange={(value) => navigate(TAB_PATHS[value as Tab])}
+          className="w-full"
+        >
           <TabsList className="grid w-full grid-cols-2 mb-6">
             <TabsTrigger value="users">Users</TabsTrigger>
             <TabsTrigger value="add">Add New</TabsTrigger>
@@ -300,17 +420,39 @@ export function BankAdminDashboard({ onLogout }: { onLogout: () => void }) {
                   className="pl-12 h-12 rounded-xl bg-white shadow-sm"
                 />
               </div>
-              <Select value={filter} onValueChange={setFilter}>
-                <SelectTrigger className="w-40 bg-white">
-                  <SelectValue placeholder="Filter" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All</SelectItem>
-                  <SelectItem value="non-verified">Non-Verified</SelectItem>
-                  <SelectItem value="pending">Pending</SelectItem>
-                  <SelectItem value="authenticated">Authenticated</SelectItem>
-                </SelectContent>
-              </Select>
+              <div className="flex items-center gap-2">
+                <Select value={filter} onValueChange={setFilter}>
+                  <SelectTrigger className="w-40 bg-white">
+                    <SelectValue placeholder="Filter" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All</SelectItem>
+                    {FILTER_STATUSES.map((s) => (
+                      <SelectItem key={s} value={s}>
+                        {ASSET_STATUS_LABELS[s]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      disabled={loading || filteredUsers.length === 0}
+                      className="bg-white border-green-500 text-green-600 hover:bg-green-50"
+                    >
+                      <Download className="w-4 h-4 mr-2" /> Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {EXPORT_FORMATS.map((f) => (
+                      <DropdownMenuItem key={f.value} onSelect={() => handleExport(f.value)}>
+                        {f.label}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
             </div>
 
             {loading ? (
@@ -319,28 +461,34 @@ export function BankAdminDashboard({ onLogout }: { onLogout: () => void }) {
               <p className="text-center text-gray-500">No users found</p>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                {filteredUsers.map((user) => (
-                  <Card
-                    key={user.id}
-                    onClick={() => handleUserClick(user)}
-                    className="p-6 bg-white rounded-2xl shadow hover:shadow-lg transition cursor-pointer"
-                  >
-                    <h3 className="font-semibold">{user.name}</h3>
-                    <p className="text-sm text-gray-600">{user.phone}</p>
-                    <p className="text-sm text-gray-500">Asset: {user.asset}</p>
-                    <p
-                      className={`text-xs font-bold mt-2 ${
-                        user.status === "authenticated"
-                          ? "text-green-600"
-                          : user.status === "pending"
-                          ? "text-yellow-600"
-                          : "text-red-600"
-                      }`}
+                {filteredUsers.map((user) => {
+                  const assets = assetsByUser[user.id] ?? [];
+                  const status = statusOf(user);
+                  return (
+                    <Card
+                      key={user.id}
+                      onClick={() => handleUserClick(user)}
+                      className="p-6 bg-white rounded-2xl shadow hover:shadow-lg transition cursor-pointer"
                     >
-                      {user.status}
-                    </p>
-                  </Card>
-                ))}
+                      <h3 className="font-semibold">{user.name}</h3>
+                      <p className="text-sm text-gray-600">{formatPhone(user.phone)}</p>
+                      <p className="text-sm text-gray-500">
+                        {assets.length === 1 ? "1 asset" : `${assets.length} assets`}
+                      </p>
+                      <ul className="text-xs text-gray-500 mt-1 space-y-0.5">
+                        {assets.map((a) => (
+                          <li key={a.id} className="flex justify-between gap-2">
+                            <span className="truncate">{a.asset_name}</span>
+                            <span className={statusColor(a.status)}>{statusLabel(a.status)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                      <p className={`text-xs font-bold mt-2 ${statusColor(status)}`}>
+                        {statusLabel(status)}
+                      </p>
+                    </Card>
+                  );
+                })}
               </div>
             )}
           </TabsContent>
@@ -373,7 +521,7 @@ export function BankAdminDashboard({ onLogout }: { onLogout: () => void }) {
                       onChange={(e) =>
                         setUserForm({ ...userForm, phone: e.target.value })
                       }
-                      placeholder="Enter phone number"
+                      placeholder="e.g. 9876543210 or +919876543210"
                       className="mt-1"
                     />
                   </div>
@@ -412,68 +560,22 @@ export function BankAdminDashboard({ onLogout }: { onLogout: () => void }) {
               </Card>
 
               {/* Excel Upload Section */}
-              <Card className="p-6 bg-white rounded-2xl shadow">
-                <h2 className="text-lg font-semibold mb-4 text-green-700">
-                  📊 Bulk Upload via Excel
-                </h2>
-
-                {/* Drag & Drop */}
-                <div
-                  onDrop={handleExcelDrop}
-                  onDragOver={(e) => e.preventDefault()}
-                  className="border-2 border-dashed border-green-400 rounded-xl p-10 text-center text-gray-500 hover:bg-green-50 transition"
-                >
-                  <Upload className="mx-auto w-8 h-8 text-green-600 mb-2" />
-                  <p>Drag & drop Excel file here</p>
-                  <p className="text-xs text-gray-400 mt-1">
-                    Columns: name, phone, asset_name, documents
-                  </p>
-                </div>
-
-                {/* Upload via Button */}
-                <div className="flex flex-col items-center mt-4">
-                  <input
-                    type="file"
-                    accept=".xlsx,.xls"
-                    id="excelFileInput"
-                    style={{ display: "none" }}
-                    onChange={(e) => {
-                      const file = e.target.files?.[0];
-                      if (file) processExcel(file);
-                    }}
-                  />
-                  <Button
-                    onClick={() =>
-                      document.getElementById("excelFileInput")?.click()
-                    }
-                    className="mt-2 bg-green-600 text-white hover:bg-green-700 flex items-center gap-2"
-                  >
-                    <FileSpreadsheet className="w-4 h-4" /> Upload Excel File
-                  </Button>
-                </div>
-
-                <div className="flex justify-end mt-4">
-                  <Button
-                    onClick={handleDownloadSample}
-                    variant="outline"
-                    className="flex items-center gap-2 border-green-500 text-green-600 hover:bg-green-50"
-                  >
-                    <Download className="w-4 h-4" />
-                    Download Sample Excel
-                  </Button>
-                </div>
-              </Card>
+              <BeneficiaryImport
+                bankId={me?.bank_id ?? null}
+                assetsByUser={assetsByUser}
+                onImported={fetchUsers}
+              />
             </div>
           </TabsContent>
         </Tabs>
       </div>
 
       {/* POPUP */}
-      {selectedUser && assetDetails && (
+      {selectedUser && userAssets && (
         <div className="fixed inset-0 bg-black bg-opacity-40 flex items-center justify-center z-50">
           <div className="bg-white rounded-xl shadow-xl w-11/12 max-w-2xl p-6 relative overflow-y-auto max-h-[90vh]">
             <button
-              onClick={() => setSelectedUser(null)}
+              onClick={closeUserDetails}
               className="absolute top-3 right-3 text-gray-500 hover:text-black"
             >
               <X className="w-6 h-6" />
@@ -483,84 +585,276 @@ export function BankAdminDashboard({ onLogout }: { onLogout: () => void }) {
               User Details
             </h2>
             <p><strong>Name:</strong> {selectedUser.name}</p>
-            <p><strong>Phone:</strong> {selectedUser.phone}</p>
-            <p><strong>Asset:</strong> {assetDetails.asset_name}</p>
-            <p><strong>Issued Date:</strong> {assetDetails.issued_date}</p>
-            <p><strong>Status:</strong> {assetDetails.status}</p>
-
-            <h3 className="mt-4 font-semibold">Required Documents:</h3>
-            <ul className="list-disc ml-6">
-              {assetDetails.documents.map((doc: any, i: number) => (
-                <li key={i}>
-                  {doc.document_name}{" "}
-                  <span className="text-xs text-gray-500">
-                    {doc.is_uploaded ? "✅ Uploaded" : "❌ Pending"}
+            <p><strong>Phone:</strong> {formatPhone(selectedUser.phone)}</p>
+            <p>
+              <strong>Status:</strong>{" "}
+              <span className={statusColor(deriveUserStatus(userAssets))}>
+                {statusLabel(deriveUserStatus(userAssets))}
+              </span>
+            </p>
+
+            <h3 className="mt-4 font-semibold">Assets ({userAssets.length})</h3>
+            {userAssets.length === 0 && (
+              <p className="text-sm text-gray-500">No assets allocated yet.</p>
+            )}
+
+            {userAssets.map((asset) => (
+              <div key={asset.id} className="border rounded-lg p-4 mt-3">
+                <div className="flex items-center justify-between">
+                  <h4 className="font-semibold">{asset.asset_name}</h4>
+                  <span className={`text-xs font-bold ${statusColor(asset.status)}`}>
+                    {statusLabel(asset.status)}
                   </span>
-                </li>
-              ))}
-            </ul>
-
-            {assetDetails.status === "pending" && (
-              <>
-                <h3 className="mt-4 font-semibold">Uploaded Images:</h3>
-                <div className="flex items-center justify-center relative mt-3">
-                  {assetImages.length > 0 && (
-                    <>
-                      <img
-                        src={assetImages[currentImageIndex]}
-                        alt="doc"
-                        className="rounded-lg max-h-80 w-full object-contain shadow-md"
-                      />
-                      {assetImages.length > 1 && (
+                </div>
+                <p className="text-sm text-gray-600">
+                  <strong>Issued Date:</strong> {asset.issued_date ?? "—"}
+                </p>
+
+                <h5 className="mt-3 text-sm font-semibold">Required Documents:</h5>
+                {asset.documents.length === 0 ? (
+                  <p className="text-sm text-gray-500">None</p>
+                ) : (
+                  <ul className="list-disc ml-6 text-sm">
+                    {asset.documents.map((doc) => {
+                      const versions = asset.files[doc.id] ?? [];
+                      return (
+                        <li key={doc.id}>
+                          {doc.document_name}{" "}
+                          <span className="text-xs text-gray-500">
+                            {doc.is_uploaded ? "✅ Uploaded" : "❌ Pending"}
+                          </span>
+                          {versions.length > 0 && (
+                            <button
+                              onClick={() =>
+                                setPreviewDocId(previewDocId === doc.id ? null : doc.id)
+                              }
+                              className="ml-2 text-xs text-green-700 hover:underline"
+                            >
+                              {previewDocId === doc.id ? "Hide" : "Preview"}
+                            </button>
+                          )}
+                          {previewDocId === doc.id && <DocumentPreview versions={versions} />}
+                          {versions.length > 0 && REVIEW_QUEUE_STATUSES.includes(asset.status) && (
+                            <ReviewControls
+                              review={documentReview(asset.reviews, versions[0])}
+                              disabled={reviewing}
+                              onAccept={() => handleReview(asset, "document", versions[0].id)}
+                              onReject={(reason, note) =>
+                                handleReview(asset, "document", versions[0].id, { reason, note })
+                              }
+                            />
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+
+                {REVIEW_QUEUE_STATUSES.includes(asset.status) && (
+                  <>
+                    <h5 className="mt-3 text-sm font-semibold">Uploaded Images:</h5>
+                    <ImageCarousel
+                      images={asset.images}
+                      renderFooter={(url) => (
+                        <ReviewControls
+                          review={imageReview(asset.reviews, url)}
+                          disabled={reviewing}
+                          onAccept={() => handleReview(asset, "image", imageReviewRef(url))}
+                          onReject={(reason, note) =>
+                            handleReview(asset, "image", imageReviewRef(url), { reason, note })
+                          }
+                        />
+                      )}
+                    />
+
+                    <ReviewProgress asset={asset} />
+
+                    <div className="flex justify-between mt-4">
+                      {updatingAssetId === asset.id ? (
+                        <div className="flex items-center justify-center w-full text-green-600">
+                          <Loader2 className="animate-spin w-5 h-5 mr-2" />
+                          <p>Updating status...</p>
+                        </div>
+                      ) : rejecting?.assetId === asset.id ? (
+                        <div className="w-full space-y-2">
+                          <Label htmlFor={`reject-${asset.id}`}>Why is this asset not granted?</Label>
+                          <Input
+                            id={`reject-${asset.id}`}
+                            value={rejecting.reason}
+                            onChange={(e) => setRejecting({ assetId: asset.id, reason: e.target.value })}
+                            placeholder="Shown to the beneficiary"
+                            autoFocus
+                          />
+                          <div className="flex justify-end gap-2">
+                            <Button variant="ghost" onClick={() => setRejecting(null)}>
+                              Cancel
+                            </Button>
+                            <Button
+                              onClick={() => handleDecision(asset, "rejected", rejecting.reason)}
+                              disabled={!rejecting.reason.trim()}
+                              className="bg-red-100 text-red-700 hover:bg-red-200"
+                            >
+                              Confirm Non-Grant
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
                         <>
-                          <button
-                            onClick={handlePrevImage}
-                            className="absolute left-2 bg-white rounded-full p-1 shadow hover:bg-gray-100"
+                          <Button
+                            onClick={() => handleDecision(asset, "authenticated")}
+                            disabled={
+                              updatingAssetId !== null ||
+                              !summarizeReview(asset.documents, asset.files, asset.images, asset.reviews)
+                                .grantable
+                            }
+                            className="bg-green-100 text-green-700 hover:bg-green-200 w-[48%]"
                           >
-                            <ChevronLeft className="w-6 h-6 text-gray-700" />
-                          </button>
-                          <button
-                            onClick={handleNextImage}
-                            className="absolute right-2 bg-white rounded-full p-1 shadow hover:bg-gray-100"
+                            ✅ Grant
+                          </Button>
+                          <Button
+                            onClick={() => setRejecting({ assetId: asset.id, reason: "" })}
+                            disabled={updatingAssetId !== null}
+                            className="bg-red-100 text-red-700 hover:bg-red-200 w-[48%]"
                           >
-                            <ChevronRight className="w-6 h-6 text-gray-700" />
-                          </button>
+                            ❌ Non-Grant
+                          </Button>
                         </>
                       )}
-                    </>
-                  )}
-                </div>
-              </>
-            )}
-
-            {assetDetails.status === "pending" && (
-              <div className="flex justify-between mt-6">
-                {processing ? (
-                  <div className="flex items-center justify-center w-full text-green-600">
-                    <Loader2 className="animate-spin w-5 h-5 mr-2" />
-                    <p>Updating status...</p>
-                  </div>
-                ) : (
-                  <>
-                    <Button
-                      onClick={() => handleStatusUpdate("authenticated")}
-                      className="bg-green-100 text-green-700 hover:bg-green-200 w-[48%]"
-                    >
-                      ✅ Grant
-                    </Button>
-                    <Button
-                      onClick={() => handleStatusUpdate("non-verified")}
-                      className="bg-red-100 text-red-700 hover:bg-red-200 w-[48%]"
-                    >
-                      ❌ Non-Grant
-                    </Button>
+                    </div>
                   </>
                 )}
+
+                <ActivityTimeline events={asset.events} />
               </div>
-            )}
+            ))}
           </div>
         </div>
       )}
     </div>
   );
 }
+
+/* -----------------------------------------------------
+   Image preview with prev / next, one per asset
+   ----------------------------------------------------- */
+function ImageCarousel({
+  images,
+  renderFooter,
+}: {
+  images: string[];
+  renderFooter?: (url: string) => React.ReactNode; // e.g. review controls for the shown image
+}) {
+  const [index, setIndex] = useState(0);
+  if (images.length === 0) {
+    return <p className="text-sm text-gray-500">No images uploaded.</p>;
+  }
+  const current = Math.min(index, images.length - 1);
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center justify-center relative">
+        <img
+          src={images[current]}
+          alt="doc"
+          className="rounded-lg max-h-80 w-full object-contain shadow-md"
+        />
+        {images.length > 1 && (
+          <>
+            <button
+              onClick={() => setIndex((current - 1 + images.length) % images.length)}
+              className="absolute left-2 bg-white rounded-full p-1 shadow hover:bg-gray-100"
+            >
+              <ChevronLeft className="w-6 h-6 text-gray-700" />
+            </button>
+            <button
+              onClick={() => setIndex((current + 1) % images.length)}
+              className="absolute right-2 bg-white rounded-full p-1 shadow hover:bg-gray-100"
+            >
+              <ChevronRight className="w-6 h-6 text-gray-700" />
+            </button>
+          </>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 text-center mt-1">
+        Image {current + 1} / {images.length}
+      </p>
+      {renderFooter?.(images[current])}
+    </div>
+  );
+}
+
+/* -----------------------------------------------------
+   "3 of 5 items accepted" above the Grant button
+   ----------------------------------------------------- */
+function ReviewProgress({ asset }: { asset: AssetDetails }) {
+  const summary = summarizeReview(asset.documents, asset.files, asset.images, asset.reviews);
+  if (summary.grantable) {
+    return <p className="mt-3 text-xs text-green-600">Every item accepted — ready to grant.</p>;
+  }
+  return (
+    <p className="mt-3 text-xs text-gray-500">
+      {summary.accepted} of {summary.total} items accepted
+      {summary.rejected > 0 && ` · ${summary.rejected} rejected`}
+      {summary.missing > 0 && ` · ${summary.missing} document(s) not uploaded`}
+      {" "}— Grant unlocks once every item is accepted.
+    </p>
+  );
+}
+
+/* -----------------------------------------------------
+   Inline viewer for an uploaded document, any version
+   ----------------------------------------------------- */
+function DocumentPreview({ versions }: { versions: DocumentFile[] }) {
+  const [selected, setSelected] = useState(versions[0]);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUrl(null);
+    db.documents
+      .fileUrl(selected)
+      .then((next) => !cancelled && setUrl(next))
+      .catch((err) => notify.error(err, { title: `Couldn't load ${selected.file_name}` }));
+    return () => {
+      cancelled = true;
+    };
+  }, [selected]);
+
+  return (
+    <div className="my-2 p-2 border rounded-lg bg-gray-50">
+      <div className="flex flex-wrap gap-2 text-xs mb-2">
+        {versions.map((v) => (
+          <button
+            key={v.id}
+            onClick={() => setSelected(v)}
+            className={`px-2 py-0.5 rounded-full border ${
+              v.id === selected.id ? "bg-green-600 text-white" : "bg-white text-gray-600"
+            }`}
+          >
+            v{v.version}
+            {v === versions[0] ? " (current)" : ""}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mb-2">
+        {selected.file_name} · {formatBytes(selected.size_bytes)} · uploaded{" "}
+        {new Date(selected.uploaded_at).toLocaleString()}
+        {url && (
+          <>
+            {" · "}
+            <a href={url} target="_blank" rel="noopener noreferrer" className="text-green-700 hover:underline">
+              Open
+            </a>
+          </>
+        )}
+      </p>
+      {!url ? (
+        <Loader2 className="animate-spin w-5 h-5 text-green-600" />
+      ) : isPdf(selected) ? (
+        <iframe src={url} title={selected.file_name} className="w-full h-96 rounded border bg-white" />
+      ) : (
+        <img src={url} alt={selected.file_name} className="rounded max-h-96 w-full object-contain" />
+      )}
+    </div>
+  );
+}
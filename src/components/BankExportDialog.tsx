@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "./ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { db } from "../lib/data";
+import {
+  BANK_EXPORT_COLUMNS,
+  BANK_EXPORT_FORMATS,
+  DEFAULT_BANK_EXPORT_COLUMNS,
+  bankExportTable,
+  downloadBankExport,
+  type BankExportColumn,
+  type BankExportFormat,
+} from "../lib/bankExport";
+import { notify } from "../lib/notify";
+import type { Bank } from "../types";
+
+/* -----------------------------------------------------
+   "Download Banks": pick columns, a date range for the
+   verification stats and CSV or XLSX
+   ----------------------------------------------------- */
+export function BankExportDialog({ banks }: { banks: Bank[] }) {
+  const [open, setOpen] = useState(false);
+  const [columns, setColumns] = useState<BankExportColumn[]>(DEFAULT_BANK_EXPORT_COLUMNS);
+  const [format, setFormat] = useState<BankExportFormat>("csv");
+  const [from, setFrom] = useState(""); // YYYY-MM-DD; empty = since the beginning
+  const [to, setTo] = useState(""); // empty = today
+  const [exporting, setExporting] = useState(false);
+
+  const toggle = (key: BankExportColumn, on: boolean) =>
+    setColumns((current) => (on ? [...current, key] : current.filter((c) => c !== key)));
+
+  const handleExport = async () => {
+    if (columns.length === 0) {
+      notify.warning("Pick at least one column to export");
+      return;
+    }
+    const start = from ? new Date(`${from}T00:00:00`) : null;
+    const end = to ? new Date(`${to}T23:59:59.999`) : new Date();
+    if (start && start > end) {
+      notify.warning("The start date is after the end date");
+      return;
+    }
+    setExporting(true);
+    try {
+      const [regions, branches, loanManagers, beneficiaries, facts] = await Promise.all([
+        db.regions.list(),
+        db.branches.list(),
+        db.users.listByRole("loanmanager"),
+        db.users.listByRole("user"),
+        db.analytics.assetFacts(start, end),
+      ]);
+      const table = bankExportTable(
+        { banks, regions, branches, loanManagers, beneficiaries, facts },
+        columns
+      );
+      const range = `${from || "start"}_to_${to || new Date().toISOString().split("T")[0]}`;
+      downloadBankExport(table, format, `banks_${range}`);
+      setOpen(false);
+    } catch (err) {
+      notify.error(err, { title: "Couldn't export the banks", retry: handleExport });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="bg-gradient-to-r from-blue-500 to-blue-700 text-white">
+          <Download className="w-4 h-4 mr-2" /> Download Banks
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="bg-white sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Download banks</DialogTitle>
+          <DialogDescription>
+            {banks.length} bank(s) matching the search. Verification stats count the assets issued
+            in the date range.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Columns</Label>
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              {BANK_EXPORT_COLUMNS.map((c) => (
+                <label key={c.key} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={columns.includes(c.key)}
+                    onCheckedChange={(checked) => toggle(c.key, checked === true)}
+                  />
+                  {c.label}
+                </label>
+              ))}
+            </div>
+            {columns.length === 0 && (
+              <p className="mt-2 text-xs text-red-600">Pick at least one column to export.</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>From</Label>
+              <Input
+                type="date"
+                value={from}
+                max={to || undefined}
+                onChange={(e) => setFrom(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label>To</Label>
+              <Input
+                type="date"
+                value={to}
+                min={from || undefined}
+                onChange={(e) => setTo(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(v) => setFormat(v as BankExportFormat)}>
+              <SelectTrigger className="mt-1 bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BANK_EXPORT_FORMATS.map((f) => (
+                  <SelectItem key={f.value} value={f.value}>
+                    {f.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleExport}
+            disabled={exporting || columns.length === 0 || banks.length === 0}
+            className="bg-gradient-to-r from-blue-500 to-blue-700 text-white"
+          >
+            {exporting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4 mr-2" />
+            )}
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,631 @@
+import { useEffect, useState } from "react";
+import {
+  AlertTriangle,
+  GitBranch,
+  Loader2,
+  MapPin,
+  Save,
+  Trash2,
+  UserMinus,
+  UserPlus,
+} from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { db } from "../lib/data";
+import { ASSET_STATUS_LABELS } from "../lib/assetLifecycle";
+import { bankImpact, bankTree, isActiveUser, successorCandidates } from "../lib/banks";
+import { notify } from "../lib/notify";
+import { formatPhone, invalidPhoneMessage, toE164 } from "../lib/phone";
+import type { Asset, Bank, Branch, Region, User } from "../types";
+
+// Select value for "hand the beneficiaries to nobody"
+const NO_SUCCESSOR = "__none__";
+
+interface BankManageDialogProps {
+  bank: Bank | null; // open while set
+  banks: Bank[];
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+/* -----------------------------------------------------
+   Super admin's bank page: rename the bank, organise its
+   branches into regions, add loan managers and move them
+   between branches, deactivate one by handing their
+   beneficiaries to a successor, and soft-delete the bank
+   after seeing who and what it affects
+   ----------------------------------------------------- */
+export function BankManageDialog({ bank, banks, onClose, onChanged }: BankManageDialogProps) {
+  const [name, setName] = useState("");
+  const [regions, setRegions] = useState<Region[]>([]); // this bank's
+  const [branches, setBranches] = useState<Branch[]>([]); // this bank's
+  const [loanManagers, setLoanManagers] = useState<User[]>([]); // every bank's
+  const [beneficiaries, setBeneficiaries] = useState<User[]>([]); // this bank's
+  const [assets, setAssets] = useState<Asset[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [newRegion, setNewRegion] = useState("");
+  const [newBranch, setNewBranch] = useState({ region_id: "", name: "", branch_manager: "" });
+  const [newManager, setNewManager] = useState({ name: "", phone: "", branch_id: "" });
+  // successorId is "" until one is picked
+  const [leaving, setLeaving] = useState<{ manager: User; successorId: string } | null>(null);
+  const [deleteSuccessor, setDeleteSuccessor] = useState<string | null>(null); // set while confirming
+
+  // ✅ Load the bank's regions, branches, people and assets
+  const load = async (target: Bank) => {
+    setLoading(true);
+    try {
+      const [regionRows, branchRows, managers, users] = await Promise.all([
+        db.regions.list(),
+        db.branches.list(),
+        db.users.listByRole("loanmanager"),
+        db.users.listByBank(target.id, "user"),
+      ]);
+      setRegions(regionRows.filter((r) => r.bank_id === target.id));
+      setBranches(branchRows.filter((b) => b.bank_id === target.id));
+      setLoanManagers(managers);
+      setBeneficiaries(users);
+      setAssets(await db.assets.listByUsers(users.map((u) => u.id)));
+    } catch (err) {
+      notify.error(err, { title: "Couldn't load the bank", retry: () => load(target) });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLeaving(null);
+    setDeleteSuccessor(null);
+    setNewRegion("");
+    setNewBranch({ region_id: "", name: "", branch_manager: "" });
+    setNewManager({ name: "", phone: "", branch_id: "" });
+    if (!bank) return;
+    setName(bank.name);
+    load(bank);
+  }, [bank?.id]);
+
+  if (!bank) return null;
+
+  const managers = loanManagers.filter((u) => u.bank_id === bank.id && isActiveUser(u));
+  const countOf = (manager: User) =>
+    beneficiaries.filter((u) => u.loan_manager_id === manager.id).length;
+  const impact = bankImpact(bank, [...loanManagers, ...beneficiaries], assets);
+  const nameOf = (id: string) => loanManagers.find((u) => u.id === id)?.name ?? "";
+  const tree = bankTree(bank.id, regions, branches);
+  const staffOf = (branch: Branch) => managers.filter((u) => u.branch_id === branch.id).length;
+
+  const refresh = async () => {
+    onChanged();
+    await load(bank);
+  };
+
+  // ✅ Rename the bank
+  const handleSave = async () => {
+    const patch = { name: name.trim() };
+    if (!patch.name) {
+      notify.warning("Please enter the bank's name");
+      return;
+    }
+    setBusy(true);
+    try {
+      await db.banks.update(bank.id, patch);
+      notify.success(`Saved ${patch.name}`);
+      onChanged();
+    } catch (err) {
+      notify.error(err, { title: "Couldn't save the bank", retry: handleSave });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // ✅ Add a region to this bank
+  const handleAddRegion = async () => {
+    if (!newRegion.trim()) {
+      notify.warning("Please enter the region's name");
+      return;
+    }
+    setBusy(true);
+    try {
+      const region = await db.regions.create({ bank_id: bank.id, name: newRegion.trim() });
+      notify.success(`Region added: ${region.name}`);
+      setNewRegion("");
+      await refresh();
+    } catch (err) {
+      notify.error(err, { title: "Couldn't add the region" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // ✅ Add a branch to one of its regions
+  const handleAddBranch = async () => {
+    if (!newBranch.region_id || !newBranch.name.trim() || !newBranch.branch_manager.trim()) {
+      notify.warning("Please fill all fields");
+      return;
+    }
+    setBusy(true);
+    try {
+      const branch = await db.branches.create({
+        bank_id: bank.id,
+        region_id: newBranch.region_id,
+        name: newBranch.name.trim(),
+        branch_manager: newBranch.branch_manager.trim(),
+      });
+      notify.success(`Branch added: ${branch.name}`);
+      setNewBranch({ region_id: newBranch.region_id, name: "", branch_manager: "" });
+      await refresh();
+    } catch (err) {
+      notify.error(err, { title: "Couldn't add the branch" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // ✅ Move a branch to another region of the bank
+  const handleMoveBranch = async (branch: Branch, regionId: string) => {
+    if (regionId === branch.region_id) return;
+    setBusy(true);
+    try {
+      await db.branches.update(branch.id, { region_id: regionId });
+      notify.success(`Moved ${branch.name}`);
+      await refresh();
+    } catch (err) {
+      notify.error(err, { title: `Couldn't move ${branch.name}` });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // ✅ Move a loan manager to another branch; their beneficiaries stay with them
+  const handleAssignBranch = async (manager: User, branchId: string) => {
+    if (branchId === manager.branch_id) return;
+    setBusy(true);
+    try {
+      await db.users.assignBranch(manager.id, branchId);
+      const branch = branches.find((b) => b.id === branchId);
+      notify.success(`${manager.name} now works at ${branch?.name ?? "another branch"}`);
+      await refresh();
+    } catch (err) {
+      notify.error(err, { title: `Couldn't move ${manager.name}` });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // ✅ Add another loan manager to one of this bank's branches
+  const handleAddManager = async () => {
+    if (!newManager.name || !newManager.phone || !newManager.branch_id) {
+      notify.warning("Please fill all fields");
+      return;
+    }
+    const phone = toE164(newManager.phone);
+    if (!phone) {
+      notify.warning(invalidPhoneMessage(newManager.phone));
+      return;
+    }
+    setBusy(true);
+    try {
+      await db.users.create({
+        name: newManager.name,
+        phone,
+        role: "loanmanager",
+        bank_id: bank.id,
+        branch_id: newManager.branch_id,
+        status: "authenticated",
+      });
+      notify.success(`Loan manager added: ${newManager.name}`);
+      setNewManager({ name: "", phone: "", branch_id: newManager.branch_id });
+      await refresh();
+    } catch (err) {
+      notify.error(err, { title: "Couldn't add the loan manager" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // ✅ Deactivate a loan manager; their beneficiaries go to the successor
+  const handleDeactivate = async () => {
+    if (!leaving) return;
+    const { manager, successorId } = leaving;
+    setBusy(true);
+    try {
+      const moved = await db.users.deactivate(manager.id, successorId || null);
+      const handover = `${moved} beneficiar${moved === 1 ? "y" : "ies"} moved to ${nameOf(successorId)}`;
+      notify.success(`${manager.name} deactivated${moved > 0 ? `, ${handover}` : ""}`);
+      setLeaving(null);
+      await refresh();
+    } catch (err) {
+      notify.error(err, { title: `Couldn't deactivate ${manager.name}` });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // ✅ Soft delete, after the impact preview
+  const handleDelete = async () => {
+    if (deleteSuccessor == null) return;
+    setBusy(true);
+    try {
+      await db.banks.remove(bank.id, deleteSuccessor === NO_SUCCESSOR ? null : deleteSuccessor);
+      notify.success(`Deleted ${bank.name}`);
+      onChanged();
+      onClose();
+    } catch (err) {
+      notify.error(err, { title: `Couldn't delete ${bank.name}` });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !busy && onClose()}>
+      <DialogContent className="bg-white sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{bank.name}</DialogTitle>
+          <DialogDescription>ID: {bank.id}</DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-gray-500">
+            <Loader2 className="animate-spin w-5 h-5 mr-2" /> Loading bank...
+          </div>
+        ) : deleteSuccessor != null ? (
+          /* Impact preview */
+          <div className="space-y-4">
+            <div className="text-sm text-red-700 bg-red-50 rounded-lg p-3 space-y-1">
+              <p className="font-semibold">
+                <AlertTriangle className="inline w-4 h-4 mr-1" />
+                Deleting {bank.name}
+              </p>
+              <p>
+                Deactivates {impact.loanManagers.length} loan manager(s)
+                {impact.loanManagers.length > 0 &&
+                  `: ${impact.loanManagers.map((u) => u.name).join(", ")}`}
+                . They can no longer sign in.
+              </p>
+              <p>
+                {impact.beneficiaries.length} beneficiar
+                {impact.beneficiaries.length === 1 ? "y" : "ies"} with {impact.openAssets} asset(s)
+                not yet authenticated.
+              </p>
+              {impact.assetsByStatus.length > 0 && (
+                <p className="text-red-600">
+                  {impact.assetsByStatus
+                    .map((s) => `${s.count} ${ASSET_STATUS_LABELS[s.status]}`)
+                    .join(" · ")}
+                </p>
+              )}
+              <p>
+                Its {branches.length} branch(es) in {regions.length} region(s) go with it. The bank
+                and its history stay in the audit log.
+              </p>
+            </div>
+
+            {impact.beneficiaries.length > 0 && (
+              <div>
+                <Label>Move the beneficiaries to</Label>
+                <Select value={deleteSuccessor} onValueChange={setDeleteSuccessor}>
+                  <SelectTrigger className="mt-1 bg-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SUCCESSOR}>
+                      Nobody (they keep their assets, unreviewed)
+                    </SelectItem>
+                    {successorCandidates(loanManagers, banks, bank.id).map(({ user, bank: b }) => (
+                      <SelectItem key={user.id} value={user.id}>
+                        {user.name} · {b.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDeleteSuccessor(null)} disabled={busy}>
+                Back
+              </Button>
+              <Button
+                onClick={handleDelete}
+                disabled={busy}
+                className="bg-red-600 text-white hover:bg-red-700"
+              >
+                {busy ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Trash2 className="w-4 h-4 mr-2" />
+                )}
+                Delete {bank.name}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Details */}
+            <div className="flex items-end gap-3">
+              <div className="flex-1">
+                <Label>Bank Name</Label>
+                <Input value={name} onChange={(e) => setName(e.target.value)} className="mt-1" />
+              </div>
+              <Button
+                onClick={handleSave}
+                disabled={busy}
+                className="bg-gradient-to-r from-blue-500 to-blue-700 text-white"
+              >
+                <Save className="w-4 h-4 mr-2" /> Save
+              </Button>
+            </div>
+
+            {/* Regions and branches */}
+            <div>
+              <h3 className="font-semibold mb-2">Regions & Branches</h3>
+              {tree.length === 0 ? (
+                <p className="text-sm text-gray-500">No regions yet</p>
+              ) : (
+                <div className="space-y-3">
+                  {tree.map(({ region, branches: regionBranches }) => (
+                    <div key={region.id} className="border rounded-lg">
+                      <p className="px-3 py-2 bg-gray-50 text-sm font-medium flex items-center">
+                        <MapPin className="w-4 h-4 mr-1 text-gray-500" />
+                        {region.name}
+                        <span className="ml-auto text-gray-500 font-normal">
+                          {regionBranches.length} branch{regionBranches.length === 1 ? "" : "es"}
+                        </span>
+                      </p>
+                      <ul className="divide-y">
+                        {regionBranches.map((branch) => (
+                          <li
+                            key={branch.id}
+                            className="p-3 flex items-center justify-between gap-2"
+                          >
+                            <div className="text-sm">
+                              <p className="font-medium">{branch.name}</p>
+                              <p className="text-gray-500">
+                                Manager: {branch.branch_manager} · {staffOf(branch)} loan manager(s)
+                              </p>
+                            </div>
+                            {regions.length > 1 && (
+                              <Select
+                                value={branch.region_id}
+                                onValueChange={(v) => handleMoveBranch(branch, v)}
+                                disabled={busy}
+                              >
+                                <SelectTrigger className="w-40 bg-white">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {tree.map(({ region: r }) => (
+                                    <SelectItem key={r.id} value={r.id}>
+                                      {r.name}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-2 mt-3">
+                <Input
+                  placeholder="Region name, e.g. West"
+                  value={newRegion}
+                  onChange={(e) => setNewRegion(e.target.value)}
+                />
+                <Button onClick={handleAddRegion} disabled={busy} variant="outline">
+                  <MapPin className="w-4 h-4 mr-2" /> Add Region
+                </Button>
+              </div>
+              {tree.length > 0 && (
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2 mt-2">
+                  <Select
+                    value={newBranch.region_id}
+                    onValueChange={(v) => setNewBranch({ ...newBranch, region_id: v })}
+                  >
+                    <SelectTrigger className="bg-white">
+                      <SelectValue placeholder="Region" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tree.map(({ region }) => (
+                        <SelectItem key={region.id} value={region.id}>
+                          {region.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder="Branch name"
+                    value={newBranch.name}
+                    onChange={(e) => setNewBranch({ ...newBranch, name: e.target.value })}
+                  />
+                  <Input
+                    placeholder="Branch manager"
+                    value={newBranch.branch_manager}
+                    onChange={(e) => setNewBranch({ ...newBranch, branch_manager: e.target.value })}
+                  />
+                  <Button onClick={handleAddBranch} disabled={busy} variant="outline">
+                    <GitBranch className="w-4 h-4 mr-2" /> Add Branch
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            {/* Loan managers */}
+            <div>
+              <h3 className="font-semibold mb-2">Loan Managers</h3>
+              {managers.length === 0 ? (
+                <p className="text-sm text-gray-500">Not Assigned</p>
+              ) : (
+                <ul className="divide-y border rounded-lg">
+                  {managers.map((manager) => (
+                    <li key={manager.id} className="p-3 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="text-sm">
+                          <p className="font-medium">{manager.name}</p>
+                          <p className="text-gray-500">
+                            {formatPhone(manager.phone)} · {countOf(manager)} beneficiar
+                            {countOf(manager) === 1 ? "y" : "ies"}
+                          </p>
+                        </div>
+                        {leaving?.manager.id !== manager.id && (
+                          <div className="flex items-center gap-2">
+                            <Select
+                              value={manager.branch_id ?? ""}
+                              onValueChange={(v) => handleAssignBranch(manager, v)}
+                              disabled={busy}
+                            >
+                              <SelectTrigger className="w-44 bg-white">
+                                <SelectValue placeholder="No branch" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {branches.map((b) => (
+                                  <SelectItem key={b.id} value={b.id}>
+                                    {b.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={busy}
+                              onClick={() => setLeaving({ manager, successorId: "" })}
+                              className="border-red-300 text-red-700 hover:bg-red-50"
+                            >
+                              <UserMinus className="w-4 h-4 mr-1" /> Deactivate
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+
+                      {leaving?.manager.id === manager.id && (
+                        <div className="bg-red-50 rounded-lg p-3 space-y-2 text-sm">
+                          {countOf(manager) > 0 ? (
+                            <>
+                              <Label>
+                                Hand {countOf(manager)} beneficiar
+                                {countOf(manager) === 1 ? "y" : "ies"} to
+                              </Label>
+                              <Select
+                                value={leaving.successorId}
+                                onValueChange={(v) => setLeaving({ manager, successorId: v })}
+                              >
+                                <SelectTrigger className="bg-white">
+                                  <SelectValue placeholder="Pick a loan manager" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {successorCandidates(loanManagers, banks)
+                                    .filter(({ user }) => user.id !== manager.id)
+                                    .map(({ user, bank: b }) => (
+                                      <SelectItem key={user.id} value={user.id}>
+                                        {user.name} · {b.name}
+                                      </SelectItem>
+                                    ))}
+                                </SelectContent>
+                              </Select>
+                              <p className="text-gray-600">
+                                A successor at another bank takes the beneficiaries into that bank.
+                              </p>
+                            </>
+                          ) : (
+                            <p>{manager.name} has no beneficiaries to hand over.</p>
+                          )}
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setLeaving(null)}
+                              disabled={busy}
+                            >
+                              Cancel
+                            </Button>
+                            <Button
+                              size="sm"
+                              onClick={handleDeactivate}
+                              disabled={busy || (countOf(manager) > 0 && !leaving.successorId)}
+                              className="bg-red-600 text-white hover:bg-red-700"
+                            >
+                              Deactivate {manager.name}
+                            </Button>
+                          </div>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2 mt-3">
+                <Select
+                  value={newManager.branch_id}
+                  onValueChange={(v) => setNewManager({ ...newManager, branch_id: v })}
+                >
+                  <SelectTrigger className="bg-white">
+                    <SelectValue placeholder="Branch" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {branches.map((b) => (
+                      <SelectItem key={b.id} value={b.id}>
+                        {b.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="Loan manager name"
+                  value={newManager.name}
+                  onChange={(e) => setNewManager({ ...newManager, name: e.target.value })}
+                />
+                <Input
+                  placeholder="+91 98765 43210"
+                  value={newManager.phone}
+                  onChange={(e) => setNewManager({ ...newManager, phone: e.target.value })}
+                />
+                <Button onClick={handleAddManager} disabled={busy} variant="outline">
+                  <UserPlus className="w-4 h-4 mr-2" /> Add
+                </Button>
+              </div>
+            </div>
+
+            {/* Danger zone */}
+            <div className="flex items-center justify-between border-t pt-4">
+              <p className="text-sm text-gray-500">
+                Deleting hides the bank and deactivates its loan managers. You'll see the
+                impact first.
+              </p>
+              <Button
+                variant="outline"
+                onClick={() => setDeleteSuccessor(NO_SUCCESSOR)}
+                disabled={busy}
+                className="border-red-300 text-red-700 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4 mr-2" /> Delete Bank
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,367 @@
+import { useEffect, useState } from "react";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Download,
+  FileSpreadsheet,
+  Loader2,
+  Upload,
+  X,
+} from "lucide-react";
+import * as XLSX from "xlsx";
+import { Button } from "./ui/button";
+import { Card } from "./ui/card";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { db } from "../lib/data";
+import {
+  IMPORT_ACCEPT,
+  IMPORT_FIELDS,
+  IMPORT_FIELD_LABELS,
+  downloadErrorReport,
+  guessColumnMapping,
+  missingColumns,
+  readSheet,
+  sheetPhones,
+  toImportRows,
+  validateSheet,
+  type ColumnMapping,
+  type ImportPreviewRow,
+  type ParsedSheet,
+} from "../lib/beneficiaryImport";
+import { notify } from "../lib/notify";
+import { formatPhone } from "../lib/phone";
+import type { Asset } from "../types";
+
+// Select value for "this sheet has no such column"
+const NO_COLUMN = "__none__";
+
+interface BeneficiaryImportProps {
+  bankId: string | null; // the loan manager's bank
+  assetsByUser: Record<string, Asset[]>;
+  onImported: () => void;
+}
+
+/* -----------------------------------------------------
+   Bulk upload from Excel, CSV or ODS: the sheet is
+   previewed and checked row by row first, and imported
+   only when every row is valid, all in one go. A list
+   exported from the Users tab comes back as updates.
+   ----------------------------------------------------- */
+export function BeneficiaryImport({ bankId, assetsByUser, onImported }: BeneficiaryImportProps) {
+  const [file, setFile] = useState<{ name: string; sheet: ParsedSheet } | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [rows, setRows] = useState<ImportPreviewRow[] | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [committing, setCommitting] = useState(false);
+
+  // ✅ Re-validate whenever the file or the column mapping changes
+  useEffect(() => {
+    setRows(null);
+    if (!file || !mapping || !bankId || missingColumns(mapping).length > 0) return;
+    let cancelled = false;
+    setChecking(true);
+    db.users
+      .findOwners(sheetPhones(file.sheet, mapping))
+      .then((owners) => {
+        if (!cancelled) setRows(validateSheet(file.sheet, mapping, owners, bankId, assetsByUser));
+      })
+      .catch((err) => notify.error(err, { title: "Couldn't check the phones in this file" }))
+      .finally(() => !cancelled && setChecking(false));
+    // A reset or a new mapping drops this check, so it isn't pending any more
+    return () => {
+      cancelled = true;
+      setChecking(false);
+    };
+  }, [file, mapping, bankId]);
+
+  // ✅ Download sample Excel
+  const handleDownloadSample = () => {
+    const sample = [
+      {
+        name: "Ramesh Kumar",
+        phone: "9876543210",
+        asset_name: "Tractor Loan",
+        documents: "Aadhaar Card, Land Proof, Income Certificate",
+      },
+    ];
+    const ws = XLSX.utils.json_to_sheet(sample);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "Sample");
+    XLSX.writeFile(wb, "sample_user_upload.xlsx");
+  };
+
+  // ✅ Read the file into the preview; nothing is written yet
+  const handleFile = async (picked: File) => {
+    if (!bankId) {
+      notify.warning("Your account isn't linked to a bank yet. Ask a super admin to assign one.");
+      return;
+    }
+    try {
+      const sheet = await readSheet(picked);
+      if (sheet.rows.length === 0) {
+        notify.warning(`${picked.name} has no rows to import`);
+        return;
+      }
+      setFile({ name: picked.name, sheet });
+      setMapping(guessColumnMapping(sheet.headers));
+    } catch (err) {
+      notify.error(err, { title: `Couldn't read ${picked.name}` });
+    }
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const picked = e.dataTransfer.files?.[0];
+    if (picked) await handleFile(picked);
+  };
+
+  const reset = () => {
+    setFile(null);
+    setMapping(null);
+    setRows(null);
+  };
+
+  const invalid = rows?.filter((r) => r.errors.length > 0) ?? [];
+  const changes = rows ? toImportRows(rows) : [];
+  const missing = mapping ? missingColumns(mapping) : [];
+
+  // ✅ All rows or none: the data layer writes them in one transaction
+  const handleCommit = async () => {
+    if (!file || !rows || invalid.length > 0 || changes.length === 0) return;
+    setCommitting(true);
+    try {
+      const result = await db.imports.beneficiaries({
+        file: file.name,
+        rows: changes,
+      });
+      notify.success(
+        `Imported ${result.assets_created} new asset(s), updated ${result.assets_updated}, ${
+          result.users_created
+        } new beneficiar${result.users_created === 1 ? "y" : "ies"}`
+      );
+      reset();
+      onImported();
+    } catch (err) {
+      notify.error(err, { title: "Import cancelled, nothing was added" });
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  return (
+    <Card className="p-6 bg-white rounded-2xl shadow">
+      <h2 className="text-lg font-semibold mb-4 text-green-700">📊 Bulk Upload (Excel, CSV, ODS)</h2>
+
+      {!file ? (
+        <>
+          {/* Drag & Drop */}
+          <div
+            onDrop={handleDrop}
+            onDragOver={(e) => e.preventDefault()}
+            className="border-2 border-dashed border-green-400 rounded-xl p-10 text-center text-gray-500 hover:bg-green-50 transition"
+          >
+            <Upload className="mx-auto w-8 h-8 text-green-600 mb-2" />
+            <p>Drag & drop a spreadsheet here</p>
+            <p className="text-xs text-gray-400 mt-1">
+              Columns: name, phone, asset_name, documents (phones without + are read as Indian).
+              Other headers can be mapped after upload; an exported list with asset_id updates
+              those assets.
+            </p>
+          </div>
+
+          {/* Upload via Button */}
+          <div className="flex flex-col items-center mt-4">
+            <input
+              type="file"
+              accept={IMPORT_ACCEPT}
+              id="excelFileInput"
+              style={{ display: "none" }}
+              onChange={(e) => {
+                const picked = e.target.files?.[0];
+                e.target.value = "";
+                if (picked) handleFile(picked);
+              }}
+            />
+            <Button
+              onClick={() => document.getElementById("excelFileInput")?.click()}
+              className="mt-2 bg-green-600 text-white hover:bg-green-700 flex items-center gap-2"
+            >
+              <FileSpreadsheet className="w-4 h-4" /> Upload Spreadsheet
+            </Button>
+          </div>
+
+          <div className="flex justify-end mt-4">
+            <Button
+              onClick={handleDownloadSample}
+              variant="outline"
+              className="flex items-center gap-2 border-green-500 text-green-600 hover:bg-green-50"
+            >
+              <Download className="w-4 h-4" />
+              Download Sample Excel
+            </Button>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="flex items-center justify-between mb-4">
+            <p className="text-sm text-gray-600">
+              <FileSpreadsheet className="inline w-4 h-4 mr-1 text-green-600" />
+              {file.name} · {file.sheet.rows.length} row(s)
+            </p>
+            <Button variant="ghost" size="sm" onClick={reset} disabled={committing}>
+              <X className="w-4 h-4 mr-1" /> Cancel
+            </Button>
+          </div>
+
+          {/* Column mapping */}
+          {mapping && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+              {IMPORT_FIELDS.map((field) => (
+                <div key={field}>
+                  <Label className="text-xs">
+                    {IMPORT_FIELD_LABELS[field]}
+                    {field !== "documents" && " *"}
+                  </Label>
+                  <Select
+                    value={mapping[field] ?? NO_COLUMN}
+                    onValueChange={(v) =>
+                      setMapping({ ...mapping, [field]: v === NO_COLUMN ? null : v })
+                    }
+                  >
+                    <SelectTrigger className="mt-1 bg-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLUMN}>Not in this file</SelectItem>
+                      {file.sheet.headers.map((h) => (
+                        <SelectItem key={h} value={h}>
+                          {h}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {missing.length > 0 ? (
+            <p className="text-sm text-yellow-700 bg-yellow-50 rounded-lg p-3">
+              Pick the column holding {missing.map((f) => IMPORT_FIELD_LABELS[f]).join(", ")}.
+            </p>
+          ) : checking || !rows ? (
+            <div className="flex items-center justify-center py-8 text-gray-500">
+              <Loader2 className="animate-spin w-5 h-5 mr-2" /> Checking rows...
+            </div>
+          ) : (
+            <>
+              {invalid.length > 0 ? (
+                <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-red-700 bg-red-50 rounded-lg p-3 mb-3">
+                  <span>
+                    <AlertTriangle className="inline w-4 h-4 mr-1" />
+                    {invalid.length} of {rows.length} row(s) need fixing. Nothing is imported until
+                    every row is valid.
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => downloadErrorReport(file.name, rows)}
+                    className="border-red-300 text-red-700 hover:bg-red-100"
+                  >
+                    <Download className="w-4 h-4 mr-1" /> Error report
+                  </Button>
+                </div>
+              ) : (
+                <p className="text-sm text-green-700 bg-green-50 rounded-lg p-3 mb-3">
+                  <CheckCircle2 className="inline w-4 h-4 mr-1" />
+                  All {rows.length} row(s) are valid.
+                </p>
+              )}
+
+              <div className="max-h-96 overflow-y-auto border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Phone</TableHead>
+                      <TableHead>Asset</TableHead>
+                      <TableHead>Documents</TableHead>
+                      <TableHead>Asset ID</TableHead>
+                      <TableHead>Check</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((r) => (
+                      <TableRow key={r.row} className={r.errors.length ? "bg-red-50" : undefined}>
+                        <TableCell>{r.row}</TableCell>
+                        <TableCell>{r.name}</TableCell>
+                        <TableCell>{r.phone ? formatPhone(r.phone) : r.rawPhone}</TableCell>
+                        <TableCell>{r.asset_name}</TableCell>
+                        <TableCell className="whitespace-normal">{r.documents.join(", ")}</TableCell>
+                        <TableCell className="font-mono text-xs">{r.asset_id?.slice(0, 8)}</TableCell>
+                        <TableCell className="whitespace-normal">
+                          {r.errors.length > 0 ? (
+                            <span className="text-red-600">{r.errors.join("; ")}</span>
+                          ) : (
+                            <ActionLabel row={r} />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="flex justify-end mt-4">
+                <Button
+                  onClick={handleCommit}
+                  disabled={committing || invalid.length > 0 || changes.length === 0}
+                  className="bg-green-600 text-white hover:bg-green-700"
+                >
+                  {committing ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Upload className="w-4 h-4 mr-2" />
+                  )}
+                  Import {changes.length} row(s)
+                </Button>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
+
+function ActionLabel({ row }: { row: ImportPreviewRow }) {
+  const owner = row.existing?.name;
+  // An imported row renames the beneficiary it belongs to
+  const renamed = owner != null && owner !== row.name ? `, renames ${owner} to ${row.name}` : "";
+  switch (row.action) {
+    case "create":
+      return <span className="text-green-600">New beneficiary</span>;
+    case "add":
+      return <span className="text-blue-600">Adds to {owner}'s assets{renamed}</span>;
+    case "update":
+      return <span className="text-blue-600">Updates {owner}'s asset{renamed}</span>;
+    case "none":
+      return <span className="text-gray-500">No asset, nothing to import</span>;
+  }
+}
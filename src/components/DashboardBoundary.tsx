@@ -0,0 +1,68 @@
+import { Component, type ErrorInfo, type ReactNode } from "react";
+import { Outlet, useLocation } from "react-router-dom";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "./ui/button";
+import { toUserMessage } from "../lib/errors";
+
+interface BoundaryProps {
+  name: string; // e.g. "Super Admin dashboard"
+  resetKey: string; // error is cleared when this changes
+  onLogout: () => void;
+  children: ReactNode;
+}
+
+interface BoundaryState {
+  error: unknown;
+}
+
+class ErrorBoundary extends Component<BoundaryProps, BoundaryState> {
+  state: BoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: unknown): BoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: unknown, info: ErrorInfo) {
+    console.error(`❌ ${this.props.name} crashed:`, error, info.componentStack);
+  }
+
+  componentDidUpdate(prev: BoundaryProps) {
+    if (this.state.error && prev.resetKey !== this.props.resetKey) {
+      this.setState({ error: null });
+    }
+  }
+
+  render() {
+    if (!this.state.error) return this.props.children;
+
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-blue-100 via-purple-100 to-pink-100">
+        <div role="alert" className="bg-white p-8 rounded-2xl shadow-lg w-full max-w-md text-center">
+          <AlertTriangle className="mx-auto w-10 h-10 text-amber-500 mb-3" />
+          <h2 className="text-xl font-semibold mb-2">The {this.props.name} ran into a problem</h2>
+          <p className="text-gray-500 mb-6">{toUserMessage(this.state.error)}</p>
+          <div className="flex justify-center gap-3">
+            <Button onClick={() => this.setState({ error: null })}>Try again</Button>
+            <Button variant="outline" onClick={this.props.onLogout}>
+              Log out
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+}
+
+/* -----------------------------------------------------
+   Layout route that keeps a crash inside one dashboard
+   from blanking the whole app; navigating elsewhere
+   clears it
+   ----------------------------------------------------- */
+export function DashboardBoundary({ name, onLogout }: { name: string; onLogout: () => void }) {
+  const location = useLocation();
+  return (
+    <ErrorBoundary name={name} resetKey={location.pathname} onLogout={onLogout}>
+      <Outlet />
+    </ErrorBoundary>
+  );
+}
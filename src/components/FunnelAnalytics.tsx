@@ -0,0 +1,283 @@
+import { useEffect, useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Loader2 } from "lucide-react";
+import { Card } from "./ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "./ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { db, type AssetFact } from "../lib/data";
+import {
+  FUNNEL_RANGES,
+  FUNNEL_STAGES,
+  agingBuckets,
+  formatHours,
+  formatRate,
+  summarizeBy,
+  summarizeFunnel,
+  type FunnelSummary,
+} from "../lib/funnel";
+import { managerRegions } from "../lib/banks";
+import { rangeStart } from "../lib/loginStats";
+import { notify } from "../lib/notify";
+import type { Bank, Branch, Region, User } from "../types";
+
+const funnelConfig: ChartConfig = { assets: { label: "Assets", color: "#3b82f6" } };
+const agingConfig: ChartConfig = { assets: { label: "Assets", color: "#f59e0b" } };
+
+/* -----------------------------------------------------
+   Verification funnel, SLA medians, AI rejection rate
+   and review-queue aging, per bank, region and loan
+   manager. Assets count towards the region of their
+   loan manager's branch.
+   ----------------------------------------------------- */
+export function FunnelAnalytics({ banks }: { banks: Bank[] }) {
+  const [range, setRange] = useState<string>(FUNNEL_RANGES[0].value);
+  const [bankId, setBankId] = useState("all");
+  const [regionId, setRegionId] = useState("all");
+  const [facts, setFacts] = useState<AssetFact[]>([]);
+  const [loanManagers, setLoanManagers] = useState<User[]>([]);
+  const [regions, setRegions] = useState<Region[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchFacts = async () => {
+    const days = FUNNEL_RANGES.find((r) => r.value === range)!.days;
+    setLoading(true);
+    try {
+      const [rows, managers, regionRows, branchRows] = await Promise.all([
+        db.analytics.assetFacts(days ? rangeStart(days) : null, new Date()),
+        db.users.listByRole("loanmanager"),
+        db.regions.list(),
+        db.branches.list(),
+      ]);
+      setFacts(rows);
+      setLoanManagers(managers);
+      setRegions(regionRows);
+      setBranches(branchRows);
+    } catch (err) {
+      notify.error(err, { title: "Couldn't load verification analytics", retry: fetchFacts });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchFacts();
+  }, [range]);
+
+  const regionOf = managerRegions(loanManagers, branches);
+  const factRegion = (f: AssetFact) =>
+    (f.loan_manager_id && regionOf.get(f.loan_manager_id)) || null;
+  const visible = facts.filter(
+    (f) =>
+      (bankId === "all" || f.bank_id === bankId) &&
+      (regionId === "all" || factRegion(f) === regionId)
+  );
+  const summary = summarizeFunnel(visible);
+  const funnelData = FUNNEL_STAGES.map((s) => ({ stage: s.label, assets: summary[s.key] }));
+  const bankName = (id: string | null) => {
+    const bank = banks.find((b) => b.id === id);
+    return bank ? bank.name : "No bank";
+  };
+  const regionName = (id: string | null) => {
+    const region = regions.find((r) => r.id === id);
+    return region ? `${bankName(region.bank_id)} · ${region.name}` : "No region";
+  };
+  const managerName = (id: string | null) =>
+    loanManagers.find((u) => u.id === id)?.name ?? "Unassigned";
+
+  return (
+    <div className="space-y-4">
+      <Card className="p-6 bg-white">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h3 className="font-semibold text-gray-900">Verification funnel</h3>
+            <p className="text-sm text-gray-500">Assets issued in the selected period</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Select value={range} onValueChange={setRange}>
+              <SelectTrigger className="w-40 bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FUNNEL_RANGES.map((r) => (
+                  <SelectItem key={r.value} value={r.value}>
+                    {r.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={bankId}
+              onValueChange={(v) => {
+                setBankId(v);
+                setRegionId("all");
+              }}
+            >
+              <SelectTrigger className="w-56 bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All banks</SelectItem>
+                {banks.map((b) => (
+                  <SelectItem key={b.id} value={b.id}>
+                    {b.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {bankId !== "all" && (
+              <Select value={regionId} onValueChange={setRegionId}>
+                <SelectTrigger className="w-44 bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All regions</SelectItem>
+                  {regions
+                    .filter((r) => r.bank_id === bankId)
+                    .map((r) => (
+                      <SelectItem key={r.id} value={r.id}>
+                        {r.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-[260px] text-gray-500">
+            <Loader2 className="animate-spin w-5 h-5 mr-2" /> Loading analytics...
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 my-4">
+              <Metric label="Median time to submit" value={formatHours(summary.medianSubmitHours)} />
+              <Metric label="Median time to decision" value={formatHours(summary.medianDecisionHours)} />
+              <Metric
+                label="AI rejection rate"
+                value={formatRate(summary.aiRejections, summary.aiChecks)}
+                hint={`${summary.aiRejections} of ${summary.aiChecks} images`}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <h4 className="text-sm font-semibold text-gray-700 mb-2">Funnel</h4>
+                <ChartContainer config={funnelConfig} className="aspect-auto h-[240px] w-full">
+                  <BarChart data={funnelData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="stage" tickLine={false} axisLine={false} interval={0} fontSize={11} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="assets" fill="var(--color-assets)" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+              <div>
+                <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                  Waiting for review ({summary.pending})
+                </h4>
+                <ChartContainer config={agingConfig} className="aspect-auto h-[240px] w-full">
+                  <BarChart data={agingBuckets(visible)}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} interval={0} fontSize={11} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="assets" fill="var(--color-assets)" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+            </div>
+          </>
+        )}
+      </Card>
+
+      {!loading && (
+        <>
+          <FunnelTable
+            title="By bank"
+            rows={summarizeBy(visible, (f) => f.bank_id)}
+            nameOf={bankName}
+          />
+          <FunnelTable
+            title="By region"
+            rows={summarizeBy(visible, factRegion)}
+            nameOf={regionName}
+          />
+          <FunnelTable
+            title="By loan manager"
+            rows={summarizeBy(visible, (f) => f.loan_manager_id)}
+            nameOf={managerName}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+function Metric({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded-xl border p-4">
+      <p className="text-sm text-gray-500">{label}</p>
+      <p className="text-2xl font-bold">{value}</p>
+      {hint && <p className="text-xs text-gray-400">{hint}</p>}
+    </div>
+  );
+}
+
+function FunnelTable({
+  title,
+  rows,
+  nameOf,
+}: {
+  title: string;
+  rows: Array<{ key: string | null } & FunnelSummary>;
+  nameOf: (key: string | null) => string;
+}) {
+  return (
+    <Card className="bg-white p-0 overflow-x-auto">
+      <h4 className="px-4 pt-4 font-semibold text-gray-900">{title}</h4>
+      {rows.length === 0 ? (
+        <p className="text-center text-gray-500 py-6">No assets in this period</p>
+      ) : (
+        <table className="w-full text-sm mt-2">
+          <thead className="bg-gray-50 text-left text-gray-600">
+            <tr>
+              <th className="px-4 py-2 font-medium">Name</th>
+              {FUNNEL_STAGES.map((s) => (
+                <th key={s.key} className="px-4 py-2 font-medium text-right">
+                  {s.label}
+                </th>
+              ))}
+              <th className="px-4 py-2 font-medium text-right">Median to submit</th>
+              <th className="px-4 py-2 font-medium text-right">Median to decision</th>
+              <th className="px-4 py-2 font-medium text-right">AI rejections</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key ?? "none"} className="border-t">
+                <td className="px-4 py-2">{nameOf(row.key)}</td>
+                {FUNNEL_STAGES.map((s) => (
+                  <td key={s.key} className="px-4 py-2 text-right">
+                    {row[s.key]}
+                  </td>
+                ))}
+                <td className="px-4 py-2 text-right">{formatHours(row.medianSubmitHours)}</td>
+                <td className="px-4 py-2 text-right">{formatHours(row.medianDecisionHours)}</td>
+                <td className="px-4 py-2 text-right">{formatRate(row.aiRejections, row.aiChecks)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,169 @@
+import { useEffect, useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Loader2 } from "lucide-react";
+import { Card } from "./ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "./ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { db, type LoginCount } from "../lib/data";
+import {
+  LOGIN_RANGES,
+  NO_BANK,
+  ROLE_LABELS,
+  buildLoginSeries,
+  rangeStart,
+  type LoginBreakdown,
+  type LoginGranularity,
+} from "../lib/loginStats";
+import { notify } from "../lib/notify";
+import type { Bank, UserRole } from "../types";
+
+// Series colours, in order of size
+const PALETTE = [
+  "#3b82f6",
+  "#8b5cf6",
+  "#10b981",
+  "#f59e0b",
+  "#ec4899",
+  "#06b6d4",
+  "#ef4444",
+  "#84cc16",
+];
+
+/* -----------------------------------------------------
+   Sign-ins over time from the audit log, with range,
+   bucket size and a per-role / per-bank breakdown
+   ----------------------------------------------------- */
+export function LoginChart({ banks }: { banks: Bank[] }) {
+  const [range, setRange] = useState<string>(LOGIN_RANGES[0].value);
+  const [granularity, setGranularity] = useState<LoginGranularity>("day");
+  const [breakdown, setBreakdown] = useState<LoginBreakdown>("total");
+  const [counts, setCounts] = useState<LoginCount[]>([]);
+  const [span, setSpan] = useState(() => ({ from: rangeStart(7), to: new Date() }));
+  const [loading, setLoading] = useState(true);
+
+  const fetchCounts = async () => {
+    const days = LOGIN_RANGES.find((r) => r.value === range)!.days;
+    const next = { from: rangeStart(days), to: new Date() };
+    setLoading(true);
+    try {
+      setCounts(await db.analytics.loginCounts(next.from, next.to));
+      setSpan(next);
+    } catch (err) {
+      notify.error(err, { title: "Couldn't load login analytics", retry: fetchCounts });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchCounts();
+  }, [range]);
+
+  const series = useMemo(
+    () => buildLoginSeries(counts, { ...span, granularity, breakdown }),
+    [counts, span, granularity, breakdown]
+  );
+
+  const labelOf = (key: string) => {
+    if (breakdown === "role") return ROLE_LABELS[key as UserRole];
+    if (breakdown === "bank") {
+      if (key === NO_BANK) return "No bank";
+      const bank = banks.find((b) => b.id === key);
+      return bank ? bank.name : "Unknown bank";
+    }
+    return "Logins";
+  };
+
+  const config: ChartConfig = Object.fromEntries(
+    series.keys.map((key, i) => [key, { label: labelOf(key), color: PALETTE[i % PALETTE.length] }])
+  );
+
+  return (
+    <Card className="p-6 bg-white">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="font-semibold text-gray-900">Logins</h3>
+          <p className="text-sm text-gray-500">{series.total} successful sign-ins</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Select value={range} onValueChange={setRange}>
+            <SelectTrigger className="w-40 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LOGIN_RANGES.map((r) => (
+                <SelectItem key={r.value} value={r.value}>
+                  {r.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={granularity} onValueChange={(v) => setGranularity(v as LoginGranularity)}>
+            <SelectTrigger className="w-32 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Per day</SelectItem>
+              <SelectItem value="week">Per week</SelectItem>
+              <SelectItem value="month">Per month</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={breakdown} onValueChange={(v) => setBreakdown(v as LoginBreakdown)}>
+            <SelectTrigger className="w-36 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="total">Total</SelectItem>
+              <SelectItem value="role">By role</SelectItem>
+              <SelectItem value="bank">By bank</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-[300px] text-gray-500">
+          <Loader2 className="animate-spin w-5 h-5 mr-2" /> Loading logins...
+        </div>
+      ) : (
+        <ChartContainer config={config} className="aspect-auto h-[300px] w-full">
+          <BarChart data={series.rows}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+            <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            {breakdown !== "total" && (
+              <ChartLegend
+                content={({ payload, verticalAlign }) => (
+                  <ChartLegendContent payload={payload} verticalAlign={verticalAlign} />
+                )}
+              />
+            )}
+            {series.keys.map((key, i) => (
+              <Bar
+                key={key}
+                dataKey={key}
+                stackId="logins"
+                fill={`var(--color-${key})`}
+                radius={i === series.keys.length - 1 ? [4, 4, 0, 0] : 0}
+              />
+            ))}
+          </BarChart>
+        </ChartContainer>
+      )}
+    </Card>
+  );
+}
@@ -1,46 +1,60 @@
 import { useState } from "react";
-import { supabase } from "../supabaseClient";
+import { ChallengeRequiredError, type ChallengeAnswer, type LoginChallenge } from "../lib/data";
+import {
+  COUNTRY_OPTIONS,
+  DEFAULT_COUNTRY,
+  countryName,
+  toE164,
+  type CountryCode,
+} from "../lib/phone";
+import { DEMO_MODE, DEMO_OTP, resetDemoData } from "../lib/demo";
+import { mockBeneficiaries, mockLoanManagers, mockSuperAdmins } from "../lib/mockData";
+
+// One account per role to try in demo mode
+const DEMO_ACCOUNTS = [
+  { label: "Super Admin", user: mockSuperAdmins[0] },
+  { label: "Loan Manager", user: mockLoanManagers[0] },
+  { label: "Beneficiary", user: mockBeneficiaries[0] },
+];
 
 interface LoginScreenProps {
-  onLogin: (phoneNumber: string) => void;
+  // Rejects with a user-facing message (invalid number, lockout, send failure)
+  // or ChallengeRequiredError
+  onLogin: (phoneNumber: string, challenge?: ChallengeAnswer) => Promise<void>;
 }
 
 export function LoginScreen({ onLogin }: LoginScreenProps) {
+  const [country, setCountry] = useState<CountryCode>(DEFAULT_COUNTRY);
   const [phone, setPhone] = useState("");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
+  const [challenge, setChallenge] = useState<LoginChallenge | null>(null);
+  const [answer, setAnswer] = useState("");
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
 
-    const cleanPhone = phone.replace(/\s+/g, "");
-    if (!cleanPhone.match(/^\+?\d{10,15}$/)) {
-      setError("Please enter a valid phone number.");
+    // A number typed with "+" keeps its own country code
+    const e164 = toE164(phone, country);
+    if (!e164) {
+      setError(`Please enter a valid ${countryName(country)} phone number.`);
       return;
     }
 
+    // ✅ The gateway answers the same for every number, so the OTP screen
+    //    follows whether or not it is registered
     try {
       setLoading(true);
-
-      // ✅ Check if user exists in Supabase users table
-      const { data, error: userError } = await supabase
-        .from("users")
-        .select("id")
-        .eq("phone", cleanPhone.startsWith("+") ? cleanPhone : `+91${cleanPhone}`)
-        .single();
-
-      if (userError || !data) {
-        setError("This phone number is not registered.");
-        setLoading(false);
-        return;
-      }
-
-      // ✅ Proceed to OTP screen if user exists
-      onLogin(cleanPhone.startsWith("+") ? cleanPhone : `+91${cleanPhone}`);
+      await onLogin(e164, challenge ? { token: challenge.token, answer } : undefined);
+      setChallenge(null);
     } catch (err) {
-      console.error("❌ Error checking user:", err);
-      setError("Something went wrong. Please try again.");
+      // ✅ Repeated failures: a question first (a wrong answer brings a new one)
+      if (err instanceof ChallengeRequiredError) {
+        setChallenge(err.challenge);
+        setAnswer("");
+      }
+      setError(err instanceof Error ? err.message : String(err));
     } finally {
       setLoading(false);
     }
@@ -68,17 +82,45 @@ export function LoginScreen({ onLogin }: LoginScreenProps) {
         <form onSubmit={handleSubmit} className="space-y-4">
           <div>
             <label className="block text-gray-600 mb-1">Phone Number</label>
-            <div className="relative">
-              <span className="absolute left-3 top-2.5 text-gray-400">📞</span>
+            <div className="flex space-x-2">
+              <select
+                aria-label="Country"
+                value={country}
+                onChange={(e) => setCountry(e.target.value as CountryCode)}
+                className="w-28 px-2 py-2 border rounded-lg bg-white focus:ring-2 focus:ring-indigo-400 focus:outline-none"
+              >
+                {COUNTRY_OPTIONS.map((c) => (
+                  <option key={c.code} value={c.code}>
+                    {c.code} +{c.callingCode} — {c.name}
+                  </option>
+                ))}
+              </select>
+              <div className="relative flex-1">
+                <span className="absolute left-3 top-2.5 text-gray-400">📞</span>
+                <input
+                  type="tel"
+                  autoComplete="tel"
+                  placeholder="Enter phone (e.g. 9876543210)"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  className="w-full pl-10 pr-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-400 focus:outline-none"
+                />
+              </div>
+            </div>
+          </div>
+
+          {challenge && (
+            <div>
+              <label className="block text-gray-600 mb-1">{challenge.question}</label>
               <input
-                type="tel"
-                placeholder="Enter phone (e.g. 9876543210)"
-                value={phone}
-                onChange={(e) => setPhone(e.target.value)}
-                className="w-full pl-10 pr-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-400 focus:outline-none"
+                inputMode="numeric"
+                autoComplete="off"
+                value={answer}
+                onChange={(e) => setAnswer(e.target.value)}
+                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-indigo-400 focus:outline-none"
               />
             </div>
-          </div>
+          )}
 
           {error && <p className="text-red-500 text-sm text-center">{error}</p>}
 
@@ -89,13 +131,42 @@ export function LoginScreen({ onLogin }: LoginScreenProps) {
               loading ? "opacity-70 cursor-not-allowed" : "hover:opacity-90"
             }`}
           >
-            {loading ? "Checking..." : "Send OTP"}
+            {loading ? "Sending..." : "Send OTP"}
           </button>
         </form>
 
         <p className="text-sm text-gray-500 text-center mt-4">
           We'll send you an OTP if your number is registered
         </p>
+
+        {/* Demo mode accounts */}
+        {DEMO_MODE && (
+          <div className="mt-6 border-t pt-4 text-sm">
+            <p className="font-semibold text-indigo-600 mb-2">
+              Demo mode — OTP is {DEMO_OTP}
+            </p>
+            <ul className="space-y-1">
+              {DEMO_ACCOUNTS.map(({ label, user }) => (
+                <li key={user.id}>
+                  <button
+                    type="button"
+                    onClick={() => setPhone(user.phone)}
+                    className="text-left text-gray-600 hover:text-indigo-600"
+                  >
+                    {label}: <span className="font-medium">{user.phone}</span> ({user.name})
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button
+              type="button"
+              onClick={resetDemoData}
+              className="mt-3 text-xs text-gray-400 hover:underline"
+            >
+              Reset demo data
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,14 +1,25 @@
 import { useState, useRef, useEffect } from "react";
+import { DEMO_MODE, DEMO_OTP } from "../lib/demo";
+import { formatCountdown, getOtpStatus, lockoutMessage, type OtpStatus } from "../lib/otpPolicy";
+import { readSmsOtp } from "../lib/webOtp";
+
+const OTP_LENGTH = 6;
 
 interface OTPScreenProps {
-  onVerify: (otp: string) => void;
+  // Both reject with a user-facing message shown under the inputs
+  onVerify: (otp: string) => Promise<void>;
   onBack: () => void;
   phone: string;
-  onResend?: () => void;
+  onResend?: () => Promise<void>;
 }
 
 export function OTPScreen({ onVerify, onBack, phone, onResend }: OTPScreenProps) {
-  const [otp, setOtp] = useState<string[]>(Array(6).fill(""));
+  const [otp, setOtp] = useState<string[]>(Array(OTP_LENGTH).fill(""));
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const [verifying, setVerifying] = useState(false);
+  const [resending, setResending] = useState(false);
+  const [status, setStatus] = useState<OtpStatus>(() => getOtpStatus(phone));
   const inputRefs = useRef<(HTMLInputElement | null)[]>([]);
 
   useEffect(() => {
@@ -16,32 +27,133 @@ export function OTPScreen({ onVerify, onBack, phone, onResend }: OTPScreenProps)
     setTimeout(() => inputRefs.current[0]?.focus(), 50);
   }, []);
 
+  // ✅ Android SMS autofill; the filled code is auto-submitted below
+  useEffect(() => {
+    const controller = new AbortController();
+    readSmsOtp(controller.signal).then((code) => {
+      if (code && /^\d+$/.test(code)) {
+        console.log("OTPScreen: code received via WebOTP");
+        fillFrom(0, code);
+      }
+    });
+    return () => controller.abort();
+  }, [phone]);
+
+  // ✅ Tick the resend / expiry / lockout countdowns
+  useEffect(() => {
+    setStatus(getOtpStatus(phone));
+    const timer = setInterval(() => setStatus(getOtpStatus(phone)), 1000);
+    return () => clearInterval(timer);
+  }, [phone]);
+
+  const locked = status.lockedForSeconds > 0;
+  const expired = status.expiresInSeconds === 0;
+  const outOfAttempts = status.attemptsLeft === 0;
+  const canVerify = !locked && !expired && !outOfAttempts && !verifying;
+  const canResend = !!onResend && !locked && status.resendInSeconds === 0 && !resending;
+
+  // Spreads digits over the boxes starting at index, then focuses the next empty one
+  const fillFrom = (index: number, digits: string) => {
+    const chars = digits.slice(0, OTP_LENGTH - index).split("");
+    setOtp((prev) => {
+      const next = [...prev];
+      chars.forEach((d, i) => (next[index + i] = d));
+      return next;
+    });
+    setError("");
+    const last = Math.min(index + chars.length, OTP_LENGTH - 1);
+    inputRefs.current[last]?.focus();
+  };
+
   const handleChange = (index: number, value: string) => {
-    if (!/^[0-9]?$/.test(value)) return; // only numbers 0-9 or empty
+    const digits = value.replace(/\D/g, "");
+    if (value && !digits) return; // only numbers 0-9 or empty
+
+    // Browser autofill (autocomplete="one-time-code") drops the whole code into one box
+    if (digits.length >= OTP_LENGTH) {
+      fillFrom(0, digits);
+      return;
+    }
+
+    // Typing over a filled box keeps the newest digit
     const newOtp = [...otp];
-    newOtp[index] = value;
+    newOtp[index] = digits.slice(-1);
     setOtp(newOtp);
+    setError("");
 
     // Move to next input automatically
-    if (value && index < 5) {
+    if (digits && index < OTP_LENGTH - 1) {
       inputRefs.current[index + 1]?.focus();
     }
   };
 
+  const handlePaste = (index: number, e: React.ClipboardEvent<HTMLInputElement>) => {
+    const digits = e.clipboardData.getData("text").replace(/\D/g, "");
+    e.preventDefault();
+    if (!digits) return;
+    // A full code always starts at the first box, wherever it was pasted
+    fillFrom(digits.length >= OTP_LENGTH ? 0 : index, digits);
+  };
+
   const handleKeyDown = (index: number, e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === "Backspace" && !otp[index] && index > 0) {
       inputRefs.current[index - 1]?.focus();
     }
   };
 
+  const clearInputs = () => {
+    setOtp(Array(OTP_LENGTH).fill(""));
+    setTimeout(() => inputRefs.current[0]?.focus(), 0);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const code = otp.join("");
-    if (code.length === 6) {
-      console.log("OTPScreen: submitting OTP:", code);
-      onVerify(code);
-    } else {
-      alert("Please enter the 6-digit OTP.");
+    if (code.length !== OTP_LENGTH) {
+      setError("Please enter the 6-digit OTP.");
+      return;
+    }
+    verify(code);
+  };
+
+  // ✅ Submit as soon as the last digit lands (typed, pasted or autofilled)
+  useEffect(() => {
+    if (otp.every(Boolean)) verify(otp.join(""));
+  }, [otp]);
+
+  const verify = async (code: string) => {
+    if (!canVerify) return;
+
+    console.log("OTPScreen: submitting OTP");
+    setVerifying(true);
+    setError("");
+    setNotice("");
+    try {
+      await onVerify(code);
+    } catch (err: any) {
+      setError(err.message);
+      clearInputs();
+    } finally {
+      setVerifying(false);
+      setStatus(getOtpStatus(phone));
+    }
+  };
+
+  const handleResend = async () => {
+    if (!onResend || !canResend) return;
+    console.log("OTPScreen: resend clicked for", phone);
+    setResending(true);
+    setError("");
+    setNotice("");
+    try {
+      await onResend();
+      setNotice("If the number is registered, a new code is on its way.");
+      clearInputs();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setResending(false);
+      setStatus(getOtpStatus(phone));
     }
   };
 
@@ -57,8 +169,13 @@ export function OTPScreen({ onVerify, onBack, phone, onResend }: OTPScreenProps)
 
         <h2 className="text-xl font-semibold text-center mb-2">Enter OTP</h2>
         <p className="text-center text-gray-500 mb-6">
-          We've sent a code to <span className="font-medium">{phone}</span>
+          If <span className="font-medium">{phone}</span> is registered, a code is on its way
         </p>
+        {DEMO_MODE && (
+          <p className="text-center text-xs text-indigo-600 -mt-4 mb-6">
+            Demo mode: use {DEMO_OTP}
+          </p>
+        )}
 
         {/* OTP Inputs */}
         <form onSubmit={handleSubmit} className="flex flex-col items-center space-y-6">
@@ -70,20 +187,48 @@ export function OTPScreen({ onVerify, onBack, phone, onResend }: OTPScreenProps)
                 inputMode="numeric"
                 pattern="[0-9]*"
                 type="text"
-                maxLength={1}
+                autoComplete={index === 0 ? "one-time-code" : "off"}
                 value={digit}
+                disabled={locked || verifying}
+                aria-invalid={!!error}
                 onChange={(e) => handleChange(index, e.target.value)}
                 onKeyDown={(e) => handleKeyDown(index, e)}
-                className="w-12 h-12 text-center border rounded-lg text-lg focus:ring-2 focus:ring-indigo-400 focus:outline-none"
+                onPaste={(e) => handlePaste(index, e)}
+                className="w-12 h-12 text-center border rounded-lg text-lg focus:ring-2 focus:ring-indigo-400 focus:outline-none disabled:bg-gray-100"
               />
             ))}
           </div>
 
+          {/* ✅ Expiry / lockout state */}
+          <p className="text-sm text-center">
+            {locked ? (
+              <span className="text-red-600">{lockoutMessage(status.lockedForSeconds)}</span>
+            ) : outOfAttempts ? (
+              <span className="text-red-600">Too many wrong codes. Request a new one.</span>
+            ) : expired ? (
+              <span className="text-red-600">This code has expired. Request a new one.</span>
+            ) : (
+              <span className="text-gray-500">
+                Code expires in {formatCountdown(status.expiresInSeconds)}
+              </span>
+            )}
+          </p>
+
+          {error && (
+            <p role="alert" className="text-red-600 text-sm text-center -mt-3">
+              {error}
+            </p>
+          )}
+          {notice && !error && (
+            <p className="text-green-600 text-sm text-center -mt-3">{notice}</p>
+          )}
+
           <button
             type="submit"
-            className="w-full bg-gradient-to-r from-indigo-500 to-purple-500 text-white py-2 rounded-lg font-semibold hover:opacity-90 transition"
+            disabled={!canVerify}
+            className="w-full bg-gradient-to-r from-indigo-500 to-purple-500 text-white py-2 rounded-lg font-semibold hover:opacity-90 transition disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            Verify OTP
+            {verifying ? "Verifying..." : "Verify OTP"}
           </button>
         </form>
 
@@ -92,17 +237,15 @@ export function OTPScreen({ onVerify, onBack, phone, onResend }: OTPScreenProps)
           Didn’t get the code?{" "}
           <button
             type="button"
-            onClick={() => {
-              if (onResend) {
-                console.log("OTPScreen: resend clicked for", phone);
-                onResend();
-              } else {
-                console.warn("OTPScreen: onResend not provided");
-              }
-            }}
-            className="text-indigo-600 hover:underline"
+            onClick={handleResend}
+            disabled={!canResend}
+            className="text-indigo-600 hover:underline disabled:text-gray-400 disabled:no-underline disabled:cursor-not-allowed"
           >
-            Resend OTP
+            {resending
+              ? "Sending..."
+              : status.resendInSeconds > 0 && !locked
+                ? `Resend OTP in ${formatCountdown(status.resendInSeconds)}`
+                : "Resend OTP"}
           </button>
         </p>
       </div>
@@ -0,0 +1,29 @@
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import type { UserRole } from "../types";
+import { ROUTES, homePathFor, type RedirectState } from "../lib/routes";
+
+interface RequireRoleProps {
+  role: UserRole;
+  userRole: UserRole | null;
+}
+
+/* -----------------------------------------------------
+   Route guard for the dashboards
+   - Not logged in → /login (remembers where we were going)
+   - Wrong role    → the caller's own dashboard
+   ----------------------------------------------------- */
+export function RequireRole({ role, userRole }: RequireRoleProps) {
+  const location = useLocation();
+
+  if (!userRole) {
+    const state: RedirectState = { from: location.pathname };
+    return <Navigate to={ROUTES.login} replace state={state} />;
+  }
+
+  if (userRole !== role) {
+    console.warn(`⚠️ ${userRole} tried to open ${location.pathname}, redirecting`);
+    return <Navigate to={homePathFor(userRole)} replace />;
+  }
+
+  return <Outlet />;
+}
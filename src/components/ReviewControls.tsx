@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Check, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { REJECTION_REASON_LABELS, describeRejection } from "../lib/reviews";
+import { REJECTION_REASONS, type ItemReview, type RejectionReason } from "../types";
+
+interface ReviewControlsProps {
+  review: ItemReview | null; // current decision on the item, if any
+  disabled?: boolean;
+  onAccept: () => void;
+  onReject: (reason: RejectionReason, note: string) => void;
+}
+
+/* -----------------------------------------------------
+   Accept / reject (with reason + note) for one document
+   version or image, used in the loan manager popup
+   ----------------------------------------------------- */
+export function ReviewControls({ review, disabled, onAccept, onReject }: ReviewControlsProps) {
+  const [rejecting, setRejecting] = useState(false);
+  const [reason, setReason] = useState<RejectionReason | "">("");
+  const [note, setNote] = useState("");
+
+  const confirmReject = () => {
+    if (!reason) return;
+    onReject(reason, note.trim());
+    setRejecting(false);
+    setReason("");
+    setNote("");
+  };
+
+  return (
+    <div className="mt-1 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        {!review ? (
+          <span className="text-gray-500">Not reviewed</span>
+        ) : review.decision === "accepted" ? (
+          <span className="text-green-600 font-semibold">Accepted</span>
+        ) : (
+          <span className="text-red-600">
+            <strong>Rejected:</strong> {describeRejection(review)}
+          </span>
+        )}
+
+        {!rejecting && (
+          <>
+            {review?.decision !== "accepted" && (
+              <button
+                onClick={onAccept}
+                disabled={disabled}
+                className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-green-100 text-green-700 hover:bg-green-200 disabled:opacity-50"
+              >
+                <Check className="w-3 h-3" /> Accept
+              </button>
+            )}
+            {review?.decision !== "rejected" && (
+              <button
+                onClick={() => setRejecting(true)}
+                disabled={disabled}
+                className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-red-100 text-red-700 hover:bg-red-200 disabled:opacity-50"
+              >
+                <X className="w-3 h-3" /> Reject
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {rejecting && (
+        <div className="mt-2 p-2 border border-red-200 rounded-lg bg-red-50 space-y-2">
+          <select
+            aria-label="Rejection reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value as RejectionReason)}
+            className="w-full border rounded px-2 py-1 bg-white"
+          >
+            <option value="" disabled>
+              Choose a reason…
+            </option>
+            {REJECTION_REASONS.map((r) => (
+              <option key={r} value={r}>
+                {REJECTION_REASON_LABELS[r]}
+              </option>
+            ))}
+          </select>
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note for the beneficiary (optional)"
+            className="h-8 text-xs bg-white"
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={confirmReject}
+              disabled={!reason || disabled}
+              className="bg-red-600 text-white hover:bg-red-700"
+            >
+              Reject and request re-upload
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setRejecting(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,11 @@
 import { useState, useEffect } from "react";
+import { Navigate, useNavigate, useParams } from "react-router-dom";
 import { motion } from "motion/react";
 import {
   Shield,
   Search,
   Users,
   LogOut,
-  Download,
   UserPlus,
 } from "lucide-react";
 import { Button } from "./ui/button";
@@ -19,45 +19,53 @@ import {
   SelectTrigger,
   SelectValue,
 } from "./ui/select";
-import {
-  AlertDialog,
-  AlertDialogContent,
-  AlertDialogHeader,
-  AlertDialogTitle,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogCancel,
-} from "./ui/alert-dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
-import {
-  BarChart,
-  Bar,
-  XAxis,
-  YAxis,
-  CartesianGrid,
-  Tooltip,
-  ResponsiveContainer,
-} from "recharts";
-import { supabase } from "../supabaseClient";
-
-interface Bank {
-  id: string;
-  name: string;
-  branch: string;
-  branch_manager: string;
-  loan_manager?: { name: string; phone: string } | null;
+import { AuditLog } from "./AuditLog";
+import { BankExportDialog } from "./BankExportDialog";
+import { BankManageDialog } from "./BankManageDialog";
+import { FunnelAnalytics } from "./FunnelAnalytics";
+import { LoginChart } from "./LoginChart";
+import { bankTree, isActiveBank, isActiveUser } from "../lib/banks";
+import { db } from "../lib/data";
+import { notify } from "../lib/notify";
+import { invalidPhoneMessage, toE164 } from "../lib/phone";
+import { ROUTES } from "../lib/routes";
+import type { Bank as BankRow } from "../types";
+
+const TABS = ["banks", "add", "analytics", "activity"] as const;
+type Tab = (typeof TABS)[number];
+
+const TAB_PATHS: Record<Tab, string> = {
+  banks: ROUTES.adminBanks,
+  add: ROUTES.adminAdd,
+  analytics: ROUTES.adminAnalytics,
+  activity: ROUTES.adminActivity,
+};
+
+// Bank row + its regions, branch count and active loan managers, as shown on the cards
+interface Bank extends BankRow {
+  regions: string[];
+  branch_count: number;
+  loan_managers: string[];
 }
 
 export function SuperAdminDashboard({ onLogout }: { onLogout: () => void }) {
+  const navigate = useNavigate();
+  const { tab, bankId } = useParams<{ tab?: string; bankId?: string }>();
   const [searchQuery, setSearchQuery] = useState("");
   const [banks, setBanks] = useState<Bank[]>([]);
   const [loading, setLoading] = useState(true);
   const [addType, setAddType] = useState<"bank" | "superadmin">("bank");
-  const [selectedBank, setSelectedBank] = useState<Bank | null>(null);
-  const [activeTab, setActiveTab] = useState("banks"); // ✅ track active tab
+
+  // ✅ Active tab + open bank come from the URL (/admin/:tab, /admin/banks/:bankId)
+  const activeTab: Tab | null = bankId ? "banks" : TABS.find((t) => t === tab) ?? null;
+  const setActiveTab = (value: string) => navigate(TAB_PATHS[value as Tab]);
+  const activeBanks = banks.filter(isActiveBank);
+  const selectedBank = bankId ? activeBanks.find((b) => b.id === bankId) ?? null : null;
 
   const [bankForm, setBankForm] = useState({
     name: "",
+    region: "",
     branch: "",
     branch_manager: "",
     loanManagerName: "",
@@ -70,62 +78,49 @@ export function SuperAdminDashboard({ onLogout }: { onLogout: () => void }) {
   const [totalLoanManagers, setTotalLoanManagers] = useState(0);
   const [totalSuperAdmins, setTotalSuperAdmins] = useState(0);
 
-  const weeklyData = [
-    { day: "Mon", logins: 45 },
-    { day: "Tue", logins: 52 },
-    { day: "Wed", logins: 38 },
-    { day: "Thu", logins: 65 },
-    { day: "Fri", logins: 58 },
-    { day: "Sat", logins: 30 },
-    { day: "Sun", logins: 25 },
-  ];
-
-  const filteredBanks = banks.filter((bank) =>
+  const filteredBanks = activeBanks.filter((bank) =>
     bank.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
   // ✅ Fetch banks from Supabase
   const fetchBanks = async () => {
     setLoading(true);
-    const { data, error } = await supabase
-      .from("banks")
-      .select(`id, name, branch, branch_manager, users(name, phone, role)`);
-
-    if (!error) {
-      const formattedBanks = (data || []).map((bank: any) => {
-        const lm = bank.users?.find((u: any) => u.role === "loanmanager");
+    try {
+      const [bankRows, regions, branches, loanManagers] = await Promise.all([
+        db.banks.list(),
+        db.regions.list(),
+        db.branches.list(),
+        db.users.listByRole("loanmanager"),
+      ]);
+
+      const formattedBanks = bankRows.map((bank) => {
+        const tree = bankTree(bank.id, regions, branches);
         return {
-          id: bank.id,
-          name: bank.name,
-          branch: bank.branch,
-          branch_manager: bank.branch_manager,
-          loan_manager: lm ? { name: lm.name, phone: lm.phone } : null,
+          ...bank,
+          regions: tree.map((t) => t.region.name),
+          branch_count: tree.reduce((n, t) => n + t.branches.length, 0),
+          loan_managers: loanManagers
+            .filter((u) => u.bank_id === bank.id && isActiveUser(u))
+            .map((u) => u.name),
         };
       });
       setBanks(formattedBanks);
+    } catch (err) {
+      notify.error(err, { title: "Couldn't load banks", retry: fetchBanks });
+    } finally {
+      setLoading(false);
     }
-    setLoading(false);
   };
 
   // ✅ Fetch overall counts
   const fetchCounts = async () => {
-    const { count: usersCount } = await supabase
-      .from("users")
-      .select("*", { count: "exact", head: true })
-      .eq("role", "user");
-    setTotalUsers(usersCount || 0);
-
-    const { count: lmCount } = await supabase
-      .from("users")
-      .select("*", { count: "exact", head: true })
-      .eq("role", "loanmanager");
-    setTotalLoanManagers(lmCount || 0);
-
-    const { count: saCount } = await supabase
-      .from("users")
-      .select("*", { count: "exact", head: true })
-      .eq("role", "superadmin");
-    setTotalSuperAdmins(saCount || 0);
+    try {
+      setTotalUsers(await db.users.countByRole("user"));
+      setTotalLoanManagers(await db.users.countByRole("loanmanager"));
+      setTotalSuperAdmins(await db.users.countByRole("superadmin"));
+    } catch (err) {
+      notify.error(err, { title: "Couldn't load user counts", retry: fetchCounts });
+    }
   };
 
   useEffect(() => {
@@ -137,38 +132,55 @@ export function SuperAdminDashboard({ onLogout }: { onLogout: () => void }) {
   const handleAddBank = async () => {
     if (
       !bankForm.name ||
+      !bankForm.region ||
       !bankForm.branch ||
       !bankForm.branch_manager ||
       !bankForm.loanManagerName ||
       !bankForm.loanManagerPhone
     ) {
-      alert("⚠️ Please fill all fields before adding a bank");
+      notify.warning("Please fill all fields before adding a bank");
+      return;
+    }
+    // Checked before the bank row exists so a typo can't leave a bank without its manager
+    const loanManagerPhone = toE164(bankForm.loanManagerPhone);
+    if (!loanManagerPhone) {
+      notify.warning(invalidPhoneMessage(bankForm.loanManagerPhone));
       return;
     }
 
-    const { data: bankData, error: bankError } = await supabase
-      .from("banks")
-      .insert([
-        {
-          name: bankForm.name,
-          branch: bankForm.branch,
-          branch_manager: bankForm.branch_manager,
-        },
-      ])
-      .select("id")
-      .single();
-
-    if (bankError) return alert("❌ " + bankError.message);
-
-    await supabase.from("users").insert([
-      {
+    // One row per bank: further branches are added from the bank's card
+    const existing = activeBanks.find(
+      (b) => b.name.trim().toLowerCase() === bankForm.name.trim().toLowerCase()
+    );
+    if (existing) {
+      notify.warning(`${existing.name} already exists. Add the branch from its card.`);
+      return;
+    }
+
+    try {
+      const taken = await db.users.findByPhone(loanManagerPhone);
+      if (taken) return notify.warning(`${loanManagerPhone} is already registered to ${taken.name}`);
+
+      const bank = await db.banks.create({ name: bankForm.name });
+      const region = await db.regions.create({ bank_id: bank.id, name: bankForm.region });
+      const branch = await db.branches.create({
+        bank_id: bank.id,
+        region_id: region.id,
+        name: bankForm.branch,
+        branch_manager: bankForm.branch_manager,
+      });
+
+      await db.users.create({
         name: bankForm.loanManagerName,
-        phone: bankForm.loanManagerPhone,
+        phone: loanManagerPhone,
         role: "loanmanager",
-        bank_id: bankData.id,
+        bank_id: bank.id,
+        branch_id: branch.id,
         status: "authenticated",
-      },
-    ]);
+      });
+    } catch (err) {
+      return notify.error(err, { title: "Couldn't add the bank" });
+    }
 
     // ✅ Refresh Banks Immediately
     await fetchBanks();
@@ -176,11 +188,12 @@ export function SuperAdminDashboard({ onLogout }: { onLogout: () => void }) {
     // ✅ Auto-switch back to Banks tab
     setActiveTab("banks");
 
-    alert(`✅ Bank Added: ${bankForm.name}`);
+    notify.success(`Bank added: ${bankForm.name}`);
 
     // Reset form
     setBankForm({
       name: "",
+      region: "",
       branch: "",
       branch_manager: "",
       loanManagerName: "",
@@ -191,49 +204,31 @@ export function SuperAdminDashboard({ onLogout }: { onLogout: () => void }) {
   // ✅ Add Super Admin
   const handleAddSuperAdmin = async () => {
     if (!superAdminForm.name || !superAdminForm.phone) {
-      alert("⚠️ Please fill all fields");
+      notify.warning("Please fill all fields");
+      return;
+    }
+    const phone = toE164(superAdminForm.phone);
+    if (!phone) {
+      notify.warning(invalidPhoneMessage(superAdminForm.phone));
       return;
     }
 
-    const { error } = await supabase.from("users").insert([
-      {
+    try {
+      await db.users.create({
         name: superAdminForm.name,
-        phone: superAdminForm.phone,
+        phone,
         role: "superadmin",
         status: "authenticated",
-      },
-    ]);
-
-    if (error) return alert("❌ " + error.message);
+      });
+    } catch (err) {
+      return notify.error(err, { title: "Couldn't add the super admin", retry: handleAddSuperAdmin });
+    }
 
-    alert(`✅ Super Admin Added: ${superAdminForm.name}`);
+    notify.success(`Super Admin added: ${superAdminForm.name}`);
     setSuperAdminForm({ name: "", phone: "" });
   };
 
-  // ✅ Download Banks as CSV
-  const handleDownloadBanks = () => {
-    const csv = [
-      ["ID", "Name", "Branch", "Branch Manager", "Loan Manager Name", "Loan Manager Phone"],
-      ...banks.map((b) => [
-        b.id,
-        b.name,
-        b.branch,
-        b.branch_manager,
-        b.loan_manager?.name || "N/A",
-        b.loan_manager?.phone || "N/A",
-      ]),
-    ]
-      .map((row) => row.join(","))
-      .join("\n");
-
-    const blob = new Blob([csv], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "banks.csv";
-    a.click();
-    URL.revokeObjectURL(url);
-  };
+  if (!activeTab) return <Navigate to={ROUTES.adminBanks} replace />;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-blue-100 to-blue-200">
@@ -262,10 +257,11 @@ export function SuperAdminDashboard({ onLogout }: { onLogout: () => void }) {
       {/* Content */}
       <div className="max-w-7xl mx-auto p-6 space-y-6">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-3 mb-6">
+          <TabsList className="grid w-full grid-cols-4 mb-6">
             <TabsTrigger value="banks">Banks</TabsTrigger>
             <TabsTrigger value="add">Add New</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
+            <TabsTrigger value="activity">Activity</TabsTrigger>
           </TabsList>
 
           {/* Banks Tab */}
@@ -280,12 +276,7 @@ export function SuperAdminDashboard({ onLogout }: { onLogout: () => void }) {
                   className="pl-12 h-12 rounded-xl bg-white shadow-sm"
                 />
               </div>
-              <Button
-                onClick={handleDownloadBanks}
-                className="bg-gradient-to-r from-blue-500 to-blue-700 text-white"
-              >
-                <Download className="w-4 h-4 mr-2" /> Download Banks
-              </Button>
+              <BankExportDialog banks={filteredBanks} />
             </div>
 
             {loading ? (
@@ -298,14 +289,17 @@ export function SuperAdminDashboard({ onLogout }: { onLogout: () => void }) {
                   <Card
                     key={bank.id}
                     className="p-6 bg-white rounded-2xl shadow hover:shadow-lg transition cursor-pointer"
-                    onClick={() => setSelectedBank(bank)}
+                    onClick={() => navigate(ROUTES.adminBank(bank.id))}
                   >
                     <h3 className="font-semibold">{bank.name}</h3>
                     <p className="text-sm text-gray-600">
-                      Branch: {bank.branch}
+                      Regions: {bank.regions.join(", ") || "None"}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      Branches: {bank.branch_count}
                     </p>
                     <p className="text-sm text-gray-500">
-                      Manager: {bank.branch_manager}
+                      Loan Managers: {bank.loan_managers.join(", ") || "Not Assigned"}
                     </p>
                   </Card>
                 ))}
@@ -339,6 +333,12 @@ export function SuperAdminDashboard({ onLogout }: { onLogout: () => void }) {
                   value={bankForm.name}
                   onChange={(e) => setBankForm({ ...bankForm, name: e.target.value })}
                 />
+                <Label>Region</Label>
+                <Input
+                  placeholder="e.g., West"
+                  value={bankForm.region}
+                  onChange={(e) => setBankForm({ ...bankForm, region: e.target.value })}
+                />
                 <Label>Branch</Label>
                 <Input
                   placeholder="e.g., Mumbai Central"
@@ -409,7 +409,7 @@ export function SuperAdminDashboard({ onLogout }: { onLogout: () => void }) {
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <Card className="p-6 bg-white border rounded-2xl shadow-sm">
                 <Users className="w-8 h-8 text-blue-500 mb-2" />
-                <div className="text-3xl font-bold">{banks.length}</div>
+                <div className="text-3xl font-bold">{activeBanks.length}</div>
                 <p className="text-gray-500">Total Banks</p>
               </Card>
               <Card className="p-6 bg-white border rounded-2xl shadow-sm">
@@ -429,60 +429,27 @@ export function SuperAdminDashboard({ onLogout }: { onLogout: () => void }) {
               </Card>
             </div>
 
-            <Card className="p-6 bg-white">
-              <h3 className="mb-4 font-semibold text-gray-900">Weekly Logins</h3>
-              <ResponsiveContainer width="100%" height={300}>
-                <BarChart data={weeklyData}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
-                  <XAxis dataKey="day" />
-                  <YAxis />
-                  <Tooltip />
-                  <Bar dataKey="logins" fill="#3b82f6" radius={[8, 8, 0, 0]} />
-                </BarChart>
-              </ResponsiveContainer>
-            </Card>
+            <LoginChart banks={banks} />
+            <FunnelAnalytics banks={banks} />
+          </TabsContent>
+
+          {/* Audit log */}
+          <TabsContent value="activity">
+            <AuditLog />
           </TabsContent>
         </Tabs>
       </div>
 
-      {/* ✅ Bank Details Popup */}
-      <AlertDialog
-        open={!!selectedBank}
-        onOpenChange={(open) => !open && setSelectedBank(null)}
-      >
-        <AlertDialogContent className="bg-white rounded-2xl shadow-xl max-w-lg">
-          <AlertDialogHeader>
-            <AlertDialogTitle className="text-lg font-bold">
-              Bank Details
-            </AlertDialogTitle>
-            <AlertDialogDescription asChild>
-              <div className="space-y-3 pt-4">
-                <p>
-                  <b>ID:</b> {selectedBank?.id}
-                </p>
-                <p>
-                  <b>Name:</b> {selectedBank?.name}
-                </p>
-                <p>
-                  <b>Branch:</b> {selectedBank?.branch}
-                </p>
-                <p>
-                  <b>Manager:</b> {selectedBank?.branch_manager}
-                </p>
-                <p>
-                  <b>Loan Manager:</b>{" "}
-                  {selectedBank?.loan_manager
-                    ? `${selectedBank.loan_manager.name} (${selectedBank.loan_manager.phone})`
-                    : "Not Assigned"}
-                </p>
-              </div>
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Close</AlertDialogCancel>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      {/* ✅ Bank management popup */}
+      <BankManageDialog
+        bank={selectedBank}
+        banks={banks}
+        onClose={() => navigate(ROUTES.adminBanks)}
+        onChanged={() => {
+          fetchBanks();
+          fetchCounts();
+        }}
+      />
     </div>
   );
 }
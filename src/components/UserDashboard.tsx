@@ -4,11 +4,12 @@
 // ✅ Verifies image with AI backend BEFORE uploading
 // ✅ Prevents fake image storage
 // ✅ Supports camera, gallery, drag-drop
-// ✅ Updates required documents checklist
-// ✅ Automatically sets asset to "pending" when complete
+// ✅ Uploads required documents (PDF / image, versioned)
+// ✅ Automatically submits the asset for review when complete
 // ==========================================================
 
 import { useState, useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import { motion } from "motion/react";
 import {
   Shield,
@@ -19,6 +20,7 @@ import {
   Loader2,
   ChevronLeft,
   ChevronRight,
+  FileText,
 } from "lucide-react";
 import { Button } from "./ui/button";
 import { Card } from "./ui/card";
@@ -32,23 +34,37 @@ import {
   AlertDialogCancel,
 } from "./ui/alert-dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
-import { supabase } from "../supabaseClient";
+import { ASSET_STATUS_LABELS, REVIEW_QUEUE_STATUSES, submissionTarget } from "../lib/assetLifecycle";
+import { db } from "../lib/data";
+import {
+  DOCUMENT_ACCEPT,
+  formatBytes,
+  groupFilesByDocument,
+  validateDocumentFile,
+} from "../lib/documents";
+import { notify } from "../lib/notify";
+import {
+  describeRejection,
+  documentReview,
+  imageReview,
+  indexReviews,
+  summarizeReview,
+  type ReviewIndex,
+} from "../lib/reviews";
+import { ROUTES } from "../lib/routes";
+import type { Asset, DocumentFile, RequiredDocument, User } from "../types";
 // @ts-ignore
 import piexif from "piexifjs";
 
 /*
   Full UserDashboard.tsx
-  - Verifies authenticity BEFORE upload
+  - Photos go through the gateway, which verifies authenticity BEFORE storing
   - Rejects fake images instantly (no storage waste)
-  - AI backend URL: import.meta.env.VITE_AI_BACKEND_URL
   - EXIF embedding + reverse geocoding
-  - Tracks required_documents & auto status = pending
+  - Uploads required_documents files & auto-submits for review
   - Camera capture, gallery, drag-drop
 */
 
-const AI_BACKEND =
-  import.meta.env.VITE_AI_BACKEND_URL || "http://127.0.0.1:8000";
-
 /* -----------------------------------------------------
    Utility: Convert degrees to rational array for EXIF
    ----------------------------------------------------- */
@@ -107,34 +123,6 @@ const getAddressFromCoords = async (
 /* -----------------------------------------------------
    Interfaces
    ----------------------------------------------------- */
-interface Asset {
-  id: string;
-  asset_name: string;
-  status: "pending" | "non-verified" | "authenticated";
-  issued_date?: string;
-  user_id?: string;
-  image_url?: string | null;
-  latitude?: number | null;
-  longitude?: number | null;
-  location_address?: string | null;
-  created_at?: string;
-  verified_at?: string | null;
-}
-
-interface User {
-  id: string;
-  name: string;
-  phone: string;
-  role: string;
-}
-
-interface RequiredDoc {
-  id: string;
-  document_name: string;
-  is_uploaded: boolean;
-  uploaded_at?: string | null;
-}
-
 interface UserDashboardProps {
   onLogout: () => void;
   phone: string;
@@ -144,6 +132,8 @@ interface UserDashboardProps {
    Main Component
    ----------------------------------------------------- */
 export function UserDashboard({ onLogout, phone }: UserDashboardProps) {
+  const navigate = useNavigate();
+  const { assetId } = useParams<{ assetId?: string }>();
   const [user, setUser] = useState<User | null>(null);
   const [assets, setAssets] = useState<Asset[]>([]);
   const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null);
@@ -157,39 +147,34 @@ export function UserDashboard({ onLogout, phone }: UserDashboardProps) {
   const [showUploadDialog, setShowUploadDialog] = useState(false);
   const [showCamera, setShowCamera] = useState(false);
 
-  const [requiredDocs, setRequiredDocs] = useState<RequiredDoc[]>([]);
+  const [requiredDocs, setRequiredDocs] = useState<RequiredDocument[]>([]);
+  // document id → uploaded versions, newest first
+  const [documentFiles, setDocumentFiles] = useState<Record<string, DocumentFile[]>>({});
+  const [uploadingDocId, setUploadingDocId] = useState<string | null>(null);
+  // Loan manager decisions; rejected items ask for a re-upload
+  const [reviews, setReviews] = useState<ReviewIndex>({});
+  // Why the loan manager last rejected the open asset, if it is rejected
+  const [rejectionReason, setRejectionReason] = useState<string | null>(null);
 
   /* -----------------------------------------------------
      Fetch user and assets
      ----------------------------------------------------- */
-  useEffect(() => {
-    (async () => {
-      try {
-        const formattedPhone = phone.startsWith("+") ? phone : "+91" + phone;
-        const { data: userData, error: userErr } = await supabase
-          .from("users")
-          .select("*")
-          .or(`phone.eq.${phone},phone.eq.${formattedPhone}`)
-          .single();
-
-        if (userErr) {
-          console.error("User fetch error:", userErr);
-          return;
-        }
-        setUser(userData || null);
-
-        if (userData?.id) {
-          const { data: assetData } = await supabase
-            .from("assets")
-            .select("*")
-            .eq("user_id", userData.id)
-            .order("created_at", { ascending: false });
-          setAssets(assetData || []);
-        }
-      } catch (err) {
-        console.error("Error fetching user:", err);
+  async function fetchUserAndAssets() {
+    try {
+      const userData = await db.users.findByPhone(phone);
+      if (!userData) {
+        console.error("User fetch error: no user for", phone);
+        return;
       }
-    })();
+      setUser(userData);
+      setAssets(await db.assets.listByUser(userData.id));
+    } catch (err) {
+      notify.error(err, { title: "Couldn't load your assets", retry: fetchUserAndAssets });
+    }
+  }
+
+  useEffect(() => {
+    fetchUserAndAssets();
   }, [phone]);
 
   /* -----------------------------------------------------
@@ -197,63 +182,75 @@ export function UserDashboard({ onLogout, phone }: UserDashboardProps) {
      ----------------------------------------------------- */
   async function fetchRequiredDocuments(assetId: string) {
     try {
-      const { data, error } = await supabase
-        .from("required_documents")
-        .select("id, document_name, is_uploaded, uploaded_at")
-        .eq("asset_id", assetId)
-        .order("id", { ascending: true });
-      if (error) throw error;
-      setRequiredDocs(data || []);
+      const [docs, fileRows] = await Promise.all([
+        db.documents.listByAsset(assetId),
+        db.documents.listFiles(assetId),
+      ]);
+      const files = groupFilesByDocument(fileRows);
+      setRequiredDocs(docs);
+      setDocumentFiles(files);
+      return { docs, files };
     } catch (err) {
       console.error("fetchRequiredDocuments error:", err);
+      return { docs: [] as RequiredDocument[], files: {} as Record<string, DocumentFile[]> };
+    }
+  }
+
+  async function fetchReviews(assetId: string): Promise<ReviewIndex> {
+    try {
+      const index = indexReviews(await db.reviews.listByAsset(assetId));
+      setReviews(index);
+      return index;
+    } catch (err) {
+      console.error("fetchReviews error:", err);
+      return {};
     }
   }
 
-  async function handleDocumentCheck(docId: string, newValue: boolean) {
+  // ✅ A real file is the only way a document counts as uploaded;
+  //    uploading again stores a new version that replaces the current one
+  async function handleDocumentUpload(doc: RequiredDocument, file: File) {
+    const invalid = validateDocumentFile(file);
+    if (invalid) {
+      notify.warning(invalid);
+      return;
+    }
+    setUploadingDocId(doc.id);
     try {
-      const { error } = await supabase
-        .from("required_documents")
-        .update({
-          is_uploaded: newValue,
-          uploaded_at: newValue ? new Date().toISOString() : null,
-        })
-        .eq("id", docId);
-      if (error) throw error;
-      setRequiredDocs((prev) =>
-        prev.map((d) =>
-          d.id === docId
-            ? {
-                ...d,
-                is_uploaded: newValue,
-                uploaded_at: newValue ? new Date().toISOString() : null,
-              }
-            : d
-        )
-      );
-      await checkAndSetPendingStatus();
+      const saved = await db.documents.upload(doc, file);
+      notify.success(`${doc.document_name} uploaded (version ${saved.version})`);
+      await checkAndSubmit();
     } catch (err) {
-      console.error("handleDocumentCheck error:", err);
+      notify.error(err, {
+        title: `Couldn't upload ${doc.document_name}`,
+        retry: () => handleDocumentUpload(doc, file),
+      });
+    } finally {
+      setUploadingDocId(null);
+    }
+  }
+
+  async function openDocumentFile(file: DocumentFile) {
+    try {
+      window.open(await db.documents.fileUrl(file), "_blank", "noopener");
+    } catch (err) {
+      notify.error(err, { title: `Couldn't open ${file.file_name}` });
     }
   }
 
   /* -----------------------------------------------------
      Fetch Asset Images
      ----------------------------------------------------- */
-  async function fetchAssetImages(assetId: string) {
+  async function fetchAssetImages(assetId: string): Promise<string[]> {
     try {
-      const { data: files } = await supabase.storage
-        .from("asset-images")
-        .list(`${assetId}/`);
-      const urls =
-        files?.map(
-          (f) =>
-            `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/public/asset-images/${assetId}/${f.name}`
-        ) || [];
-      setAssetImages(urls);
+      const images = await db.images.list(assetId);
+      setAssetImages(images);
       setCurrentImageIndex(0);
+      return images;
     } catch (err) {
       console.error("fetchAssetImages error:", err);
       setAssetImages([]);
+      return [];
     }
   }
 
@@ -264,109 +261,69 @@ export function UserDashboard({ onLogout, phone }: UserDashboardProps) {
     if (!selectedAsset) return;
     try {
       setProcessing(true);
-      const parts = publicUrl.split("/asset-images/");
-      if (parts.length < 2) return;
-      const path = parts[1].split("?")[0];
-      await supabase.storage.from("asset-images").remove([path]);
+      await db.images.remove(publicUrl);
       await fetchAssetImages(selectedAsset.id);
-      await checkAndSetPendingStatus();
+      await checkAndSubmit();
     } catch (err) {
-      console.error("handleDeleteImage error:", err);
+      notify.error(err, { title: "Couldn't delete the image" });
     } finally {
       setProcessing(false);
     }
   }
 
   /* -----------------------------------------------------
-     Upload verified images only (AI → Upload)
+     Upload verified images only (the gateway runs the AI
+     check and stores the image only if it passes)
      ----------------------------------------------------- */
-  async function uploadImageToSupabase(
+  async function uploadVerifiedImage(
     assetId: string,
     blob: Blob,
     lat: number | null,
     lon: number | null
   ) {
-    const timestamp = Date.now();
-    const fileName = `${timestamp}.jpg`;
-    const filePath = `${assetId}/${fileName}`;
-
+    const retry = () => uploadVerifiedImage(assetId, blob, lat, lon);
+    const progress = notify.progress("Verifying image…");
     try {
       setProcessing(true);
       setUploadProgress(10);
 
-      // Convert blob to base64 for AI verification
-      const base64data = await new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onloadend = () => resolve(reader.result as string);
-        reader.readAsDataURL(blob);
-      });
-
-      // Verify before uploading
-      const verifyRes = await fetch(`${AI_BACKEND}/verify-image`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ image_base64: base64data, asset_id: assetId }),
-      });
-
-      if (!verifyRes.ok) {
-        alert("AI verification failed. Please try again.");
-        return;
-      }
-
-      const verifyJson = await verifyRes.json();
-      const is_real = verifyJson.is_real === true;
-      const score = verifyJson.authenticity_score ?? 0;
-      const reason = verifyJson.message ?? "Rejected";
-
-      if (!is_real) {
-        alert(
-          `❌ Image rejected by AI (score ${(score * 100).toFixed(
-            1
-          )}%). Reason: ${reason}`
-        );
+      let submission;
+      try {
+        submission = await db.images.submit(assetId, blob);
+      } catch (err) {
+        progress.error(err, { title: "AI verification failed", retry });
         return;
       }
+      const { isReal, score, message: reason, url: image_url } = submission;
 
-      // Upload only if real
-      setUploadProgress(50);
-      const { error: uploadError } = await supabase.storage
-        .from("asset-images")
-        .upload(filePath, blob, {
-          contentType: "image/jpeg",
-          upsert: false,
+      if (!isReal || !image_url) {
+        progress.warning(`Image rejected by AI (score ${(score * 100).toFixed(1)}%)`, {
+          description: reason,
         });
-      if (uploadError) {
-        alert("Upload failed.");
         return;
       }
 
-      const { data: publicUrlData } = supabase.storage
-        .from("asset-images")
-        .getPublicUrl(filePath);
-      const image_url =
-        publicUrlData?.publicUrl ||
-        `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/public/asset-images/${filePath}`;
+      setUploadProgress(50);
+      progress.update("Saving location…");
 
       const address =
         lat != null && lon != null ? await getAddressFromCoords(lat, lon) : null;
-      await supabase
-        .from("assets")
-        .update({
-          image_url,
-          latitude: lat ?? null,
-          longitude: lon ?? null,
-          location_address: address ?? null,
-        })
-        .eq("id", assetId);
+      await db.assets.update(assetId, {
+        image_url,
+        latitude: lat ?? null,
+        longitude: lon ?? null,
+        location_address: address ?? null,
+      });
 
       await fetchAssetImages(assetId);
-      await checkAndSetPendingStatus();
+      await checkAndSubmit();
 
-      alert(`✅ Image accepted (score ${(score * 100).toFixed(1)}%)`);
+      progress.success(`Image accepted (score ${(score * 100).toFixed(1)}%)`, {
+        action: { label: "View asset", onClick: () => navigate(ROUTES.myAsset(assetId)) },
+      });
       setUploadProgress(100);
     } catch (err) {
-      console.error("uploadImageToSupabase error:", err);
-      alert("Upload failed.");
+      progress.error(err, { title: "Upload failed", retry });
     } finally {
       setProcessing(false);
       setTimeout(() => setUploadProgress(0), 700);
@@ -374,30 +331,29 @@ export function UserDashboard({ onLogout, phone }: UserDashboardProps) {
   }
 
   /* -----------------------------------------------------
-     Pending check
+     Submission check
      ----------------------------------------------------- */
-  async function checkAndSetPendingStatus() {
-    if (!selectedAsset) return;
-    await fetchRequiredDocuments(selectedAsset.id);
-    await fetchAssetImages(selectedAsset.id);
-
-    const allDocsUploaded =
-      requiredDocs.length > 0 && requiredDocs.every((d) => d.is_uploaded);
-    const enoughImages = assetImages.length >= requiredDocs.length;
-
-    if (allDocsUploaded && enoughImages) {
-      await supabase
-        .from("assets")
-        .update({ status: "pending" })
-        .eq("id", selectedAsset.id);
-      if (user) {
-        const { data } = await supabase
-          .from("assets")
-          .select("*")
-          .eq("user_id", user.id)
-          .order("created_at", { ascending: false });
-        setAssets(data || []);
-      }
+  async function checkAndSubmit() {
+    if (!selectedAsset || !user) return;
+    // Decide on the fresh rows, not the state from before the refetch
+    const { docs, files } = await fetchRequiredDocuments(selectedAsset.id);
+    const images = await fetchAssetImages(selectedAsset.id);
+    const reviewIndex = await fetchReviews(selectedAsset.id);
+
+    // Only awaiting_evidence / rejected assets can be (re)submitted
+    const current = (await db.assets.listByUser(user.id)).find((a) => a.id === selectedAsset.id);
+    const target = current ? submissionTarget(current.status) : null;
+    if (!current || !target) return;
+
+    const allDocsUploaded = docs.length > 0 && docs.every((d) => d.is_uploaded);
+    const enoughImages = images.length >= docs.length;
+    // Rejected items must be replaced before it goes back for review
+    const { rejected } = summarizeReview(docs, files, images, reviewIndex);
+
+    if (allDocsUploaded && enoughImages && rejected === 0) {
+      await db.assets.transition({ asset: current, to: target, actor: user });
+      setAssets(await db.assets.listByUser(user.id));
+      notify.success(`${current.asset_name} sent for review`);
     }
   }
 
@@ -429,6 +385,9 @@ export function UserDashboard({ onLogout, phone }: UserDashboardProps) {
             await video.play().catch(() => {});
           }
         } catch {
+          notify.warning("Camera unavailable", {
+            description: "Allow camera access or upload a photo from your gallery instead.",
+          });
           setShowCamera(false);
         }
       })();
@@ -477,13 +436,13 @@ export function UserDashboard({ onLogout, phone }: UserDashboardProps) {
 
       const exifDataUrl = insertExifIntoJpegDataUrl(jpegDataUrl, lat, lon);
       const blob = await dataURLToBlob(exifDataUrl);
-      await uploadImageToSupabase(selectedAsset.id, blob, lat, lon);
+      await uploadVerifiedImage(selectedAsset.id, blob, lat, lon);
 
       const stream = video?.srcObject as MediaStream | null;
       stream?.getTracks().forEach((t) => t.stop());
       setShowCamera(false);
     } catch (err) {
-      console.error("handleCapture error:", err);
+      notify.error(err, { title: "Couldn't capture the photo" });
     } finally {
       setUploading(false);
     }
@@ -515,7 +474,7 @@ export function UserDashboard({ onLogout, phone }: UserDashboardProps) {
         lat = 0;
         lon = 0;
       }
-      await uploadImageToSupabase(selectedAsset.id, blob, lat, lon);
+      await uploadVerifiedImage(selectedAsset.id, blob, lat, lon);
       setShowUploadDialog(false);
     };
     reader.readAsDataURL(file);
@@ -533,7 +492,7 @@ export function UserDashboard({ onLogout, phone }: UserDashboardProps) {
     reader.onload = async (evt) => {
       const dataUrl = evt.target?.result as string;
       const blob = await (await fetch(dataUrl)).blob();
-      await uploadImageToSupabase(selectedAsset.id, blob, 0, 0);
+      await uploadVerifiedImage(selectedAsset.id, blob, 0, 0);
       setShowUploadDialog(false);
     };
     reader.readAsDataURL(file);
@@ -547,19 +506,65 @@ export function UserDashboard({ onLogout, phone }: UserDashboardProps) {
     setShowUploadDialog(true);
     await fetchAssetImages(asset.id);
     await fetchRequiredDocuments(asset.id);
+    await fetchReviews(asset.id);
+    await fetchRejectionReason(asset);
   };
 
-  const pendingAssets = assets.filter((a) => a.status === "pending");
-  const nonVerifiedAssets = assets.filter((a) => a.status === "non-verified");
+  async function fetchRejectionReason(asset: Asset) {
+    setRejectionReason(null);
+    if (asset.status !== "rejected") return;
+    try {
+      const history = await db.assets.listTransitions(asset.id);
+      const last = history.filter((t) => t.to_status === "rejected").pop();
+      setRejectionReason(last?.reason ?? null);
+    } catch (err) {
+      console.error("fetchRejectionReason error:", err);
+    }
+  }
+
+  const closeAssetDialog = () => {
+    setSelectedAsset(null);
+    setAssetImages([]);
+    setRequiredDocs([]);
+    setDocumentFiles({});
+    setReviews({});
+    setRejectionReason(null);
+    setShowUploadDialog(false);
+  };
+
+  // ✅ /me/assets/:assetId opens that asset's dialog (deep links, back/forward)
+  useEffect(() => {
+    if (!assetId) {
+      closeAssetDialog();
+      return;
+    }
+    const asset = assets.find((a) => a.id === assetId);
+    if (asset && asset.id !== selectedAsset?.id) openAssetDialog(asset);
+  }, [assetId, assets]);
+
+  // Same URL again (dialog was closed by an upload) → reopen directly
+  const handleAssetClick = (asset: Asset) =>
+    asset.id === assetId
+      ? openAssetDialog(asset)
+      : navigate(ROUTES.myAsset(asset.id));
+
+  const currentImageReview =
+    assetImages.length > 0 ? imageReview(reviews, assetImages[currentImageIndex]) : null;
+
+  const inReviewAssets = assets.filter((a) => REVIEW_QUEUE_STATUSES.includes(a.status));
   const authenticatedAssets = assets.filter(
     (a) => a.status === "authenticated"
   );
+  // Everything else still needs evidence from the beneficiary
+  const actionNeededAssets = assets.filter(
+    (a) => a.status !== "authenticated" && !REVIEW_QUEUE_STATUSES.includes(a.status)
+  );
 
   const renderAssetCard = (asset: Asset) => (
     <Card
       key={asset.id}
       className="p-6 bg-white rounded-xl shadow-sm cursor-pointer hover:shadow-md"
-      onClick={() => openAssetDialog(asset)}
+      onClick={() => handleAssetClick(asset)}
     >
       <h3 className="font-semibold text-lg">{asset.asset_name}</h3>
       <p className="text-sm text-gray-500 mb-2">
@@ -580,12 +585,12 @@ export function UserDashboard({ onLogout, phone }: UserDashboardProps) {
         className={
           asset.status === "authenticated"
             ? "bg-green-100 text-green-700"
-            : asset.status === "pending"
+            : REVIEW_QUEUE_STATUSES.includes(asset.status)
             ? "bg-yellow-100 text-yellow-700"
             : "bg-red-100 text-red-700"
         }
       >
-        {asset.status}
+        {ASSET_STATUS_LABELS[asset.status]}
       </Badge>
     </Card>
   );
@@ -624,33 +629,33 @@ export function UserDashboard({ onLogout, phone }: UserDashboardProps) {
       </motion.div>
 
       <div className="max-w-7xl mx-auto p-6">
-        <Tabs defaultValue="non-verified" className="w-full">
+        <Tabs defaultValue="action-needed" className="w-full">
           <TabsList className="grid w-full grid-cols-3 mb-6 bg-white rounded-lg shadow-sm">
-            <TabsTrigger value="pending">Pending</TabsTrigger>
-            <TabsTrigger value="non-verified">Non-Verified</TabsTrigger>
+            <TabsTrigger value="in-review">In Review</TabsTrigger>
+            <TabsTrigger value="action-needed">Action Needed</TabsTrigger>
             <TabsTrigger value="authenticated">Authenticated</TabsTrigger>
           </TabsList>
 
-          <TabsContent value="pending">
-            {pendingAssets.length ? (
+          <TabsContent value="in-review">
+            {inReviewAssets.length ? (
               <div className="grid md:grid-cols-2 gap-4">
-                {pendingAssets.map(renderAssetCard)}
+                {inReviewAssets.map(renderAssetCard)}
               </div>
             ) : (
               <p className="text-center text-gray-500 py-8">
-                No pending assets
+                No assets in review
               </p>
             )}
           </TabsContent>
 
-          <TabsContent value="non-verified">
-            {nonVerifiedAssets.length ? (
+          <TabsContent value="action-needed">
+            {actionNeededAssets.length ? (
               <div className="grid md:grid-cols-2 gap-4">
-                {nonVerifiedAssets.map(renderAssetCard)}
+                {actionNeededAssets.map(renderAssetCard)}
               </div>
             ) : (
               <p className="text-center text-gray-500 py-8">
-                No non-verified assets
+                Nothing needs your attention
               </p>
             )}
           </TabsContent>
@@ -674,9 +679,9 @@ export function UserDashboard({ onLogout, phone }: UserDashboardProps) {
         open={showUploadDialog}
         onOpenChange={(open) => {
           if (!open) {
-            setSelectedAsset(null);
-            setAssetImages([]);
-            setRequiredDocs([]);
+            closeAssetDialog();
+            navigate(ROUTES.myAssets);
+            return;
           }
           setShowUploadDialog(open);
         }}
@@ -684,6 +689,12 @@ export function UserDashboard({ onLogout, phone }: UserDashboardProps) {
         <AlertDialogContent className="max-w-2xl bg-white rounded-2xl shadow-2xl overflow-y-auto max-h-[85vh]">
           <AlertDialogHeader>
             <AlertDialogTitle>{selectedAsset?.asset_name}</AlertDialogTitle>
+            {selectedAsset?.status === "rejected" && (
+              <p className="text-sm text-red-600">
+                Not granted{rejectionReason ? `: ${rejectionReason}` : ""}. Replace the rejected
+                items below to send it for review again.
+              </p>
+            )}
           </AlertDialogHeader>
 
           {processing ? (
@@ -765,6 +776,12 @@ export function UserDashboard({ onLogout, phone }: UserDashboardProps) {
                     <div className="mt-2 text-xs text-gray-500 text-center">
                       {currentImageIndex + 1} / {assetImages.length}
                     </div>
+                    {currentImageReview?.decision === "rejected" && (
+                      <p className="mt-1 text-xs text-red-600 text-center">
+                        Rejected: {describeRejection(currentImageReview)} — delete this photo and
+                        upload a new one.
+                      </p>
+                    )}
                   </div>
                 )}
 
@@ -773,36 +790,107 @@ export function UserDashboard({ onLogout, phone }: UserDashboardProps) {
                     <h3 className="font-semibold mb-2 text-gray-700">
                       Required Documents
                     </h3>
+                    <p className="text-xs text-gray-400 mb-2">
+                      PDF or image, up to 10 MB. Uploading again replaces the current file.
+                    </p>
                     <ul className="space-y-2">
-                      {requiredDocs.map((doc) => (
-                        <li
-                          key={doc.id}
-                          className="flex items-center justify-between bg-gray-50 p-2 rounded-lg shadow-sm"
-                        >
-                          <label className="flex items-center gap-2 cursor-pointer">
-                            <input
-                              type="checkbox"
-                              checked={doc.is_uploaded}
-                              onChange={(e) =>
-                                handleDocumentCheck(doc.id, e.target.checked)
-                              }
-                              className="w-4 h-4 accent-green-600"
-                            />
-                            <span className="text-sm">
-                              {doc.document_name}
-                            </span>
-                          </label>
-                          <span
-                            className={`text-xs ${
-                              doc.is_uploaded
-                                ? "text-green-600"
-                                : "text-gray-400"
-                            }`}
-                          >
-                            {doc.is_uploaded ? "Uploaded" : "Pending"}
-                          </span>
-                        </li>
-                      ))}
+                      {requiredDocs.map((doc) => {
+                        const versions = documentFiles[doc.id] ?? [];
+                        const [current, ...older] = versions;
+                        const review = documentReview(reviews, current);
+                        const rejected = review?.decision === "rejected";
+                        return (
+                          <li key={doc.id} className="bg-gray-50 p-2 rounded-lg shadow-sm">
+                            <div className="flex items-center justify-between gap-2">
+                              <div className="flex items-center gap-2 min-w-0">
+                                <FileText className="w-4 h-4 text-gray-500 shrink-0" />
+                                <span className="text-sm truncate">{doc.document_name}</span>
+                              </div>
+                              <div className="flex items-center gap-3 shrink-0">
+                                <span
+                                  className={`text-xs ${
+                                    rejected
+                                      ? "text-red-600"
+                                      : review
+                                      ? "text-green-600 font-semibold"
+                                      : doc.is_uploaded
+                                      ? "text-green-600"
+                                      : "text-gray-400"
+                                  }`}
+                                >
+                                  {rejected
+                                    ? "Rejected"
+                                    : review
+                                    ? "Accepted"
+                                    : doc.is_uploaded
+                                    ? "Uploaded"
+                                    : "Pending"}
+                                </span>
+                                <label
+                                  className={`text-xs text-blue-600 hover:underline ${
+                                    uploadingDocId ? "pointer-events-none opacity-50" : "cursor-pointer"
+                                  }`}
+                                >
+                                  {uploadingDocId === doc.id
+                                    ? "Uploading..."
+                                    : rejected
+                                    ? "Upload new version"
+                                    : current
+                                    ? "Replace"
+                                    : "Upload"}
+                                  <input
+                                    type="file"
+                                    accept={DOCUMENT_ACCEPT}
+                                    className="hidden"
+                                    onChange={(e) => {
+                                      const file = e.target.files?.[0];
+                                      e.target.value = ""; // same file can be picked again
+                                      if (file) handleDocumentUpload(doc, file);
+                                    }}
+                                  />
+                                </label>
+                              </div>
+                            </div>
+
+                            {review && rejected && (
+                              <p className="mt-1 ml-6 text-xs text-red-600">
+                                {describeRejection(review)} — please upload a new version.
+                              </p>
+                            )}
+
+                            {current && (
+                              <div className="mt-1 ml-6 text-xs text-gray-500 space-y-0.5">
+                                <button
+                                  type="button"
+                                  onClick={() => openDocumentFile(current)}
+                                  className="hover:underline text-left"
+                                >
+                                  v{current.version} · {current.file_name} ·{" "}
+                                  {formatBytes(current.size_bytes)}
+                                </button>
+                                {older.length > 0 && (
+                                  <details>
+                                    <summary className="cursor-pointer">
+                                      {older.length} earlier version{older.length > 1 ? "s" : ""}
+                                    </summary>
+                                    {older.map((f) => (
+                                      <button
+                                        key={f.id}
+                                        type="button"
+                                        onClick={() => openDocumentFile(f)}
+                                        className="block hover:underline text-left"
+                                      >
+                                        v{f.version} · {f.file_name} ·{" "}
+                                        {new Date(f.uploaded_at).toLocaleDateString()}
+                                      </button>
+                                    ))}
+                                  </details>
+                                )}
+                              </div>
+                            )}
+                          </li>
+                        );
+                      })}
                     </ul>
                   </div>
                 )}
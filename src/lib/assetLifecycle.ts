@@ -0,0 +1,130 @@
+import type { AssetStatus, UserRole } from "../types";
+
+/* -----------------------------------------------------
+   Asset verification lifecycle — the single source of
+   truth for which status changes are allowed and who
+   may make them. Both data layers check every change
+   here, and the transition_asset() database function
+   mirrors the same table server-side.
+
+   draft → awaiting_evidence → submitted → under_review
+     under_review → authenticated | rejected
+     rejected → resubmitted → under_review
+   ----------------------------------------------------- */
+interface TransitionRule {
+  from: AssetStatus;
+  to: AssetStatus;
+  roles: readonly UserRole[];
+  reasonRequired?: boolean;
+}
+
+const TRANSITIONS: readonly TransitionRule[] = [
+  // Loan manager finalises the checklist and asks for evidence
+  { from: "draft", to: "awaiting_evidence", roles: ["loanmanager"] },
+  // Beneficiary has uploaded every document and image
+  { from: "awaiting_evidence", to: "submitted", roles: ["user"] },
+  // Loan manager picks the submission up
+  { from: "submitted", to: "under_review", roles: ["loanmanager"] },
+  { from: "resubmitted", to: "under_review", roles: ["loanmanager"] },
+  // Decision
+  { from: "under_review", to: "authenticated", roles: ["loanmanager"] },
+  { from: "under_review", to: "rejected", roles: ["loanmanager"], reasonRequired: true },
+  // Beneficiary replaced the rejected evidence
+  { from: "rejected", to: "resubmitted", roles: ["user"] },
+];
+
+export const ASSET_STATUS_LABELS: Record<AssetStatus, string> = {
+  draft: "Draft",
+  awaiting_evidence: "Awaiting evidence",
+  submitted: "Submitted",
+  under_review: "Under review",
+  authenticated: "Authenticated",
+  rejected: "Rejected",
+  resubmitted: "Resubmitted",
+};
+
+// Statuses waiting on the loan manager
+export const REVIEW_QUEUE_STATUSES: readonly AssetStatus[] = [
+  "submitted",
+  "resubmitted",
+  "under_review",
+];
+
+// Statuses in which the beneficiary may still add photos; the
+// gateway refuses uploads for the others
+export const EVIDENCE_OPEN_STATUSES: readonly AssetStatus[] = [
+  "awaiting_evidence",
+  "submitted",
+  "rejected",
+  "resubmitted",
+];
+
+/* -----------------------------------------------------
+   Thrown for a change the lifecycle doesn't allow, by
+   both data layers before anything is written
+   ----------------------------------------------------- */
+export class IllegalTransitionError extends Error {
+  constructor(
+    public readonly from: AssetStatus,
+    public readonly to: AssetStatus,
+    public readonly role: UserRole,
+    detail?: string
+  ) {
+    super(
+      detail ??
+        `A ${role} can't move an asset from "${ASSET_STATUS_LABELS[from]}" to "${ASSET_STATUS_LABELS[to]}".`
+    );
+    this.name = "IllegalTransitionError";
+  }
+}
+
+const findRule = (from: AssetStatus, to: AssetStatus) =>
+  TRANSITIONS.find((t) => t.from === from && t.to === to);
+
+export function canTransition(from: AssetStatus, to: AssetStatus, role: UserRole): boolean {
+  return findRule(from, to)?.roles.includes(role) ?? false;
+}
+
+// Every status the role may move an asset to from `from`
+export function allowedTransitions(from: AssetStatus, role: UserRole): AssetStatus[] {
+  return TRANSITIONS.filter((t) => t.from === from && t.roles.includes(role)).map((t) => t.to);
+}
+
+export function isReasonRequired(from: AssetStatus, to: AssetStatus): boolean {
+  return findRule(from, to)?.reasonRequired ?? false;
+}
+
+// Throws IllegalTransitionError unless the change is allowed as given
+export function assertTransition(
+  from: AssetStatus,
+  to: AssetStatus,
+  role: UserRole,
+  reason: string | null
+) {
+  if (!canTransition(from, to, role)) throw new IllegalTransitionError(from, to, role);
+  if (isReasonRequired(from, to) && !reason?.trim()) {
+    throw new IllegalTransitionError(
+      from,
+      to,
+      role,
+      `Moving an asset to "${ASSET_STATUS_LABELS[to]}" needs a reason.`
+    );
+  }
+}
+
+// Where the beneficiary's complete evidence takes the asset, if anywhere
+export function submissionTarget(status: AssetStatus): AssetStatus | null {
+  if (status === "awaiting_evidence") return "submitted";
+  if (status === "rejected") return "resubmitted";
+  return null;
+}
+
+/* -----------------------------------------------------
+   Rows written before the lifecycle used three loose
+   values; they map onto the closest lifecycle status
+   ----------------------------------------------------- */
+export function upgradeAssetStatus(value: unknown): unknown {
+  if (value === "non-verified") return "awaiting_evidence";
+  if (value === "pending") return "submitted";
+  return value;
+}
@@ -0,0 +1,28 @@
+import type { Asset, AssetStatus } from "../types";
+import { REVIEW_QUEUE_STATUSES } from "./assetLifecycle";
+
+/* -----------------------------------------------------
+   A beneficiary can hold several assets (one per loan);
+   their overall status is derived from those:
+   - any asset waiting on the loan manager → under_review
+   - every asset authenticated            → authenticated
+   - any asset rejected                   → rejected
+   - otherwise                            → awaiting_evidence
+   - no assets                            → null
+   ----------------------------------------------------- */
+export function deriveUserStatus(assets: Pick<Asset, "status">[]): AssetStatus | null {
+  if (assets.length === 0) return null;
+  if (assets.some((a) => REVIEW_QUEUE_STATUSES.includes(a.status))) return "under_review";
+  if (assets.every((a) => a.status === "authenticated")) return "authenticated";
+  if (assets.some((a) => a.status === "rejected")) return "rejected";
+  return "awaiting_evidence";
+}
+
+// userId → that user's assets (newest first, as listed)
+export function groupAssetsByUser(assets: Asset[]): Record<string, Asset[]> {
+  const byUser: Record<string, Asset[]> = {};
+  for (const asset of assets) {
+    (byUser[asset.user_id] ??= []).push(asset);
+  }
+  return byUser;
+}
@@ -0,0 +1,136 @@
+import type { AssetStatus, AuditAction, AuditEvent } from "../types";
+import { ASSET_STATUS_LABELS } from "./assetLifecycle";
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "auth.login": "Signed in",
+  "auth.logout": "Signed out",
+  "user.create": "User added",
+  "bank.create": "Bank added",
+  "asset.create": "Asset created",
+  "asset.update": "Asset updated",
+  "asset.transition": "Status changed",
+  "document.upload": "Document uploaded",
+  "image.verify": "AI check",
+  "image.upload": "Image uploaded",
+  "image.delete": "Image deleted",
+  "review.record": "Item reviewed",
+  "import.excel": "Excel import",
+  "bank.update": "Bank updated",
+  "bank.delete": "Bank deleted",
+  "user.deactivate": "User deactivated",
+  "user.transfer": "Beneficiaries moved",
+  "region.create": "Region added",
+  "branch.create": "Branch added",
+  "branch.update": "Branch updated",
+  "user.update": "User updated",
+};
+
+// Newest-first page size of the searchable log
+export const AUDIT_PAGE_SIZE = 200;
+
+/* -----------------------------------------------------
+   Field-level diff used for update events: only the
+   columns that actually changed, before and after
+   ----------------------------------------------------- */
+export function changedFields<T extends object>(
+  before: T,
+  patch: Partial<T>
+): { before: Record<string, unknown>; after: Record<string, unknown> } | null {
+  const old: Record<string, unknown> = {};
+  const next: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(patch)) {
+    const previous = (before as Record<string, unknown>)[key];
+    if (value === undefined || value === previous) continue;
+    old[key] = previous ?? null;
+    next[key] = value;
+  }
+  return Object.keys(next).length ? { before: old, after: next } : null;
+}
+
+const str = (v: unknown) => (typeof v === "string" || typeof v === "number" ? String(v) : "");
+const status = (v: unknown) => ASSET_STATUS_LABELS[v as AssetStatus] ?? str(v);
+
+/* -----------------------------------------------------
+   One line describing what happened, from the recorded
+   values (events keep working if names change later)
+   ----------------------------------------------------- */
+export function describeAuditEvent(event: AuditEvent): string {
+  const after = event.after ?? {};
+  const before = event.before ?? {};
+  switch (event.action) {
+    case "auth.login":
+    case "auth.logout":
+      return AUDIT_ACTION_LABELS[event.action];
+    case "user.create":
+      return `Added ${str(after.role)} ${str(after.name)} (${str(after.phone)})`;
+    case "bank.create":
+      // Banks had a single branch before the hierarchy
+      return `Added bank ${str(after.name)}${after.branch ? `, ${str(after.branch)}` : ""}`;
+    case "asset.create":
+      return `Created asset ${str(after.asset_name)}`;
+    case "asset.update":
+      return `Changed ${Object.keys(after).join(", ") || "nothing"}`;
+    case "asset.transition": {
+      const reason = str(after.reason);
+      return `${status(before.status)} → ${status(after.status)}${reason ? ` — ${reason}` : ""}`;
+    }
+    case "document.upload":
+      return `Uploaded ${str(after.file_name)} (version ${str(after.version)})`;
+    case "image.verify":
+      return `${after.is_real ? "Passed" : "Failed"} (score ${Math.round(Number(after.score) * 100)}%)`;
+    case "image.upload":
+      return "Uploaded an image";
+    case "image.delete":
+      return "Deleted an image";
+    case "review.record": {
+      const reason = str(after.reason);
+      return `${str(after.decision) === "accepted" ? "Accepted" : "Rejected"} ${str(after.item_type)}${
+        reason ? ` (${reason.replace(/_/g, " ")})` : ""
+      }`;
+    }
+    case "import.excel":
+      // Imports before the staged preview could skip rows
+      return `Imported ${str(after.file)}: ${str(after.added)} added${
+        after.updated == null ? "" : `, ${str(after.updated)} updated`
+      }${after.skipped == null ? "" : `, ${str(after.skipped)} skipped`}`;
+    case "bank.update":
+      return `Changed ${Object.keys(after).join(", ") || "nothing"}`;
+    case "bank.delete":
+      return `Deleted bank ${str(after.name)}${after.branch ? `, ${str(after.branch)}` : ""}`;
+    case "user.deactivate":
+      return `Deactivated ${str(after.role)} ${str(after.name)}`;
+    case "user.transfer": {
+      const count = Number(after.beneficiaries);
+      return `Moved ${count} beneficiar${count === 1 ? "y" : "ies"} to ${str(after.to_name)}`;
+    }
+    case "region.create":
+      return `Added region ${str(after.name)}`;
+    case "branch.create":
+      return `Added branch ${str(after.name)} (manager ${str(after.branch_manager)})`;
+    case "branch.update":
+      return `Changed ${Object.keys(after).join(", ") || "nothing"}`;
+    case "user.update":
+      // Renamed by an import, or a loan manager moved to a branch
+      return "branch_id" in after
+        ? `Moved ${str(after.name)} to ${str(after.branch)}`
+        : `Renamed ${str(before.name)} to ${str(after.name)}`;
+  }
+}
+
+// Lower-cased haystack the log search matches against (mirrors audit_events.search_text)
+export function auditSearchText(event: AuditEvent): string {
+  return [
+    event.action,
+    event.actor_name,
+    event.target_id,
+    JSON.stringify(event.before),
+    JSON.stringify(event.after),
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+}
+
+export function formatAuditTime(iso: string): string {
+  return new Date(iso).toLocaleString();
+}
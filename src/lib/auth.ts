@@ -0,0 +1,113 @@
+import { useEffect, useRef, useState } from "react";
+import type { UserRole } from "../types";
+import { db, type AuthSession } from "./data";
+import { normalizePhone } from "./phone";
+
+/* -----------------------------------------------------
+   Thrown when a verified phone has no active `users` row
+   ----------------------------------------------------- */
+export class AccountNotFoundError extends Error {
+  constructor(public readonly phone: string) {
+    super(`No AuthenX account is registered for ${phone}`);
+    this.name = "AccountNotFoundError";
+  }
+}
+
+/* -----------------------------------------------------
+   Role lookup in the `users` table. Fails loudly: a
+   missing row or an unknown role must never turn into
+   a silent "user" login.
+   ----------------------------------------------------- */
+export async function fetchUserRole(phone: string): Promise<UserRole> {
+  // Rows are validated by the data layer → RowValidationError on an unknown role
+  const user = await db.users.findByPhone(phone);
+  // Deactivated accounts are already hidden by row-level security
+  if (!user || user.deactivated_at) throw new AccountNotFoundError(normalizePhone(phone));
+
+  console.log("ℹ️ Role from DB:", user.role);
+  return user.role;
+}
+
+interface AuthSessionHandlers {
+  onSignedIn: (phone: string, role: UserRole) => void;
+  onSignedOut: () => void;
+  onRoleError: (err: Error) => void;
+}
+
+/* -----------------------------------------------------
+   Keeps App state in sync with the persisted session
+   - Startup: restores the session persisted by db.auth
+   - Token refresh: nothing to do, role is unchanged
+   - Sign-out / expiry / other tab: onSignedOut()
+   - No account / invalid role: signs out, onRoleError()
+   Returns `ready` (startup restore finished) and
+   `applySession` for callers that just signed in.
+   ----------------------------------------------------- */
+export function useAuthSession(handlers: AuthSessionHandlers) {
+  const [ready, setReady] = useState(false);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  // Phone of the session App currently knows about
+  const currentPhone = useRef<string | null>(null);
+
+  const applySession = async (session: AuthSession | null) => {
+    const phone = session?.phone ?? null;
+
+    if (!phone) {
+      if (currentPhone.current) {
+        currentPhone.current = null;
+        handlersRef.current.onSignedOut();
+      }
+      return;
+    }
+
+    // Same user (e.g. duplicate SIGNED_IN on tab focus) → nothing changed
+    if (phone === currentPhone.current) return;
+    currentPhone.current = phone;
+
+    let role: UserRole;
+    try {
+      role = await fetchUserRole(phone);
+    } catch (err: any) {
+      console.error("❌ Role lookup failed:", err.message);
+      currentPhone.current = null;
+      await db.auth.signOut();
+      handlersRef.current.onRoleError(err);
+      return;
+    }
+    if (currentPhone.current !== phone) return; // signed out meanwhile
+    handlersRef.current.onSignedIn(phone, role);
+  };
+
+  useEffect(() => {
+    let active = true;
+
+    db.auth
+      .getSession()
+      .catch((err) => {
+        console.warn("⚠️ Could not restore session:", err.message);
+        return null;
+      })
+      .then(async (session) => {
+        await applySession(session);
+        if (active) setReady(true);
+      });
+
+    const unsubscribe = db.auth.onChange((event, session) => {
+      if (event === "TOKEN_REFRESHED") {
+        console.log("🔄 Session token refreshed");
+        return;
+      }
+      // supabase-js must not be awaited inside its auth callback → defer
+      setTimeout(() => applySession(session), 0);
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return { ready, applySession };
+}
@@ -0,0 +1,137 @@
+import * as XLSX from "xlsx";
+import type { Bank, Branch, Region, User } from "../types";
+import type { AssetFact } from "./data";
+import { bankTree, isActiveUser } from "./banks";
+import { summarizeFunnel, type FunnelSummary } from "./funnel";
+
+/* -----------------------------------------------------
+   CSV per RFC 4180: fields with a comma, quote or line
+   break are quoted and their quotes doubled; records end
+   with CRLF. The BOM makes Excel read it as UTF-8.
+   ----------------------------------------------------- */
+const CSV_BOM = "\uFEFF";
+
+export function csvField(value: string | number | null): string {
+  const text = value == null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: Array<Array<string | number | null>>): string {
+  return CSV_BOM + rows.map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+/* -----------------------------------------------------
+   Bank export: one row per bank, with the columns the
+   super admin picks. Verification stats cover the assets
+   issued in the chosen date range.
+   ----------------------------------------------------- */
+export interface BankExportSource {
+  banks: Bank[];
+  regions: Region[];
+  branches: Branch[];
+  loanManagers: User[];
+  beneficiaries: User[];
+  facts: AssetFact[]; // assets issued in the range (analytics.assetFacts)
+}
+
+interface BankExportContext {
+  bank: Bank;
+  tree: ReturnType<typeof bankTree>;
+  loanManagers: User[];
+  beneficiaries: number;
+  stats: FunnelSummary;
+}
+
+type Cell = string | number | null;
+
+const percent = (part: number, whole: number): Cell =>
+  whole === 0 ? null : Math.round((part / whole) * 1000) / 10;
+
+const hours = (value: number | null): Cell => (value == null ? null : Math.round(value * 10) / 10);
+
+const column = <K extends string>(
+  key: K,
+  label: string,
+  value: (context: BankExportContext) => Cell
+) => ({ key, label, value });
+
+export const BANK_EXPORT_COLUMNS = [
+  column("id", "ID", (c) => c.bank.id),
+  column("name", "Name", (c) => c.bank.name),
+  column("regions", "Regions", (c) => c.tree.map((t) => t.region.name).join("; ")),
+  column("branches", "Branches", (c) =>
+    c.tree.flatMap((t) => t.branches.map((b) => b.name)).join("; ")
+  ),
+  column("branch_managers", "Branch Managers", (c) =>
+    c.tree.flatMap((t) => t.branches.map((b) => b.branch_manager)).join("; ")
+  ),
+  column("loan_managers", "Loan Managers", (c) => c.loanManagers.map((u) => u.name).join("; ")),
+  column("loan_manager_phones", "Loan Manager Phones", (c) =>
+    c.loanManagers.map((u) => u.phone).join("; ")
+  ),
+  column("beneficiaries", "Beneficiaries", (c) => c.beneficiaries),
+  column("assets_issued", "Assets Issued", (c) => c.stats.issued),
+  column("submitted", "Evidence Submitted", (c) => c.stats.submitted),
+  column("pending", "Pending Review", (c) => c.stats.pending),
+  column("authenticated", "Authenticated", (c) => c.stats.authenticated),
+  column("rejected", "Rejected", (c) => c.stats.rejected),
+  column("verification_rate", "Verification Rate (%)", (c) =>
+    percent(c.stats.authenticated, c.stats.issued)
+  ),
+  column("median_decision_hours", "Median Hours to Decision", (c) =>
+    hours(c.stats.medianDecisionHours)
+  ),
+  column("ai_rejection_rate", "AI Rejection Rate (%)", (c) =>
+    percent(c.stats.aiRejections, c.stats.aiChecks)
+  ),
+];
+export type BankExportColumn = (typeof BANK_EXPORT_COLUMNS)[number]["key"];
+
+// What the old "Download Banks" button wrote, plus the beneficiary count
+export const DEFAULT_BANK_EXPORT_COLUMNS: BankExportColumn[] = [
+  "id",
+  "name",
+  "branches",
+  "branch_managers",
+  "loan_managers",
+  "loan_manager_phones",
+  "beneficiaries",
+];
+
+export const BANK_EXPORT_FORMATS = [
+  { value: "csv", label: "CSV (.csv)" },
+  { value: "xlsx", label: "Excel (.xlsx)" },
+] as const;
+export type BankExportFormat = (typeof BANK_EXPORT_FORMATS)[number]["value"];
+
+// Header row first, columns in BANK_EXPORT_COLUMNS order
+export function bankExportTable(source: BankExportSource, columns: BankExportColumn[]): Cell[][] {
+  const picked = BANK_EXPORT_COLUMNS.filter((c) => columns.includes(c.key));
+  const rows = source.banks.map((bank) => {
+    const context: BankExportContext = {
+      bank,
+      tree: bankTree(bank.id, source.regions, source.branches),
+      loanManagers: source.loanManagers.filter((u) => u.bank_id === bank.id && isActiveUser(u)),
+      beneficiaries: source.beneficiaries.filter((u) => u.bank_id === bank.id).length,
+      stats: summarizeFunnel(source.facts.filter((f) => f.bank_id === bank.id)),
+    };
+    return picked.map((c) => c.value(context));
+  });
+  return [picked.map((c) => c.label), ...rows];
+}
+
+export function downloadBankExport(table: Cell[][], format: BankExportFormat, fileName: string) {
+  if (format === "xlsx") {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(table), "Banks");
+    XLSX.writeFile(wb, `${fileName}.xlsx`);
+    return;
+  }
+  const blob = new Blob([toCsv(table)], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${fileName}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,88 @@
+import {
+  ASSET_STATUSES,
+  type Asset,
+  type AssetStatus,
+  type Bank,
+  type Branch,
+  type Region,
+  type User,
+} from "../types";
+
+/* -----------------------------------------------------
+   Bank lifecycle and hierarchy helpers for the super
+   admin's views. Deleted banks and deactivated loan
+   managers stay in the lists for history; these pick
+   the live ones.
+   ----------------------------------------------------- */
+export const isActiveBank = (bank: Bank) => !bank.deleted_at;
+
+export const isActiveUser = (user: User) => !user.deactivated_at;
+
+// Loan managers beneficiaries can be handed to: active, in a bank that
+// still exists, optionally outside one bank
+export function successorCandidates(
+  loanManagers: User[],
+  banks: Bank[],
+  excludeBankId?: string
+): Array<{ user: User; bank: Bank }> {
+  return loanManagers.flatMap((user) => {
+    const bank = banks.find((b) => b.id === user.bank_id);
+    if (!bank || !isActiveBank(bank) || !isActiveUser(user) || user.bank_id === excludeBankId) {
+      return [];
+    }
+    return [{ user, bank }];
+  });
+}
+
+// What deleting a bank does to its people and their assets
+export interface BankImpact {
+  loanManagers: User[]; // deactivated with the bank
+  beneficiaries: User[]; // moved to the successor, or left without a loan manager
+  assetsByStatus: Array<{ status: AssetStatus; count: number }>; // lifecycle order, non-zero only
+  openAssets: number; // not yet authenticated
+}
+
+export function bankImpact(bank: Bank, users: User[], assets: Asset[]): BankImpact {
+  const beneficiaries = users.filter((u) => u.role === "user" && u.bank_id === bank.id);
+  const ids = new Set(beneficiaries.map((u) => u.id));
+  const theirs = assets.filter((a) => ids.has(a.user_id));
+  return {
+    loanManagers: users.filter(
+      (u) => u.role === "loanmanager" && u.bank_id === bank.id && isActiveUser(u)
+    ),
+    beneficiaries,
+    assetsByStatus: ASSET_STATUSES.map((status) => ({
+      status,
+      count: theirs.filter((a) => a.status === status).length,
+    })).filter((s) => s.count > 0),
+    openAssets: theirs.filter((a) => a.status !== "authenticated").length,
+  };
+}
+
+const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+// A bank's regions, each with its branches, alphabetically
+export function bankTree(
+  bankId: string,
+  regions: Region[],
+  branches: Branch[]
+): Array<{ region: Region; branches: Branch[] }> {
+  return regions
+    .filter((r) => r.bank_id === bankId)
+    .sort(byName)
+    .map((region) => ({
+      region,
+      branches: branches.filter((b) => b.region_id === region.id).sort(byName),
+    }));
+}
+
+// Loan manager id → the region of their branch. Beneficiaries and assets
+// count towards their loan manager's region.
+export function managerRegions(loanManagers: User[], branches: Branch[]): Map<string, string> {
+  const regions = new Map<string, string>();
+  for (const user of loanManagers) {
+    const branch = branches.find((b) => b.id === user.branch_id);
+    if (branch) regions.set(user.id, branch.region_id);
+  }
+  return regions;
+}
@@ -0,0 +1,67 @@
+import * as XLSX from "xlsx";
+import type { Asset, RequiredDocument, User } from "../types";
+import { ASSET_STATUS_LABELS } from "./assetLifecycle";
+import { joinDocumentNames } from "./beneficiaryImport";
+
+/* -----------------------------------------------------
+   Beneficiary list export, one row per asset. The
+   headers are the import's own (see beneficiaryImport),
+   so an edited file re-imports as an update: asset_id
+   ties each row back to its asset. status and uploaded
+   are for reading only.
+   ----------------------------------------------------- */
+export const EXPORT_FORMATS = [
+  { value: "xlsx", label: "Excel (.xlsx)" },
+  { value: "csv", label: "CSV (.csv)" },
+  { value: "ods", label: "OpenDocument (.ods)" },
+] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]["value"];
+
+export interface BeneficiaryExportRow {
+  name: string;
+  phone: string;
+  asset_name: string;
+  documents: string;
+  uploaded: string;
+  status: string;
+  issued_date: string;
+  asset_id: string;
+}
+
+export function beneficiaryExportRows(
+  users: User[],
+  assetsByUser: Record<string, Asset[]>,
+  documents: RequiredDocument[]
+): BeneficiaryExportRow[] {
+  const names = (assetId: string, uploaded: boolean) =>
+    documents
+      .filter((d) => d.asset_id === assetId && (!uploaded || d.is_uploaded))
+      .map((d) => d.document_name);
+
+  return users.flatMap((user) => {
+    const assets = assetsByUser[user.id] ?? [];
+    const base = { name: user.name, phone: user.phone };
+    // Kept so the list is complete; re-importing it changes nothing
+    if (assets.length === 0) {
+      return [
+        { ...base, asset_name: "", documents: "", uploaded: "", status: "", issued_date: "", asset_id: "" },
+      ];
+    }
+    return assets.map((asset) => ({
+      ...base,
+      asset_name: asset.asset_name,
+      documents: joinDocumentNames(names(asset.id, false)),
+      uploaded: joinDocumentNames(names(asset.id, true)),
+      status: ASSET_STATUS_LABELS[asset.status],
+      issued_date: asset.issued_date ?? "",
+      asset_id: asset.id,
+    }));
+  });
+}
+
+export function downloadBeneficiaries(rows: BeneficiaryExportRow[], format: ExportFormat) {
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), "Beneficiaries");
+  const date = new Date().toISOString().split("T")[0];
+  XLSX.writeFile(wb, `beneficiaries_${date}.${format}`, { bookType: format });
+}
@@ -0,0 +1,257 @@
+import * as XLSX from "xlsx";
+import type { Asset, User } from "../types";
+import type { BeneficiaryImportRow, PhoneOwner } from "./data";
+import { DuplicatePhoneError } from "./data/users";
+import { invalidPhoneMessage, toE164 } from "./phone";
+
+/* -----------------------------------------------------
+   Staged beneficiary import: read the sheet, map its
+   headers onto our fields, validate every row against
+   the file itself and the registered users, and only
+   then hand the clean rows to db.imports
+   ----------------------------------------------------- */
+export const IMPORT_FIELDS = ["name", "phone", "asset_name", "documents", "asset_id"] as const;
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  name: "Name",
+  phone: "Phone",
+  asset_name: "Asset",
+  documents: "Documents",
+  asset_id: "Asset ID",
+};
+
+// Spreadsheet formats SheetJS reads (and exportBeneficiaries writes)
+export const IMPORT_ACCEPT = ".xlsx,.xls,.csv,.ods";
+
+const REQUIRED_FIELDS: ImportField[] = ["name", "phone", "asset_name"];
+
+// Header spellings recognised without manual mapping, compared without
+// case, spaces or punctuation
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ["name", "beneficiary", "beneficiaryname", "fullname", "customername", "borrower"],
+  phone: ["phone", "phonenumber", "mobile", "mobilenumber", "mobileno", "contact", "contactnumber"],
+  asset_name: ["assetname", "asset", "loan", "loanasset", "assetdescription"],
+  documents: ["documents", "docs", "requireddocuments", "documentlist"],
+  asset_id: ["assetid"],
+};
+
+// Sheet header per field; null when the sheet has no such column
+export type ColumnMapping = Record<ImportField, string | null>;
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: { row: number; values: Record<string, string> }[];
+}
+
+// create: new beneficiary; add: new asset for an existing one;
+// update: an existing asset; none: a beneficiary row without an asset
+export type ImportAction = "create" | "add" | "update" | "none";
+
+export interface ImportPreviewRow extends BeneficiaryImportRow {
+  rawPhone: string;
+  errors: string[];
+  existing: User | null; // the bank's beneficiary the row belongs to
+  action: ImportAction;
+}
+
+const headerKey = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// A row's documents share one cell, separated by commas. A name that
+// holds a comma or a double quote is quoted as in CSV, so exported
+// lists read back name for name.
+export function joinDocumentNames(names: string[]): string {
+  return names.map((n) => (/[",]/.test(n) ? `"${n.replace(/"/g, '""')}"` : n)).join(", ");
+}
+
+export function splitDocumentNames(cell: string): string[] {
+  const names: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < cell.length; i++) {
+    const ch = cell[i];
+    if (quoted) {
+      if (ch === '"' && cell[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"' && !current.trim()) {
+      quoted = true;
+      current = "";
+    } else if (ch === ",") {
+      names.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  names.push(current);
+  return names.map((n) => n.trim()).filter(Boolean);
+}
+
+// First sheet of the workbook, every cell as stored rather than as
+// formatted (a phone saved as a number would read "9.19877E+11");
+// CSV cells stay text, so phones keep their "+"
+export async function readSheet(file: File): Promise<ParsedSheet> {
+  const workbook = XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: "array", raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { headers: [], rows: [] };
+
+  const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 });
+  const headers = headerRow.map((h) => String(h ?? "").trim()).filter(Boolean);
+  const records = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, {
+    defval: "",
+    raw: true,
+  });
+  return {
+    headers,
+    rows: records.map((record, i) => ({
+      // SheetJS keeps the 0-based sheet row on each record
+      row: ((record as { __rowNum__?: number }).__rowNum__ ?? i + 1) + 1,
+      values: Object.fromEntries(
+        Object.entries(record).map(([key, value]) => [key.trim(), String(value ?? "").trim()])
+      ),
+    })),
+  };
+}
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping = {} as ColumnMapping;
+  for (const field of IMPORT_FIELDS) {
+    mapping[field] = headers.find((h) => HEADER_ALIASES[field].includes(headerKey(h))) ?? null;
+  }
+  return mapping;
+}
+
+export function missingColumns(mapping: ColumnMapping): ImportField[] {
+  return REQUIRED_FIELDS.filter((field) => !mapping[field]);
+}
+
+// Valid phones of the sheet, to look up before validating
+export function sheetPhones(sheet: ParsedSheet, mapping: ColumnMapping): string[] {
+  const column = mapping.phone;
+  if (!column) return [];
+  const phones = sheet.rows.map((r) => toE164(r.values[column])).filter((p): p is string => !!p);
+  return [...new Set(phones)];
+}
+
+/* -----------------------------------------------------
+   Per-row checks. `owners` are the registered phones
+   (users.findOwners); `assetsByUser` the bank's current
+   assets: a row matching one (by asset ID, else by name)
+   updates it rather than issuing the loan twice.
+   ----------------------------------------------------- */
+export function validateSheet(
+  sheet: ParsedSheet,
+  mapping: ColumnMapping,
+  owners: PhoneOwner[],
+  bankId: string,
+  assetsByUser: Record<string, Asset[]>
+): ImportPreviewRow[] {
+  const cell = (values: Record<string, string>, field: ImportField) => {
+    const column = mapping[field];
+    return column ? values[column] ?? "" : "";
+  };
+  // phone → the first row with it and the assets already listed for it
+  const seen = new Map<string, { row: number; name: string; assets: Map<string, number> }>();
+
+  return sheet.rows.map(({ row, values }) => {
+    const name = cell(values, "name");
+    const rawPhone = cell(values, "phone");
+    const asset_name = cell(values, "asset_name");
+    const documents = splitDocumentNames(cell(values, "documents"));
+    const assetId = cell(values, "asset_id") || null;
+    const phone = rawPhone ? toE164(rawPhone) : null;
+    const errors: string[] = [];
+    let existing: User | null = null;
+    let action: ImportAction = "create";
+    let asset_id: string | null = null;
+
+    if (!name) errors.push("Name is missing");
+    if (!rawPhone) errors.push("Phone is missing");
+    else if (!phone) errors.push(invalidPhoneMessage(rawPhone));
+
+    const owner = phone ? owners.find((o) => o.phone === phone) : undefined;
+    const user = owner?.user ?? null;
+    if (owner && (!user || user.role !== "user" || user.bank_id !== bankId)) {
+      // Another bank's beneficiary stays anonymous, as in users.create
+      const shown = user?.role === "user" && user.bank_id !== bankId ? null : user;
+      errors.push(new DuplicatePhoneError(phone!, shown).message);
+    } else if (owner && user) {
+      existing = user;
+      const assets = assetsByUser[user.id] ?? [];
+      const match = assetId
+        ? assets.find((a) => a.id === assetId)
+        : assets.find((a) => a.asset_name.toLowerCase() === asset_name.toLowerCase());
+      if (assetId && !match) errors.push(`Asset ID ${assetId} isn't one of ${user.name}'s assets`);
+      asset_id = match?.id ?? null;
+      action = !asset_name && !assetId ? "none" : match ? "update" : "add";
+    } else if (assetId) {
+      errors.push(`Asset ID ${assetId} doesn't belong to this phone`);
+    }
+    if (!asset_name && action !== "none") errors.push("Asset is missing");
+
+    if (phone && action !== "none") {
+      const assetKey = asset_id ?? asset_name.toLowerCase();
+      const first = seen.get(phone);
+      if (!first) {
+        seen.set(phone, { row, name, assets: new Map([[assetKey, row]]) });
+      } else if (first.name.toLowerCase() !== name.toLowerCase()) {
+        errors.push(`Same phone as row ${first.row} with a different name`);
+      } else if (first.assets.has(assetKey)) {
+        errors.push(`Duplicate of row ${first.assets.get(assetKey)}`);
+      } else {
+        first.assets.set(assetKey, row);
+      }
+    }
+
+    return {
+      row,
+      name,
+      phone: phone ?? "",
+      rawPhone,
+      asset_name,
+      documents,
+      asset_id,
+      errors,
+      existing,
+      action,
+    };
+  });
+}
+
+// What db.imports.beneficiaries takes; only for sheets without errors
+export function toImportRows(rows: ImportPreviewRow[]): BeneficiaryImportRow[] {
+  return rows
+    .filter((r) => r.action !== "none")
+    .map(({ row, name, phone, asset_name, documents, asset_id }) => ({
+      row,
+      name,
+      phone,
+      asset_name,
+      documents,
+      asset_id,
+    }));
+}
+
+// The rejected rows as they were in the sheet, with what is wrong
+export function downloadErrorReport(fileName: string, rows: ImportPreviewRow[]) {
+  const report = rows
+    .filter((r) => r.errors.length > 0)
+    .map((r) => ({
+      row: r.row,
+      name: r.name,
+      phone: r.rawPhone,
+      asset_name: r.asset_name,
+      documents: joinDocumentNames(r.documents),
+      asset_id: r.asset_id ?? "",
+      errors: r.errors.join("; "),
+    }));
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(report), "Errors");
+  XLSX.writeFile(wb, `${fileName.replace(/\.[^.]+$/, "")}_errors.xlsx`);
+}
@@ -0,0 +1,57 @@
+import { ServiceError, type ErrorSource } from "../errors";
+import type { LoginChallenge } from "./types";
+
+/* -----------------------------------------------------
+   Thrown when the gateway wants the login challenge
+   answered before it sends another code
+   ----------------------------------------------------- */
+export class ChallengeRequiredError extends Error {
+  constructor(public readonly challenge: LoginChallenge) {
+    super("Please answer the question below to continue.");
+    this.name = "ChallengeRequiredError";
+  }
+}
+
+// Thrown while the phone is locked out after too many wrong codes
+export class OtpLockedError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super("Too many wrong codes.");
+    this.name = "OtpLockedError";
+  }
+}
+
+/* -----------------------------------------------------
+   Request to the AuthenX gateway (server/). Errors come
+   back as { error, message }.
+   ----------------------------------------------------- */
+export async function callGateway<T>(
+  baseUrl: string,
+  path: string,
+  init: RequestInit,
+  source: ErrorSource
+): Promise<T> {
+  const res = await fetch(`${baseUrl}${path}`, init);
+  const json = await res.json().catch(() => ({}));
+  if (res.ok) return json as T;
+
+  if (json.error === "challenge_required") throw new ChallengeRequiredError(json.challenge);
+  if (json.error === "otp_locked") throw new OtpLockedError(Number(json.retry_after) || 0);
+  throw new ServiceError(
+    source,
+    `${path}: ${json.message ?? `HTTP ${res.status}`}`,
+    json.error,
+    res.status
+  );
+}
+
+export const postGateway = <T>(baseUrl: string, path: string, body: unknown, source: ErrorSource) =>
+  callGateway<T>(
+    baseUrl,
+    path,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    },
+    source
+  );
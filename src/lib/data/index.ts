@@ -0,0 +1,18 @@
+import { supabase } from "../../supabaseClient";
+import { DEMO_MODE, createDemoDataAccess } from "../demo";
+import { createSupabaseDataAccess } from "./supabase";
+import type { DataAccess } from "./types";
+
+export * from "./types";
+export { createSupabaseDataAccess } from "./supabase";
+export { DuplicatePhoneError } from "./users";
+export { ChallengeRequiredError, OtpLockedError } from "./gateway";
+export { createMemoryDataAccess, mockSeed, type MemorySeed } from "./memory";
+
+// server/ (npm run server); it calls the AI service itself
+const GATEWAY = import.meta.env.VITE_GATEWAY_URL || "http://127.0.0.1:8787";
+
+// Data layer used by the app
+export const db: DataAccess = DEMO_MODE
+  ? createDemoDataAccess()
+  : createSupabaseDataAccess(supabase, GATEWAY);
@@ -0,0 +1,1093 @@
+import { v4 as uuidv4 } from "uuid";
+import type {
+  Asset,
+  AssetStatus,
+  AssetTransition,
+  AuditAction,
+  AuditEvent,
+  AuditTargetType,
+  Bank,
+  Branch,
+  DocumentFile,
+  ItemReview,
+  Region,
+  RequiredDocument,
+  User,
+} from "../../types";
+import {
+  mockAssets,
+  mockBanks,
+  mockBeneficiaries,
+  mockBranches,
+  mockDocumentData,
+  mockDocumentFiles,
+  mockDocuments,
+  mockLoanManagers,
+  mockLoginEvents,
+  mockRegions,
+  mockSuperAdmins,
+  mockTransitions,
+} from "../mockData";
+import {
+  EVIDENCE_OPEN_STATUSES,
+  REVIEW_QUEUE_STATUSES,
+  assertTransition,
+  upgradeAssetStatus,
+} from "../assetLifecycle";
+import { AUDIT_PAGE_SIZE, auditSearchText, changedFields } from "../audit";
+import { documentStoragePath } from "../documents";
+import { ServiceError } from "../errors";
+import { LOCKOUT_SECONDS, MAX_WRONG_ATTEMPTS } from "../otpPolicy";
+import { normalizePhone, phoneLookupKeys, pickPhoneMatch } from "../phone";
+import { imageReviewRef, indexReviews, summarizeReview } from "../reviews";
+import type {
+  AssetFact,
+  AuthEvent,
+  AuthSession,
+  DataAccess,
+  LoginCount,
+  NewAuditEvent,
+} from "./types";
+import { DuplicatePhoneError, prepareNewUser } from "./users";
+import { OtpLockedError } from "./gateway";
+import { createStubVerifier, withVerdictLog } from "./verifier";
+
+/* -----------------------------------------------------
+   Plain-data snapshot of everything the memory store
+   holds (images are data: URLs keyed by asset id,
+   document files data: URLs keyed by storage path)
+   ----------------------------------------------------- */
+export interface MemorySeed {
+  users: User[];
+  banks: Bank[];
+  regions: Region[];
+  branches: Branch[];
+  assets: Asset[];
+  documents: RequiredDocument[];
+  documentFiles: DocumentFile[];
+  documentData: Record<string, string>;
+  reviews: ItemReview[];
+  transitions: AssetTransition[];
+  audit: AuditEvent[];
+  images: Record<string, string[]>;
+}
+
+// Collections added after the first demo release; older saved stores lack them
+const EMPTY_EXTRAS: Pick<
+  MemorySeed,
+  "regions" | "branches" | "documentFiles" | "documentData" | "reviews" | "transitions" | "audit"
+> = {
+  regions: [],
+  branches: [],
+  documentFiles: [],
+  documentData: {},
+  reviews: [],
+  transitions: [],
+  audit: [],
+};
+
+// The asset columns a beneficiary may change: the image and where it was taken
+const BENEFICIARY_ASSET_FIELDS = ["image_url", "latitude", "longitude", "location_address"];
+
+export function mockSeed(): MemorySeed {
+  const images: Record<string, string[]> = {};
+  for (const asset of mockAssets) {
+    if (asset.image_url) images[asset.id] = [asset.image_url];
+  }
+  return structuredClone({
+    users: [...mockSuperAdmins, ...mockLoanManagers, ...mockBeneficiaries],
+    banks: mockBanks,
+    regions: mockRegions,
+    branches: mockBranches,
+    assets: mockAssets,
+    documents: mockDocuments,
+    documentFiles: mockDocumentFiles,
+    documentData: mockDocumentData,
+    reviews: [],
+    transitions: mockTransitions,
+    audit: mockLoginEvents(),
+    images,
+  });
+}
+
+/* -----------------------------------------------------
+   Saved stores from before the branch hierarchy have one
+   bank row per branch. As in the migration, each becomes
+   a branch (same id) in an "Unassigned" region of the
+   first live bank with its name; the other rows go.
+   ----------------------------------------------------- */
+type FlatBank = Bank & { branch?: string; branch_manager?: string };
+
+function upgradeFlatBanks(store: MemorySeed) {
+  const rows = store.banks as FlatBank[];
+  if (!rows.some((b) => b.branch !== undefined)) return;
+
+  const key = (bank: Bank) => bank.name.trim().toLowerCase();
+  const live = [...rows].sort((a, b) => Number(!!a.deleted_at) - Number(!!b.deleted_at));
+  const bankOf = (row: Bank) => live.find((b) => key(b) === key(row))!;
+
+  for (const row of rows) {
+    const bank = bankOf(row);
+    let region = store.regions.find((r) => r.bank_id === bank.id && r.name === "Unassigned");
+    if (!region) {
+      region = { id: uuidv4(), bank_id: bank.id, name: "Unassigned" };
+      store.regions.push(region);
+    }
+    store.branches.push({
+      id: row.id,
+      bank_id: bank.id,
+      region_id: region.id,
+      name: row.branch ?? row.name,
+      branch_manager: row.branch_manager ?? "",
+    });
+    for (const user of store.users) {
+      if (user.bank_id !== row.id) continue;
+      if (user.role === "loanmanager") user.branch_id ??= row.id;
+      user.bank_id = bank.id;
+    }
+  }
+  store.banks = rows
+    .filter((row) => bankOf(row) === row)
+    .map(({ branch: _branch, branch_manager: _manager, ...bank }) => bank);
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export interface MemoryOptions {
+  // Fires after every write with the full store so callers can persist it
+  onChange?: (store: MemorySeed) => void;
+  // The one code verifyOtp accepts
+  otp?: string;
+  // localStorage key that keeps the session across reloads and tabs;
+  // without it the session lives in memory only
+  sessionKey?: string;
+}
+
+export const DEFAULT_MEMORY_OTP = "123456";
+
+/* -----------------------------------------------------
+   In-memory implementation of the data layer, for
+   running and testing the UI without Supabase or the
+   AI backend. Any registered phone can log in with
+   the fixed OTP; images are accepted by a stub.
+   ----------------------------------------------------- */
+export function createMemoryDataAccess(
+  seed: MemorySeed = mockSeed(),
+  { onChange, otp = DEFAULT_MEMORY_OTP, sessionKey }: MemoryOptions = {}
+): DataAccess {
+  const store: MemorySeed = { ...structuredClone(EMPTY_EXTRAS), ...structuredClone(seed) };
+  const changed = () => onChange?.(store);
+  // Rows are copied in and out so callers never mutate the store
+  const copy = <T>(value: T): T => structuredClone(value);
+
+  // Saved stores may predate the lifecycle statuses
+  for (const row of [...store.assets, ...store.users]) {
+    row.status = upgradeAssetStatus(row.status) as Asset["status"];
+  }
+  // ... and the bank lifecycle columns; beneficiaries go to whoever first
+  // opened one of their assets, as in the migration
+  for (const bank of store.banks) bank.deleted_at ??= null;
+  for (const user of store.users) {
+    user.deactivated_at ??= null;
+    user.branch_id ??= null;
+    user.loan_manager_id ??=
+      user.role !== "user"
+        ? null
+        : store.transitions
+            .filter(
+              (t) =>
+                t.to_status === "awaiting_evidence" &&
+                t.actor_role === "loanmanager" &&
+                store.assets.some((a) => a.id === t.asset_id && a.user_id === user.id)
+            )
+            .sort((a, b) => a.created_at.localeCompare(b.created_at))[0]?.actor_id ?? null;
+  }
+  upgradeFlatBanks(store);
+
+  /* ---------- session ---------- */
+  let session: AuthSession | null = null;
+  const listeners = new Set<(event: AuthEvent, session: AuthSession | null) => void>();
+
+  const readSession = (): AuthSession | null => {
+    if (!sessionKey) return session;
+    try {
+      const raw = localStorage.getItem(sessionKey);
+      return raw ? (JSON.parse(raw) as AuthSession) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const writeSession = (next: AuthSession | null) => {
+    session = next;
+    if (sessionKey) {
+      if (next) localStorage.setItem(sessionKey, JSON.stringify(next));
+      else localStorage.removeItem(sessionKey);
+    }
+    listeners.forEach((l) => l(next ? "SIGNED_IN" : "SIGNED_OUT", next));
+  };
+
+  // Wrong codes per phone, locked like the gateway locks them
+  const wrongCodes = new Map<string, { count: number; lockedUntil: number }>();
+  const assertNotLocked = (phone: string) => {
+    const lockedUntil = wrongCodes.get(phone)?.lockedUntil ?? 0;
+    if (lockedUntil > Date.now()) {
+      throw new OtpLockedError(Math.ceil((lockedUntil - Date.now()) / 1000));
+    }
+  };
+
+  const isRegistered = (phone: string) => {
+    const keys = phoneLookupKeys(phone);
+    return store.users.some((u) => keys.includes(u.phone) && !u.deactivated_at);
+  };
+
+  const findByPhone = async (phone: string) => {
+    const user = pickPhoneMatch(store.users, phone);
+    return user ? copy(user) : null;
+  };
+
+  const currentUser = () => {
+    const phone = readSession()?.phone;
+    return phone ? pickPhoneMatch(store.users.filter((u) => !u.deactivated_at), phone) : null;
+  };
+
+  /* ---------- bank management ---------- */
+  // The checks delete_bank() and friends make in the database
+  const grantable = (assetId: string) => {
+    const documents = store.documents.filter((d) => d.asset_id === assetId);
+    const files = Object.fromEntries(
+      documents.map((d) => [
+        d.id,
+        store.documentFiles
+          .filter((f) => f.document_id === d.id)
+          .sort((a, b) => b.version - a.version),
+      ])
+    );
+    const reviews = store.reviews
+      .filter((r) => r.asset_id === assetId)
+      .sort((a, b) => a.reviewed_at.localeCompare(b.reviewed_at));
+    return summarizeReview(documents, files, store.images[assetId] ?? [], indexReviews(reviews))
+      .grantable;
+  };
+
+  const requireSuperAdmin = (op: string) => {
+    if (currentUser()?.role !== "superadmin") {
+      throw new ServiceError("database", `${op}: super admins only`, "42501");
+    }
+  };
+
+  const successor = (op: string, id: string) => {
+    const user = store.users.find(
+      (u) => u.id === id && u.role === "loanmanager" && !u.deactivated_at
+    );
+    const bank = store.banks.find((b) => b.id === user?.bank_id && !b.deleted_at);
+    if (!user || !bank) {
+      throw new ServiceError("database", `${op}: successor ${id} is not an active loan manager`, "23514");
+    }
+    return user;
+  };
+
+  // Moves the matching beneficiaries to the successor and logs it
+  const handOver = (
+    matches: (u: User) => boolean,
+    to: User,
+    target: { type: AuditTargetType; id: string }
+  ) => {
+    const moving = store.users.filter((u) => u.role === "user" && matches(u));
+    for (const user of moving) {
+      user.loan_manager_id = to.id;
+      user.bank_id = to.bank_id;
+    }
+    if (moving.length > 0) {
+      log("user.transfer", target.type, target.id, null, null, {
+        to: to.id,
+        to_name: to.name,
+        bank_id: to.bank_id,
+        beneficiaries: moving.length,
+      });
+    }
+    return moving.length;
+  };
+
+  const deactivateUser = (user: User, successorId: string | null) => {
+    user.deactivated_at = new Date().toISOString();
+    log("user.deactivate", "user", user.id, null, null, {
+      name: user.name,
+      role: user.role,
+      bank_id: user.bank_id,
+      successor: successorId,
+    });
+  };
+
+  /* ---------- audit ---------- */
+  // Every write is logged against the signed-in user, like the database triggers do
+  const log = (
+    action: AuditAction,
+    target_type: AuditTargetType,
+    target_id: string | null,
+    asset_id: string | null,
+    before: Record<string, unknown> | null,
+    after: Record<string, unknown> | null
+  ) => {
+    const actor = currentUser();
+    store.audit.push({
+      id: uuidv4(),
+      action,
+      actor_id: actor?.id ?? null,
+      actor_name: actor?.name ?? null,
+      actor_role: actor?.role ?? null,
+      target_type,
+      target_id,
+      asset_id,
+      before,
+      after,
+      created_at: new Date().toISOString(),
+    });
+  };
+
+  const recordAudit = async (input: NewAuditEvent) => {
+    const { action, target_type, target_id = null, asset_id = null, after = null } = input;
+    log(action, target_type, target_id, asset_id, null, after);
+    changed();
+  };
+
+  // Stands in for the gateway's AI check
+  const verifier = withVerdictLog(createStubVerifier(), recordAudit);
+
+  const data: DataAccess = {
+    auth: {
+      // Same answers for unknown phones as the gateway gives
+      async sendOtp(phone) {
+        assertNotLocked(phone);
+        wrongCodes.delete(phone);
+        if (isRegistered(phone)) console.log(`ℹ️ Demo OTP for ${phone}: ${otp}`);
+      },
+
+      async verifyOtp(phone, token) {
+        assertNotLocked(phone);
+        if (token !== otp || !isRegistered(phone)) {
+          const count = (wrongCodes.get(phone)?.count ?? 0) + 1;
+          const lockedUntil = count >= MAX_WRONG_ATTEMPTS ? Date.now() + LOCKOUT_SECONDS * 1000 : 0;
+          wrongCodes.set(phone, { count, lockedUntil });
+          assertNotLocked(phone);
+          throw new ServiceError("auth", "Token has expired or is invalid", "invalid_code", 401);
+        }
+        wrongCodes.delete(phone);
+        const next = { phone: normalizePhone(phone) };
+        writeSession(next);
+        log("auth.login", "user", null, null, null, null);
+        changed();
+        return next;
+      },
+
+      async getSession() {
+        session = readSession();
+        return session;
+      },
+
+      onChange(listener) {
+        listeners.add(listener);
+        // Sign-in / sign-out in another tab
+        const onStorage = (e: StorageEvent) => {
+          if (!sessionKey || e.key !== sessionKey) return;
+          session = readSession();
+          listener(session ? "SIGNED_IN" : "SIGNED_OUT", session);
+        };
+        window.addEventListener("storage", onStorage);
+        return () => {
+          listeners.delete(listener);
+          window.removeEventListener("storage", onStorage);
+        };
+      },
+
+      async signOut() {
+        writeSession(null);
+      },
+    },
+
+    users: {
+      findByPhone,
+
+      async listByRole(role) {
+        return copy(store.users.filter((u) => u.role === role));
+      },
+
+      async listByBank(bankId, role) {
+        return copy(store.users.filter((u) => u.bank_id === bankId && u.role === role));
+      },
+
+      async countByRole(role) {
+        return store.users.filter((u) => u.role === role && !u.deactivated_at).length;
+      },
+
+      async findOwners(phones) {
+        return store.users
+          .filter((u) => phones.includes(u.phone))
+          .map((u) => ({ phone: u.phone, user: copy(u) }));
+      },
+
+      async create(input) {
+        const valid = await prepareNewUser(input, findByPhone);
+        const actor = currentUser();
+        const user: User = {
+          status: null,
+          asset: null,
+          bank_id: null,
+          // A beneficiary added by a loan manager is theirs
+          loan_manager_id: valid.role === "user" && actor?.role === "loanmanager" ? actor.id : null,
+          branch_id: null,
+          ...valid,
+          deactivated_at: null,
+          id: uuidv4(),
+        };
+        // A loan manager's bank is their branch's
+        const branch = store.branches.find((b) => b.id === user.branch_id);
+        if (branch) user.bank_id = branch.bank_id;
+        store.users.push(user);
+        log("user.create", "user", user.id, null, null, {
+          name: user.name,
+          phone: user.phone,
+          role: user.role,
+          bank_id: user.bank_id,
+        });
+        changed();
+        return copy(user);
+      },
+
+      // Same checks as add_beneficiary(); a failed step puts the store
+      // back the way it was
+      async addBeneficiary({ name, phone, asset_name, documents }) {
+        const actor = currentUser();
+        if (actor?.role !== "loanmanager" || !actor.bank_id) {
+          throw new ServiceError(
+            "database",
+            "users.addBeneficiary: only loan managers linked to a bank can add beneficiaries",
+            "42501"
+          );
+        }
+        const existing = await findByPhone(phone);
+        if (existing && (existing.role !== "user" || existing.bank_id !== actor.bank_id)) {
+          throw new DuplicatePhoneError(phone, existing.role !== "user" ? existing : null);
+        }
+        const snapshot = copy(store);
+        try {
+          const user =
+            existing ??
+            (await data.users.create({
+              name,
+              phone,
+              role: "user",
+              status: "awaiting_evidence",
+              asset: asset_name,
+              bank_id: actor.bank_id,
+            }));
+          const asset = await data.assets.create({
+            user_id: user.id,
+            asset_name,
+            issued_date: new Date().toISOString().split("T")[0],
+          });
+          await data.documents.createMany(asset.id, documents);
+          await data.assets.transition({ asset, to: "awaiting_evidence", actor });
+          return { user, added_to_existing: existing !== null };
+        } catch (err) {
+          Object.assign(store, snapshot);
+          changed();
+          throw err;
+        }
+      },
+
+      async transferBeneficiaries(fromId, toId) {
+        requireSuperAdmin("users.transferBeneficiaries");
+        if (fromId === toId) {
+          throw new ServiceError(
+            "database",
+            "users.transferBeneficiaries: pick another loan manager",
+            "23514"
+          );
+        }
+        const to = successor("users.transferBeneficiaries", toId);
+        const moved = handOver((u) => u.loan_manager_id === fromId, to, { type: "user", id: fromId });
+        changed();
+        return moved;
+      },
+
+      async deactivate(id, successorId) {
+        requireSuperAdmin("users.deactivate");
+        const manager = store.users.find(
+          (u) => u.id === id && u.role === "loanmanager" && !u.deactivated_at
+        );
+        if (!manager) {
+          throw new ServiceError("database", `users.deactivate: ${id} is not an active loan manager`, "P0002");
+        }
+        let moved = 0;
+        if (successorId) {
+          moved = await data.users.transferBeneficiaries(id, successorId);
+        } else if (store.users.some((u) => u.role === "user" && u.loan_manager_id === id)) {
+          throw new ServiceError(
+            "database",
+            `users.deactivate: ${manager.name} still has beneficiaries, pick a successor`,
+            "23514"
+          );
+        }
+        deactivateUser(manager, successorId);
+        changed();
+        return moved;
+      },
+
+      async assignBranch(id, branchId) {
+        requireSuperAdmin("users.assignBranch");
+        const manager = store.users.find(
+          (u) => u.id === id && u.role === "loanmanager" && !u.deactivated_at
+        );
+        if (!manager) {
+          throw new ServiceError("database", `users.assignBranch: ${id} is not an active loan manager`, "P0002");
+        }
+        const branch = store.branches.find((b) => b.id === branchId);
+        if (!branch || branch.bank_id !== manager.bank_id) {
+          throw new ServiceError(
+            "database",
+            `users.assignBranch: the branch must belong to ${manager.name}'s bank`,
+            "23514"
+          );
+        }
+        if (manager.branch_id === branchId) return;
+        log("user.update", "user", id, null, { branch_id: manager.branch_id }, {
+          branch_id: branchId,
+          name: manager.name,
+          branch: branch.name,
+        });
+        manager.branch_id = branchId;
+        changed();
+      },
+    },
+
+    banks: {
+      async list() {
+        return copy(store.banks);
+      },
+
+      async create(input) {
+        const bank: Bank = { ...input, deleted_at: null, id: uuidv4() };
+        store.banks.push(bank);
+        log("bank.create", "bank", bank.id, null, null, { ...input });
+        changed();
+        return copy(bank);
+      },
+
+      async update(id, patch) {
+        const bank = store.banks.find((b) => b.id === id);
+        if (!bank) throw new ServiceError("database", `banks.update: no bank ${id}`, "P0002");
+        const diff = changedFields(bank, patch);
+        Object.assign(bank, patch);
+        if (diff) log("bank.update", "bank", id, null, diff.before, diff.after);
+        changed();
+        return copy(bank);
+      },
+
+      async remove(id, successorId) {
+        requireSuperAdmin("banks.remove");
+        const bank = store.banks.find((b) => b.id === id && !b.deleted_at);
+        if (!bank) throw new ServiceError("database", `banks.remove: bank ${id} does not exist`, "P0002");
+        if (successorId) {
+          const to = successor("banks.remove", successorId);
+          if (to.bank_id === id) {
+            throw new ServiceError(
+              "database",
+              "banks.remove: the successor must work for another bank",
+              "23514"
+            );
+          }
+          handOver((u) => u.bank_id === id, to, { type: "bank", id });
+        }
+        for (const manager of store.users) {
+          if (manager.bank_id === id && manager.role === "loanmanager" && !manager.deactivated_at) {
+            deactivateUser(manager, successorId);
+          }
+        }
+        bank.deleted_at = new Date().toISOString();
+        log("bank.delete", "bank", id, null, null, { name: bank.name });
+        changed();
+      },
+    },
+
+    regions: {
+      async list() {
+        return copy([...store.regions].sort((a, b) => a.name.localeCompare(b.name)));
+      },
+
+      async create(input) {
+        if (store.regions.some((r) => r.bank_id === input.bank_id && r.name === input.name)) {
+          throw new ServiceError("database", `regions.create: ${input.name} already exists`, "23505");
+        }
+        const region: Region = { ...input, id: uuidv4() };
+        store.regions.push(region);
+        log("region.create", "region", region.id, null, null, { ...input });
+        changed();
+        return copy(region);
+      },
+    },
+
+    branches: {
+      async list() {
+        return copy([...store.branches].sort((a, b) => a.name.localeCompare(b.name)));
+      },
+
+      async create(input) {
+        const region = store.regions.find((r) => r.id === input.region_id);
+        if (region?.bank_id !== input.bank_id) {
+          throw new ServiceError("database", "branches.create: the region belongs to another bank", "23503");
+        }
+        if (store.branches.some((b) => b.region_id === input.region_id && b.name === input.name)) {
+          throw new ServiceError("database", `branches.create: ${input.name} already exists`, "23505");
+        }
+        const branch: Branch = { ...input, id: uuidv4() };
+        store.branches.push(branch);
+        log("branch.create", "branch", branch.id, null, null, { ...input });
+        changed();
+        return copy(branch);
+      },
+
+      async update(id, patch) {
+        const branch = store.branches.find((b) => b.id === id);
+        if (!branch) throw new ServiceError("database", `branches.update: no branch ${id}`, "P0002");
+        const region = store.regions.find((r) => r.id === (patch.region_id ?? branch.region_id));
+        if (region?.bank_id !== branch.bank_id) {
+          throw new ServiceError("database", "branches.update: the region belongs to another bank", "23503");
+        }
+        const diff = changedFields(branch, patch);
+        Object.assign(branch, patch);
+        if (diff) log("branch.update", "branch", id, null, diff.before, diff.after);
+        changed();
+        return copy(branch);
+      },
+    },
+
+    assets: {
+      async listByUser(userId) {
+        return copy(
+          store.assets
+            .filter((a) => a.user_id === userId)
+            .sort((a, b) => (b.created_at ?? "").localeCompare(a.created_at ?? ""))
+        );
+      },
+
+      async listByUsers(userIds) {
+        return copy(
+          store.assets
+            .filter((a) => userIds.includes(a.user_id))
+            .sort((a, b) => (b.created_at ?? "").localeCompare(a.created_at ?? ""))
+        );
+      },
+
+      async create(input) {
+        const asset: Asset = {
+          status: "draft",
+          issued_date: null,
+          image_url: null,
+          latitude: null,
+          longitude: null,
+          location_address: null,
+          verified_at: null,
+          ...input,
+          id: uuidv4(),
+          created_at: new Date().toISOString(),
+        };
+        store.assets.push(asset);
+        log("asset.create", "asset", asset.id, asset.id, null, {
+          user_id: asset.user_id,
+          asset_name: asset.asset_name,
+          status: asset.status,
+        });
+        changed();
+        return copy(asset);
+      },
+
+      async update(id, patch) {
+        const asset = store.assets.find((a) => a.id === id);
+        if (!asset) throw new Error(`assets.update: no asset ${id}`);
+        const diff = changedFields(asset, patch);
+        // As guard_asset_status() in the database
+        if ("verified_at" in (diff?.after ?? {})) {
+          throw new ServiceError(
+            "database",
+            "assets.status changes must go through transition_asset()",
+            "23514"
+          );
+        }
+        if (
+          currentUser()?.role === "user" &&
+          Object.keys(diff?.after ?? {}).some((k) => !BENEFICIARY_ASSET_FIELDS.includes(k))
+        ) {
+          throw new ServiceError(
+            "database",
+            "assets: beneficiaries can only change the image and its location",
+            "42501"
+          );
+        }
+        Object.assign(asset, patch);
+        if (diff) log("asset.update", "asset", id, id, diff.before, diff.after);
+        changed();
+      },
+
+      async transition({ asset: seen, to, actor, reason = null }) {
+        const asset = store.assets.find((a) => a.id === seen.id);
+        const owner = store.users.find((u) => u.id === asset?.user_id);
+        const me = store.users.find((u) => u.id === actor.id);
+        // As transition_asset() in the database: the owner, their bank's
+        // loan managers and super admins only
+        const mayMove =
+          actor.role === "superadmin" ||
+          owner?.id === actor.id ||
+          (actor.role === "loanmanager" &&
+            owner?.role === "user" &&
+            !!owner.bank_id &&
+            owner.bank_id === me?.bank_id);
+        if (!asset || !mayMove) {
+          throw new ServiceError("database", `assets.transition: no asset ${seen.id}`, "P0002");
+        }
+        if (asset.status !== seen.status) {
+          throw new ServiceError(
+            "database",
+            `assets.transition: ${asset.id} is ${asset.status}, not ${seen.status}`,
+            "40001"
+          );
+        }
+        assertTransition(asset.status, to, actor.role, reason);
+        // As asset_grantable() in the database
+        if (to === "authenticated" && !grantable(asset.id)) {
+          throw new ServiceError(
+            "database",
+            `assets.transition: every document and image of ${asset.id} must be accepted first`,
+            "23514"
+          );
+        }
+
+        const transition: AssetTransition = {
+          id: uuidv4(),
+          asset_id: asset.id,
+          from_status: asset.status,
+          to_status: to,
+          actor_id: actor.id,
+          actor_role: actor.role,
+          reason: reason?.trim() || null,
+          created_at: new Date().toISOString(),
+        };
+        asset.status = to;
+        if (to === "authenticated") asset.verified_at = transition.created_at;
+        store.transitions.push(transition);
+        log(
+          "asset.transition",
+          "asset",
+          asset.id,
+          asset.id,
+          { status: transition.from_status },
+          { status: to, reason: transition.reason }
+        );
+        changed();
+        return copy(transition);
+      },
+
+      async listTransitions(assetId) {
+        return copy(
+          store.transitions
+            .filter((t) => t.asset_id === assetId)
+            .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        );
+      },
+    },
+
+    documents: {
+      async listByAsset(assetId) {
+        return copy(store.documents.filter((d) => d.asset_id === assetId));
+      },
+
+      async listByAssets(assetIds) {
+        return copy(store.documents.filter((d) => assetIds.includes(d.asset_id)));
+      },
+
+      async createMany(assetId, documentNames) {
+        for (const document_name of documentNames) {
+          store.documents.push({
+            id: uuidv4(),
+            asset_id: assetId,
+            document_name,
+            is_uploaded: false,
+            uploaded_at: null,
+          });
+        }
+        changed();
+      },
+
+      async listFiles(assetId) {
+        return copy(
+          store.documentFiles
+            .filter((f) => f.asset_id === assetId)
+            .sort((a, b) => b.version - a.version)
+        );
+      },
+
+      async upload(document, file) {
+        const doc = store.documents.find((d) => d.id === document.id);
+        if (!doc) throw new Error(`documents.upload: no document ${document.id}`);
+
+        const version =
+          Math.max(0, ...store.documentFiles.filter((f) => f.document_id === doc.id).map((f) => f.version)) + 1;
+        const storage_path = documentStoragePath(doc.asset_id, doc.id, version, file.name);
+        const row: DocumentFile = {
+          id: uuidv4(),
+          document_id: doc.id,
+          asset_id: doc.asset_id,
+          version,
+          file_name: file.name,
+          mime_type: file.type,
+          size_bytes: file.size,
+          storage_path,
+          uploaded_at: new Date().toISOString(),
+        };
+        store.documentData[storage_path] = await blobToDataUrl(file);
+        store.documentFiles.push(row);
+        // As sync_document_uploaded() does in the database
+        doc.is_uploaded = true;
+        doc.uploaded_at = row.uploaded_at;
+        log("document.upload", "document", row.id, doc.asset_id, null, {
+          document_name: doc.document_name,
+          file_name: row.file_name,
+          version,
+        });
+        changed();
+        return copy(row);
+      },
+
+      async fileUrl(file) {
+        const dataUrl = store.documentData[file.storage_path];
+        if (!dataUrl) throw new Error(`documents.fileUrl: no data for ${file.storage_path}`);
+        // Browsers refuse to open data: URLs in a new tab; blob: URLs work
+        const blob = await (await fetch(dataUrl)).blob();
+        return URL.createObjectURL(blob);
+      },
+    },
+
+    reviews: {
+      async listByAsset(assetId) {
+        return copy(store.reviews.filter((r) => r.asset_id === assetId));
+      },
+
+      async record(input) {
+        const review: ItemReview = { ...input, id: uuidv4(), reviewed_at: new Date().toISOString() };
+        store.reviews.push(review);
+        log("review.record", "review", review.id, review.asset_id, null, {
+          item_type: review.item_type,
+          item_ref: review.item_ref,
+          decision: review.decision,
+          reason: review.reason,
+          note: review.note,
+        });
+        changed();
+        return copy(review);
+      },
+    },
+
+    audit: {
+      record: recordAudit,
+
+      async listByAsset(assetId) {
+        return copy(store.audit.filter((e) => e.asset_id === assetId));
+      },
+
+      async search({ text, action, limit = AUDIT_PAGE_SIZE }) {
+        const needle = text?.trim().toLowerCase();
+        return copy(
+          store.audit
+            .filter((e) => !action || e.action === action)
+            .filter((e) => !needle || auditSearchText(e).includes(needle))
+            .reverse()
+            .slice(0, limit)
+        );
+      },
+    },
+
+    analytics: {
+      async loginCounts(from, to) {
+        const counts = new Map<string, LoginCount>();
+        for (const event of store.audit) {
+          const at = new Date(event.created_at);
+          if (event.action !== "auth.login" || !event.actor_role || at < from || at > to) continue;
+          const bank_id = store.users.find((u) => u.id === event.actor_id)?.bank_id ?? null;
+          const day = event.created_at.slice(0, 10);
+          const key = `${day}|${event.actor_role}|${bank_id}`;
+          const count = counts.get(key) ?? { day, role: event.actor_role, bank_id, logins: 0 };
+          count.logins += 1;
+          counts.set(key, count);
+        }
+        return [...counts.values()];
+      },
+
+      async assetFacts(from, to) {
+        const facts: AssetFact[] = [];
+        for (const asset of store.assets) {
+          if (!asset.created_at) continue;
+          const created = new Date(asset.created_at);
+          if ((from && created < from) || created > to) continue;
+
+          const moves = store.transitions
+            .filter((t) => t.asset_id === asset.id)
+            .sort((a, b) => a.created_at.localeCompare(b.created_at));
+          const verdicts = store.audit.filter(
+            (e) => e.action === "image.verify" && e.asset_id === asset.id
+          );
+          const last = (statuses: AssetStatus[]) =>
+            moves.filter((t) => statuses.includes(t.to_status)).pop()?.created_at ?? null;
+
+          facts.push({
+            asset_id: asset.id,
+            bank_id: store.users.find((u) => u.id === asset.user_id)?.bank_id ?? null,
+            loan_manager_id: moves.find((t) => t.to_status === "awaiting_evidence")?.actor_id ?? null,
+            status: asset.status,
+            created_at: asset.created_at,
+            submitted_at: moves.find((t) => t.to_status === "submitted")?.created_at ?? null,
+            decided_at: last(["authenticated", "rejected"]),
+            queued_at: REVIEW_QUEUE_STATUSES.includes(asset.status)
+              ? last(["submitted", "resubmitted"])
+              : null,
+            ai_checks: verdicts.length,
+            ai_rejections: verdicts.filter((e) => e.after?.is_real === false).length,
+          });
+        }
+        return facts;
+      },
+    },
+
+    imports: {
+      // Same checks as import_beneficiaries(); a failed row puts the
+      // store back the way it was
+      async beneficiaries({ file, rows }) {
+        const actor = currentUser();
+        if (actor?.role !== "loanmanager" || !actor.bank_id) {
+          throw new ServiceError(
+            "database",
+            "imports.beneficiaries: only loan managers linked to a bank can import",
+            "42501"
+          );
+        }
+        const snapshot = copy(store);
+        const result = { users_created: 0, assets_created: 0, assets_updated: 0 };
+        try {
+          for (const row of rows) {
+            let user = await findByPhone(row.phone);
+            if (user && (user.role !== "user" || user.bank_id !== actor.bank_id)) {
+              throw new ServiceError(
+                "database",
+                `imports.beneficiaries: row ${row.row}: ${row.phone} is already registered`,
+                "23505"
+              );
+            }
+            const stored = user && store.users.find((u) => u.id === user?.id);
+            if (stored && stored.name !== row.name) {
+              log("user.update", "user", stored.id, null, { name: stored.name }, { name: row.name });
+              stored.name = row.name;
+              user = copy(stored);
+            }
+            if (!user) {
+              user = await data.users.create({
+                name: row.name,
+                phone: row.phone,
+                role: "user",
+                status: "awaiting_evidence",
+                asset: row.asset_name,
+                bank_id: actor.bank_id,
+              });
+              result.users_created += 1;
+            }
+            if (row.asset_id) {
+              const asset = store.assets.find((a) => a.id === row.asset_id && a.user_id === user.id);
+              if (!asset) {
+                throw new ServiceError(
+                  "database",
+                  `imports.beneficiaries: row ${row.row}: asset ${row.asset_id} is not ${user.name}'s`,
+                  "P0002"
+                );
+              }
+              if (asset.asset_name !== row.asset_name) {
+                await data.assets.update(asset.id, { asset_name: row.asset_name });
+              }
+              const listed = store.documents
+                .filter((d) => d.asset_id === asset.id)
+                .map((d) => d.document_name.toLowerCase());
+              await data.documents.createMany(
+                asset.id,
+                row.documents.filter((d) => !listed.includes(d.toLowerCase()))
+              );
+              result.assets_updated += 1;
+              continue;
+            }
+            const asset = await data.assets.create({
+              user_id: user.id,
+              asset_name: row.asset_name,
+              issued_date: new Date().toISOString().split("T")[0],
+            });
+            result.assets_created += 1;
+            await data.documents.createMany(asset.id, row.documents);
+            await data.assets.transition({ asset, to: "awaiting_evidence", actor });
+          }
+        } catch (err) {
+          Object.assign(store, snapshot);
+          changed();
+          throw err;
+        }
+        log("import.excel", "import", file, null, null, {
+          file,
+          rows: rows.length,
+          added: result.assets_created,
+          updated: result.assets_updated,
+          new_users: result.users_created,
+          names: rows.map((r) => r.name),
+        });
+        changed();
+        return result;
+      },
+    },
+
+    images: {
+      async list(assetId) {
+        return [...(store.images[assetId] ?? [])];
+      },
+
+      async submit(assetId, image) {
+        const verdict = await verifier.verify(assetId, image);
+        if (!verdict.isReal) return { ...verdict, url: null };
+        const url = await blobToDataUrl(image);
+        store.images[assetId] = [...(store.images[assetId] ?? []), url];
+        log("image.upload", "image", imageReviewRef(url), assetId, null, null);
+        changed();
+        return { ...verdict, url };
+      },
+
+      async remove(url) {
+        for (const assetId of Object.keys(store.images)) {
+          if (!store.images[assetId].includes(url)) continue;
+          // As the gateway's DELETE /images route
+          const status = store.assets.find((a) => a.id === assetId)?.status;
+          if (!status || !EVIDENCE_OPEN_STATUSES.includes(status)) {
+            throw new ServiceError(
+              "storage",
+              "images.remove: This asset no longer takes photos.",
+              "evidence_closed",
+              409
+            );
+          }
+          store.images[assetId] = store.images[assetId].filter((u) => u !== url);
+          log("image.delete", "image", imageReviewRef(url), assetId, null, null);
+        }
+        changed();
+      },
+    },
+  };
+  return data;
+}
@@ -0,0 +1,628 @@
+import type { AuthError, PostgrestError, Session, SupabaseClient } from "@supabase/supabase-js";
+import {
+  ASSET_COLUMNS,
+  ASSET_TRANSITION_COLUMNS,
+  AUDIT_EVENT_COLUMNS,
+  BANK_COLUMNS,
+  BRANCH_COLUMNS,
+  DOCUMENT_FILE_COLUMNS,
+  ITEM_REVIEW_COLUMNS,
+  REGION_COLUMNS,
+  REQUIRED_DOCUMENT_COLUMNS,
+  USER_COLUMNS,
+  parseAddedBeneficiary,
+  parseAsset,
+  parseAssetFact,
+  parseAssetTransition,
+  parseAuditEvent,
+  parseBank,
+  parseBranch,
+  parseLoginCount,
+  parseDocumentFile,
+  parseImportResult,
+  parseItemReview,
+  parseRegion,
+  parseRequiredDocument,
+  parseRows,
+  parseUser,
+} from "../schema";
+import { assertTransition } from "../assetLifecycle";
+import { AUDIT_PAGE_SIZE } from "../audit";
+import { documentStoragePath } from "../documents";
+import { ServiceError, type ErrorSource } from "../errors";
+import { phoneLookupKeys, pickPhoneMatch } from "../phone";
+import { callGateway, postGateway } from "./gateway";
+import type { AuthSession, DataAccess, NewAuditEvent } from "./types";
+import { DuplicatePhoneError, prepareNewUser } from "./users";
+
+const IMAGE_BUCKET = "asset-images";
+// Private bucket; files are served through signed URLs
+const DOCUMENT_BUCKET = "asset-documents";
+const SIGNED_URL_SECONDS = 60 * 60;
+
+// Turns a PostgREST / storage error into a thrown ServiceError
+function check(
+  op: string,
+  error: PostgrestError | Error | null,
+  source: ErrorSource = "database"
+) {
+  if (!error) return;
+  const { code, status } = error as { code?: string; status?: number };
+  throw new ServiceError(source, `${op}: ${error.message}`, code, status);
+}
+
+function authFailure(error: AuthError): ServiceError {
+  return new ServiceError("auth", error.message, error.code, error.status);
+}
+
+// Supabase stores auth phones without the leading "+"
+function toAuthSession(session: Session | null): AuthSession | null {
+  const raw = session?.user?.phone;
+  if (!raw) return null;
+  return { phone: raw.startsWith("+") ? raw : "+" + raw };
+}
+
+/* -----------------------------------------------------
+   Supabase-backed implementation of the data layer;
+   sign-in and image uploads go through the gateway at
+   gatewayUrl, which calls the AI service itself
+   ----------------------------------------------------- */
+export function createSupabaseDataAccess(
+  client: SupabaseClient,
+  gatewayUrl: string
+): DataAccess {
+  const publicUrl = (path: string) =>
+    client.storage.from(IMAGE_BUCKET).getPublicUrl(path).data.publicUrl;
+
+  const findByPhone = async (phone: string) => {
+    const { data, error } = await client
+      .from("users")
+      .select(USER_COLUMNS)
+      .in("phone", phoneLookupKeys(phone));
+    check("users.findByPhone", error);
+    const row = pickPhoneMatch(data ?? [], phone);
+    return row ? parseUser(row) : null;
+  };
+
+  const recordAudit = async (input: NewAuditEvent) => {
+    const { error } = await client.from("audit_events").insert([input]);
+    check("audit.record", error);
+  };
+
+  return {
+    auth: {
+      // The gateway checks the phone is registered; the browser can't
+      async sendOtp(phone, challenge) {
+        await postGateway(gatewayUrl, "/auth/otp", { phone, challenge }, "auth");
+      },
+
+      async verifyOtp(phone, token) {
+        const tokens = await postGateway<{ access_token: string; refresh_token: string }>(
+          gatewayUrl,
+          "/auth/verify",
+          { phone, token },
+          "auth"
+        );
+        const { data, error } = await client.auth.setSession(tokens);
+        if (error) throw authFailure(error);
+        const session = toAuthSession(data.session);
+        if (!session) throw new ServiceError("auth", "No session returned after verification");
+        // The gateway has recorded the auth.login event
+        return session;
+      },
+
+      async getSession() {
+        const { data, error } = await client.auth.getSession();
+        if (error) throw authFailure(error);
+        return toAuthSession(data.session);
+      },
+
+      onChange(listener) {
+        const {
+          data: { subscription },
+        } = client.auth.onAuthStateChange((event, session) => {
+          if (event === "INITIAL_SESSION") return; // covered by getSession()
+          if (event === "TOKEN_REFRESHED") return listener("TOKEN_REFRESHED", toAuthSession(session));
+          const authSession = toAuthSession(session);
+          listener(authSession ? "SIGNED_IN" : "SIGNED_OUT", authSession);
+        });
+        return () => subscription.unsubscribe();
+      },
+
+      async signOut() {
+        await client.auth.signOut();
+      },
+    },
+
+    users: {
+      findByPhone,
+
+      async listByRole(role) {
+        const { data, error } = await client
+          .from("users")
+          .select(USER_COLUMNS)
+          .eq("role", role);
+        check("users.listByRole", error);
+        return parseRows(parseUser, data);
+      },
+
+      async listByBank(bankId, role) {
+        const { data, error } = await client
+          .from("users")
+          .select(USER_COLUMNS)
+          .eq("bank_id", bankId)
+          .eq("role", role);
+        check("users.listByBank", error);
+        return parseRows(parseUser, data);
+      },
+
+      async countByRole(role) {
+        const { count, error } = await client
+          .from("users")
+          .select("*", { count: "exact", head: true })
+          .eq("role", role)
+          .is("deactivated_at", null);
+        check("users.countByRole", error);
+        return count || 0;
+      },
+
+      // registered_phones() sees every bank; the select only the caller's
+      async findOwners(phones) {
+        if (phones.length === 0) return [];
+        const { data: taken, error } = await client.rpc("registered_phones", { p_phones: phones });
+        check("users.findOwners", error);
+        const registered = (taken ?? []) as string[];
+        if (registered.length === 0) return [];
+        const { data, error: selectError } = await client
+          .from("users")
+          .select(USER_COLUMNS)
+          .in("phone", registered);
+        check("users.findOwners", selectError);
+        const visible = parseRows(parseUser, data);
+        return registered.map((phone) => ({
+          phone,
+          user: visible.find((u) => u.phone === phone) ?? null,
+        }));
+      },
+
+      async create(input) {
+        const valid = await prepareNewUser(input, findByPhone);
+        const { data, error } = await client
+          .from("users")
+          .insert([valid])
+          .select(USER_COLUMNS)
+          .single();
+        // Row-level security hides other banks' beneficiaries from findByPhone
+        if (error?.code === "23505") throw new DuplicatePhoneError(valid.phone, null);
+        check("users.create", error);
+        return parseUser(data);
+      },
+
+      // add_beneficiary() writes the user, asset, checklist and opening
+      // transition in one transaction
+      async addBeneficiary({ name, phone, asset_name, documents }) {
+        const { data, error } = await client.rpc("add_beneficiary", {
+          p_name: name,
+          p_phone: phone,
+          p_asset_name: asset_name,
+          p_documents: documents,
+        });
+        // Null when the owner is in a bank the caller may not see
+        if (error?.code === "23505") throw new DuplicatePhoneError(phone, await findByPhone(phone));
+        check("users.addBeneficiary", error);
+        return parseAddedBeneficiary(data);
+      },
+
+      async transferBeneficiaries(fromId, toId) {
+        const { data, error } = await client.rpc("transfer_beneficiaries", {
+          p_from: fromId,
+          p_to: toId,
+        });
+        check("users.transferBeneficiaries", error);
+        return Number(data ?? 0);
+      },
+
+      // deactivate_loan_manager() refuses to strand beneficiaries
+      async deactivate(id, successorId) {
+        const { data, error } = await client.rpc("deactivate_loan_manager", {
+          p_id: id,
+          p_successor: successorId,
+        });
+        check("users.deactivate", error);
+        return Number(data ?? 0);
+      },
+
+      async assignBranch(id, branchId) {
+        const { error } = await client.rpc("assign_branch", { p_user: id, p_branch: branchId });
+        check("users.assignBranch", error);
+      },
+    },
+
+    banks: {
+      async list() {
+        const { data, error } = await client.from("banks").select(BANK_COLUMNS);
+        check("banks.list", error);
+        return parseRows(parseBank, data);
+      },
+
+      async create(input) {
+        const { data, error } = await client
+          .from("banks")
+          .insert([input])
+          .select(BANK_COLUMNS)
+          .single();
+        check("banks.create", error);
+        return parseBank(data);
+      },
+
+      async update(id, patch) {
+        const { data, error } = await client
+          .from("banks")
+          .update(patch)
+          .eq("id", id)
+          .select(BANK_COLUMNS)
+          .single();
+        check("banks.update", error);
+        return parseBank(data);
+      },
+
+      // delete_bank() does the hand-over and the deactivations in one transaction
+      async remove(id, successorId) {
+        const { error } = await client.rpc("delete_bank", { p_id: id, p_successor: successorId });
+        check("banks.remove", error);
+      },
+    },
+
+    regions: {
+      async list() {
+        const { data, error } = await client
+          .from("regions")
+          .select(REGION_COLUMNS)
+          .order("name", { ascending: true });
+        check("regions.list", error);
+        return parseRows(parseRegion, data);
+      },
+
+      async create(input) {
+        const { data, error } = await client
+          .from("regions")
+          .insert([input])
+          .select(REGION_COLUMNS)
+          .single();
+        check("regions.create", error);
+        return parseRegion(data);
+      },
+    },
+
+    branches: {
+      async list() {
+        const { data, error } = await client
+          .from("branches")
+          .select(BRANCH_COLUMNS)
+          .order("name", { ascending: true });
+        check("branches.list", error);
+        return parseRows(parseBranch, data);
+      },
+
+      async create(input) {
+        const { data, error } = await client
+          .from("branches")
+          .insert([input])
+          .select(BRANCH_COLUMNS)
+          .single();
+        check("branches.create", error);
+        return parseBranch(data);
+      },
+
+      async update(id, patch) {
+        const { data, error } = await client
+          .from("branches")
+          .update(patch)
+          .eq("id", id)
+          .select(BRANCH_COLUMNS)
+          .single();
+        check("branches.update", error);
+        return parseBranch(data);
+      },
+    },
+
+    assets: {
+      async listByUser(userId) {
+        const { data, error } = await client
+          .from("assets")
+          .select(ASSET_COLUMNS)
+          .eq("user_id", userId)
+          .order("created_at", { ascending: false });
+        check("assets.listByUser", error);
+        return parseRows(parseAsset, data);
+      },
+
+      async listByUsers(userIds) {
+        if (userIds.length === 0) return [];
+        const { data, error } = await client
+          .from("assets")
+          .select(ASSET_COLUMNS)
+          .in("user_id", userIds)
+          .order("created_at", { ascending: false });
+        check("assets.listByUsers", error);
+        return parseRows(parseAsset, data);
+      },
+
+      async create(input) {
+        const { data, error } = await client
+          .from("assets")
+          .insert([input])
+          .select(ASSET_COLUMNS)
+          .single();
+        check("assets.create", error);
+        return parseAsset(data);
+      },
+
+      async update(id, patch) {
+        const { error } = await client.from("assets").update(patch).eq("id", id);
+        check("assets.update", error);
+      },
+
+      // transition_asset() re-checks the rule, the caller and the current
+      // status server-side, then updates the asset and logs the move atomically
+      async transition({ asset, to, actor, reason = null }) {
+        assertTransition(asset.status, to, actor.role, reason);
+        const { data, error } = await client
+          .rpc("transition_asset", {
+            p_asset_id: asset.id,
+            p_from: asset.status,
+            p_to: to,
+            p_reason: reason?.trim() || null,
+          })
+          .select(ASSET_TRANSITION_COLUMNS)
+          .single();
+        check("assets.transition", error);
+        return parseAssetTransition(data);
+      },
+
+      async listTransitions(assetId) {
+        const { data, error } = await client
+          .from("asset_transitions")
+          .select(ASSET_TRANSITION_COLUMNS)
+          .eq("asset_id", assetId)
+          .order("created_at", { ascending: true });
+        check("assets.listTransitions", error);
+        return parseRows(parseAssetTransition, data);
+      },
+    },
+
+    documents: {
+      async listByAsset(assetId) {
+        const { data, error } = await client
+          .from("required_documents")
+          .select(REQUIRED_DOCUMENT_COLUMNS)
+          .eq("asset_id", assetId)
+          .order("id", { ascending: true });
+        check("documents.listByAsset", error);
+        return parseRows(parseRequiredDocument, data);
+      },
+
+      async listByAssets(assetIds) {
+        if (assetIds.length === 0) return [];
+        const { data, error } = await client
+          .from("required_documents")
+          .select(REQUIRED_DOCUMENT_COLUMNS)
+          .in("asset_id", assetIds)
+          .order("id", { ascending: true });
+        check("documents.listByAssets", error);
+        return parseRows(parseRequiredDocument, data);
+      },
+
+      async createMany(assetId, documentNames) {
+        if (documentNames.length === 0) return;
+        const { error } = await client.from("required_documents").insert(
+          documentNames.map((document_name) => ({
+            asset_id: assetId,
+            document_name,
+            is_uploaded: false,
+          }))
+        );
+        check("documents.createMany", error);
+      },
+
+      async listFiles(assetId) {
+        const { data, error } = await client
+          .from("document_files")
+          .select(DOCUMENT_FILE_COLUMNS)
+          .eq("asset_id", assetId)
+          .order("version", { ascending: false });
+        check("documents.listFiles", error);
+        return parseRows(parseDocumentFile, data);
+      },
+
+      async upload(document, file) {
+        const { data: latest, error: versionError } = await client
+          .from("document_files")
+          .select("version")
+          .eq("document_id", document.id)
+          .order("version", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        check("documents.upload", versionError);
+
+        // (document_id, version) is unique, so a concurrent upload fails instead of overwriting
+        const version = (latest?.version ?? 0) + 1;
+        const path = documentStoragePath(document.asset_id, document.id, version, file.name);
+        const { error: storageError } = await client.storage
+          .from(DOCUMENT_BUCKET)
+          .upload(path, file, { contentType: file.type, upsert: false });
+        check("documents.upload", storageError, "storage");
+
+        const { data, error } = await client
+          .from("document_files")
+          .insert([
+            {
+              document_id: document.id,
+              asset_id: document.asset_id,
+              version,
+              file_name: file.name,
+              mime_type: file.type,
+              size_bytes: file.size,
+              storage_path: path,
+            },
+          ])
+          .select(DOCUMENT_FILE_COLUMNS)
+          .single();
+        if (error) {
+          // Unrecorded files may be removed (asset_documents_delete_orphan)
+          await client.storage.from(DOCUMENT_BUCKET).remove([path]);
+        }
+        check("documents.upload", error);
+        // is_uploaded / uploaded_at follow from the new row (sync_document_uploaded)
+        return parseDocumentFile(data);
+      },
+
+      async fileUrl(file) {
+        const { data, error } = await client.storage
+          .from(DOCUMENT_BUCKET)
+          .createSignedUrl(file.storage_path, SIGNED_URL_SECONDS);
+        check("documents.fileUrl", error, "storage");
+        return data!.signedUrl;
+      },
+    },
+
+    reviews: {
+      async listByAsset(assetId) {
+        const { data, error } = await client
+          .from("item_reviews")
+          .select(ITEM_REVIEW_COLUMNS)
+          .eq("asset_id", assetId)
+          .order("reviewed_at", { ascending: true });
+        check("reviews.listByAsset", error);
+        return parseRows(parseItemReview, data);
+      },
+
+      async record(input) {
+        const { data, error } = await client
+          .from("item_reviews")
+          .insert([input])
+          .select(ITEM_REVIEW_COLUMNS)
+          .single();
+        check("reviews.record", error);
+        return parseItemReview(data);
+      },
+    },
+
+    // Writes are logged by triggers (see the audit_events migration),
+    // which also fill in the actor; clients can only append
+    audit: {
+      record: recordAudit,
+
+      async listByAsset(assetId) {
+        const { data, error } = await client
+          .from("audit_events")
+          .select(AUDIT_EVENT_COLUMNS)
+          .eq("asset_id", assetId)
+          .order("created_at", { ascending: true });
+        check("audit.listByAsset", error);
+        return parseRows(parseAuditEvent, data);
+      },
+
+      async search({ text, action, limit = AUDIT_PAGE_SIZE }) {
+        let query = client
+          .from("audit_events")
+          .select(AUDIT_EVENT_COLUMNS)
+          .order("created_at", { ascending: false })
+          .limit(limit);
+        if (action) query = query.eq("action", action);
+        const needle = text?.trim().toLowerCase();
+        if (needle) query = query.like("search_text", `%${needle.replace(/[%_\\]/g, "\\$&")}%`);
+        const { data, error } = await query;
+        check("audit.search", error);
+        return parseRows(parseAuditEvent, data);
+      },
+    },
+
+    analytics: {
+      async loginCounts(from, to) {
+        const { data, error } = await client.rpc("login_counts", {
+          p_from: from.toISOString(),
+          p_to: to.toISOString(),
+        });
+        check("analytics.loginCounts", error);
+        return parseRows(parseLoginCount, data);
+      },
+
+      async assetFacts(from, to) {
+        const { data, error } = await client.rpc("asset_facts", {
+          p_from: from?.toISOString() ?? null,
+          p_to: to.toISOString(),
+        });
+        check("analytics.assetFacts", error);
+        return parseRows(parseAssetFact, data);
+      },
+    },
+
+    imports: {
+      // import_beneficiaries() re-checks every phone and writes all rows
+      // in one transaction
+      async beneficiaries({ file, rows }) {
+        const { data, error } = await client.rpc("import_beneficiaries", {
+          p_file: file,
+          p_rows: rows,
+        });
+        check("imports.beneficiaries", error);
+        return parseImportResult(data);
+      },
+    },
+
+    images: {
+      async list(assetId) {
+        const { data: files, error } = await client.storage
+          .from(IMAGE_BUCKET)
+          .list(`${assetId}/`);
+        check("images.list", error, "storage");
+        return (files || []).map((f) => publicUrl(`${assetId}/${f.name}`));
+      },
+
+      // The bucket is writable only by the gateway
+      async submit(assetId, image) {
+        const { data } = await client.auth.getSession();
+        const json = await callGateway<{
+          is_real: boolean;
+          score: number;
+          message: string;
+          url: string | null;
+        }>(
+          gatewayUrl,
+          `/images/${encodeURIComponent(assetId)}`,
+          {
+            method: "POST",
+            headers: {
+              "Content-Type": image.type || "image/jpeg",
+              Authorization: `Bearer ${data.session?.access_token ?? ""}`,
+            },
+            body: image,
+          },
+          "verifier"
+        );
+        return { isReal: json.is_real, score: json.score, message: json.message, url: json.url };
+      },
+
+      // Through the gateway too, which checks the asset still takes evidence
+      async remove(url) {
+        const [, object = ""] = url.split(`/${IMAGE_BUCKET}/`);
+        const [assetId, file] = object.split("?")[0].split("/");
+        if (!assetId || !file) {
+          // As the gateway answers for an image it doesn't hold
+          throw new ServiceError("storage", `images.remove: ${url} is not an asset image`, "not_found", 404);
+        }
+        const { data } = await client.auth.getSession();
+        await callGateway(
+          gatewayUrl,
+          `/images/${encodeURIComponent(assetId)}/${encodeURIComponent(file)}`,
+          {
+            method: "DELETE",
+            headers: { Authorization: `Bearer ${data.session?.access_token ?? ""}` },
+          },
+          "storage"
+        );
+      },
+    },
+  };
+}
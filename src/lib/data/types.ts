@@ -0,0 +1,320 @@
+import type {
+  Asset,
+  AssetStatus,
+  AssetTransition,
+  AuditAction,
+  AuditEvent,
+  Bank,
+  Branch,
+  DocumentFile,
+  ItemReview,
+  Region,
+  RequiredDocument,
+  User,
+  UserRole,
+} from "../../types";
+
+/* -----------------------------------------------------
+   Inputs for inserts / updates
+   ----------------------------------------------------- */
+export type NewUser = Pick<User, "name" | "phone" | "role"> &
+  Partial<Pick<User, "status" | "asset" | "bank_id" | "loan_manager_id" | "branch_id">>;
+
+// A loan manager's manual add; phone in E.164
+export interface NewBeneficiary {
+  name: string;
+  phone: string;
+  asset_name: string;
+  documents: string[];
+}
+
+export interface AddedBeneficiary {
+  user: User;
+  added_to_existing: boolean; // the phone already belonged to the bank's beneficiary
+}
+
+export type NewBank = Pick<Bank, "name">;
+
+// Deletion only goes through banks.remove
+export type BankPatch = Partial<NewBank>;
+
+export type NewRegion = Pick<Region, "bank_id" | "name">;
+
+export type NewBranch = Omit<Branch, "id">;
+
+// Regions of the same bank only
+export type BranchPatch = Partial<Pick<Branch, "region_id" | "name" | "branch_manager">>;
+
+export type NewItemReview = Omit<ItemReview, "id" | "reviewed_at">;
+
+// New assets always start as "draft"
+export type NewAsset = Pick<Asset, "user_id" | "asset_name"> & Partial<Pick<Asset, "issued_date">>;
+
+// Status only changes through assets.transition
+export type AssetPatch = Partial<Omit<Asset, "id" | "user_id" | "status">>;
+
+// Events only the app sees (sign-out); the actor and time are filled in
+export type NewAuditEvent = Pick<AuditEvent, "action" | "target_type"> &
+  Partial<Pick<AuditEvent, "target_id" | "asset_id" | "after">>;
+
+export interface AuditQuery {
+  text?: string; // matched against action, actor, target and the recorded values
+  action?: AuditAction;
+  limit?: number;
+}
+
+// Successful sign-ins of one UTC day, by role and the user's bank
+export interface LoginCount {
+  day: string; // YYYY-MM-DD
+  role: UserRole;
+  bank_id: string | null;
+  logins: number;
+}
+
+// One asset's path through the lifecycle, for funnel / SLA analytics
+export interface AssetFact {
+  asset_id: string;
+  bank_id: string | null; // the beneficiary's bank
+  loan_manager_id: string | null; // who opened it for evidence
+  status: AssetStatus;
+  created_at: string;
+  submitted_at: string | null; // first submission
+  decided_at: string | null; // latest grant / rejection
+  queued_at: string | null; // latest (re)submission, while waiting for review
+  ai_checks: number;
+  ai_rejections: number;
+}
+
+// A phone that is already registered; user is null when it belongs to
+// a bank the caller may not see
+export interface PhoneOwner {
+  phone: string; // E.164
+  user: User | null;
+}
+
+// One validated spreadsheet row of a beneficiary import
+export interface BeneficiaryImportRow {
+  row: number; // sheet row, for error messages
+  name: string;
+  phone: string; // E.164
+  asset_name: string;
+  documents: string[];
+  asset_id: string | null; // existing asset to update; null adds a new one
+}
+
+export interface BeneficiaryImport {
+  file: string;
+  rows: BeneficiaryImportRow[];
+}
+
+export interface ImportResult {
+  users_created: number;
+  assets_created: number;
+  assets_updated: number;
+}
+
+export interface AssetTransitionInput {
+  asset: Asset; // as last read; the move fails if its status changed since
+  to: AssetStatus;
+  actor: Pick<User, "id" | "role">;
+  reason?: string | null;
+}
+
+/* -----------------------------------------------------
+   Repositories — one per table (+ the image bucket).
+   Every method resolves to validated domain rows and
+   rejects with an Error when the backend fails.
+   ----------------------------------------------------- */
+export interface UsersRepo {
+  findByPhone(phone: string): Promise<User | null>;
+  // Deactivated accounts included, with deactivated_at set
+  listByRole(role: UserRole): Promise<User[]>;
+  // Users of one role registered to the bank
+  listByBank(bankId: string, role: UserRole): Promise<User[]>;
+  // Active accounts only
+  countByRole(role: UserRole): Promise<number>;
+  // Which of the given E.164 phones are already registered
+  findOwners(phones: string[]): Promise<PhoneOwner[]>;
+  // Stores the phone in E.164; rejects invalid numbers and
+  // phones already registered (DuplicatePhoneError)
+  create(input: NewUser): Promise<User>;
+  // Loan managers only. Creates the beneficiary (or reuses the bank's
+  // existing one with that phone) with the asset and its checklist,
+  // opened for evidence, all in one go; DuplicatePhoneError when the
+  // phone belongs to anyone else
+  addBeneficiary(input: NewBeneficiary): Promise<AddedBeneficiary>;
+  // Super admins only. Moves every beneficiary of one loan manager to
+  // another, into the successor's bank; resolves to how many moved
+  transferBeneficiaries(fromId: string, toId: string): Promise<number>;
+  // Super admins only. Hands the loan manager's beneficiaries to the
+  // successor, then switches the account off; successorId may be null
+  // only when there are none. Resolves to how many moved
+  deactivate(id: string, successorId: string | null): Promise<number>;
+  // Super admins only. Moves a loan manager to another branch of their
+  // bank; their beneficiaries stay with them
+  assignBranch(id: string, branchId: string): Promise<void>;
+}
+
+export interface BanksRepo {
+  // Deleted banks included, for their history
+  list(): Promise<Bank[]>;
+  create(input: NewBank): Promise<Bank>;
+  update(id: string, patch: BankPatch): Promise<Bank>;
+  // Soft delete: deactivates the bank's loan managers and moves its
+  // beneficiaries to successorId, a loan manager of another bank. With
+  // null they keep their accounts and assets, with nobody to review them
+  remove(id: string, successorId: string | null): Promise<void>;
+}
+
+// Written by super admins; every bank's, for staff
+export interface RegionsRepo {
+  list(): Promise<Region[]>;
+  create(input: NewRegion): Promise<Region>;
+}
+
+export interface BranchesRepo {
+  list(): Promise<Branch[]>;
+  create(input: NewBranch): Promise<Branch>;
+  update(id: string, patch: BranchPatch): Promise<Branch>;
+}
+
+export interface AssetsRepo {
+  // Newest first
+  listByUser(userId: string): Promise<Asset[]>;
+  // Every asset of the given users, newest first
+  listByUsers(userIds: string[]): Promise<Asset[]>;
+  create(input: NewAsset): Promise<Asset>;
+  update(id: string, patch: AssetPatch): Promise<void>;
+  // Moves the asset along its lifecycle and records who, when and why;
+  // rejects illegal moves with IllegalTransitionError
+  transition(input: AssetTransitionInput): Promise<AssetTransition>;
+  // Oldest first
+  listTransitions(assetId: string): Promise<AssetTransition[]>;
+}
+
+export interface DocumentsRepo {
+  listByAsset(assetId: string): Promise<RequiredDocument[]>;
+  // Checklists of several assets at once
+  listByAssets(assetIds: string[]): Promise<RequiredDocument[]>;
+  createMany(assetId: string, documentNames: string[]): Promise<void>;
+  // Every stored version of the asset's documents, newest first
+  listFiles(assetId: string): Promise<DocumentFile[]>;
+  // Stores the file as the document's next version, which marks it
+  // uploaded; the backend derives is_uploaded, nothing sets it directly
+  upload(document: RequiredDocument, file: File): Promise<DocumentFile>;
+  // Short-lived URL for viewing / downloading one version
+  fileUrl(file: DocumentFile): Promise<string>;
+}
+
+export interface ReviewsRepo {
+  // Oldest first, so later decisions overwrite earlier ones when indexed
+  listByAsset(assetId: string): Promise<ItemReview[]>;
+  record(input: NewItemReview): Promise<ItemReview>;
+}
+
+// Append-only. Every write through the other repos is logged by the
+// backend itself; record() covers the actions that write nothing else
+export interface AuditRepo {
+  record(input: NewAuditEvent): Promise<void>;
+  // Oldest first
+  listByAsset(assetId: string): Promise<AuditEvent[]>;
+  // Newest first
+  search(query: AuditQuery): Promise<AuditEvent[]>;
+}
+
+// Aggregates over the audit log (super admins only)
+export interface AnalyticsRepo {
+  // Sign-ins between the two instants, inclusive
+  loginCounts(from: Date, to: Date): Promise<LoginCount[]>;
+  // Assets created in the range (from = null: since the beginning)
+  assetFacts(from: Date | null, to: Date): Promise<AssetFact[]>;
+}
+
+// Bulk imports by loan managers
+export interface ImportsRepo {
+  // Creates every row's asset and checklist, opened for evidence, for a
+  // new beneficiary or the bank's existing one with that phone. Rows
+  // naming an existing asset rename it and add missing documents to its
+  // checklist instead. Either all rows are written or none; logged as
+  // one import.excel event
+  beneficiaries(input: BeneficiaryImport): Promise<ImportResult>;
+}
+
+export interface ImagesRepo {
+  // Public URLs of every image stored for the asset
+  list(assetId: string): Promise<string[]>;
+  // Runs the AI check and stores the image only if it passes; the
+  // verdict is recorded either way. Never stores without a check.
+  submit(assetId: string, image: Blob): Promise<ImageSubmission>;
+  // The owner only, while the asset still takes evidence
+  remove(publicUrl: string): Promise<void>;
+}
+
+/* -----------------------------------------------------
+   Phone OTP auth
+   ----------------------------------------------------- */
+export interface AuthSession {
+  phone: string; // E.164
+}
+
+export type AuthEvent = "SIGNED_IN" | "SIGNED_OUT" | "TOKEN_REFRESHED";
+
+// Human check the gateway asks for after repeated failed sign-ins
+export interface LoginChallenge {
+  token: string;
+  question: string;
+}
+
+export interface ChallengeAnswer {
+  token: string;
+  answer: string;
+}
+
+export interface AuthService {
+  // Resolves the same way whether or not the phone is registered;
+  // rejects with ChallengeRequiredError until `challenge` is answered
+  // and with OtpLockedError while the phone is locked out
+  sendOtp(phone: string, challenge?: ChallengeAnswer): Promise<void>;
+  // A wrong code rejects with a ServiceError coded "invalid_code"; too
+  // many lock the phone (OtpLockedError). The backend logs a successful
+  // verification as an auth.login audit event.
+  verifyOtp(phone: string, token: string): Promise<AuthSession>;
+  // Session persisted by a previous visit, if still valid
+  getSession(): Promise<AuthSession | null>;
+  // Later changes (this tab or another); returns an unsubscribe function
+  onChange(listener: (event: AuthEvent, session: AuthSession | null) => void): () => void;
+  signOut(): Promise<void>;
+}
+
+/* -----------------------------------------------------
+   Image authenticity check (AI backend, called by the
+   gateway for real uploads)
+   ----------------------------------------------------- */
+export interface VerificationResult {
+  isReal: boolean;
+  score: number; // 0..1
+  message: string;
+}
+
+export interface ImageVerifier {
+  verify(assetId: string, image: Blob): Promise<VerificationResult>;
+}
+
+export interface ImageSubmission extends VerificationResult {
+  url: string | null; // public URL of the stored image; null when rejected
+}
+
+export interface DataAccess {
+  auth: AuthService;
+  users: UsersRepo;
+  banks: BanksRepo;
+  regions: RegionsRepo;
+  branches: BranchesRepo;
+  assets: AssetsRepo;
+  documents: DocumentsRepo;
+  reviews: ReviewsRepo;
+  audit: AuditRepo;
+  analytics: AnalyticsRepo;
+  imports: ImportsRepo;
+  images: ImagesRepo;
+}
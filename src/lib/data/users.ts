@@ -0,0 +1,33 @@
+import type { User } from "../../types";
+import { invalidPhoneMessage, toE164 } from "../phone";
+import type { NewUser } from "./types";
+
+/* -----------------------------------------------------
+   Thrown by users.create when the phone (in any of its
+   stored spellings) already belongs to someone
+   ----------------------------------------------------- */
+// `existing` is null when the row belongs to another bank and the caller
+// may not see it
+export class DuplicatePhoneError extends Error {
+  constructor(public readonly phone: string, public readonly existing: User | null) {
+    super(
+      existing
+        ? `${phone} is already registered to ${existing.name}`
+        : `${phone} is already registered with another bank`
+    );
+    this.name = "DuplicatePhoneError";
+  }
+}
+
+// Shared by every users.create: E.164 phone, one row per person
+export async function prepareNewUser(
+  input: NewUser,
+  findByPhone: (phone: string) => Promise<User | null>
+): Promise<NewUser> {
+  const phone = toE164(input.phone);
+  if (!phone) throw new Error(`users.create: ${invalidPhoneMessage(input.phone)}`);
+
+  const existing = await findByPhone(phone);
+  if (existing) throw new DuplicatePhoneError(phone, existing);
+  return { ...input, phone };
+}
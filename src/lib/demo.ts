@@ -0,0 +1,53 @@
+import {
+  DEFAULT_MEMORY_OTP,
+  createMemoryDataAccess,
+  mockSeed,
+  type MemorySeed,
+} from "./data/memory";
+import type { DataAccess } from "./data/types";
+
+/* -----------------------------------------------------
+   Offline demo mode (VITE_DEMO_MODE=true)
+   - Data lives in localStorage, seeded from mockData.ts
+   - Any registered mock phone logs in with DEMO_OTP
+   - Images are "verified" by a local stub
+   ----------------------------------------------------- */
+export const DEMO_MODE = import.meta.env.VITE_DEMO_MODE === "true";
+export const DEMO_OTP = DEFAULT_MEMORY_OTP;
+
+const STORE_KEY = "authenx-demo-store";
+const SESSION_KEY = "authenx-demo-session";
+
+function loadStore(): MemorySeed {
+  try {
+    const raw = localStorage.getItem(STORE_KEY);
+    if (raw) return JSON.parse(raw) as MemorySeed;
+  } catch (err) {
+    console.warn("⚠️ Demo store unreadable, reseeding:", err);
+  }
+  return mockSeed();
+}
+
+function saveStore(store: MemorySeed) {
+  try {
+    localStorage.setItem(STORE_KEY, JSON.stringify(store));
+  } catch (err) {
+    // Usually the quota, after many uploaded images
+    console.warn("⚠️ Demo store not saved:", err);
+  }
+}
+
+export function createDemoDataAccess(): DataAccess {
+  return createMemoryDataAccess(loadStore(), {
+    onChange: saveStore,
+    otp: DEMO_OTP,
+    sessionKey: SESSION_KEY,
+  });
+}
+
+// Back to the mockData.ts seed (also signs out)
+export function resetDemoData() {
+  localStorage.removeItem(STORE_KEY);
+  localStorage.removeItem(SESSION_KEY);
+  window.location.assign("/");
+}
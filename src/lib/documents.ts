@@ -0,0 +1,56 @@
+import type { DocumentFile } from "../types";
+
+/* -----------------------------------------------------
+   Required-document uploads: PDFs and images up to
+   10 MB, stored per version under the asset
+   ----------------------------------------------------- */
+export const ACCEPTED_DOCUMENT_TYPES = [
+  "application/pdf",
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+];
+// For <input accept>
+export const DOCUMENT_ACCEPT = ".pdf,image/*";
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+// null when the file can be uploaded, else the reason it can't
+export function validateDocumentFile(file: File): string | null {
+  if (!ACCEPTED_DOCUMENT_TYPES.includes(file.type)) {
+    return `${file.name}: only PDF or image files can be uploaded.`;
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    return `${file.name} is ${formatBytes(file.size)}; the limit is ${formatBytes(MAX_DOCUMENT_BYTES)}.`;
+  }
+  return null;
+}
+
+// Storage key: <assetId>/<documentId>/v<version>-<safe file name>
+export function documentStoragePath(
+  assetId: string,
+  documentId: string,
+  version: number,
+  fileName: string
+): string {
+  const safe = fileName.replace(/[^\w.-]+/g, "_").slice(-100) || "file";
+  return `${assetId}/${documentId}/v${version}-${safe}`;
+}
+
+// documentId → its versions, newest first
+export function groupFilesByDocument(files: DocumentFile[]): Record<string, DocumentFile[]> {
+  const byDoc: Record<string, DocumentFile[]> = {};
+  for (const file of [...files].sort((a, b) => b.version - a.version)) {
+    (byDoc[file.document_id] ??= []).push(file);
+  }
+  return byDoc;
+}
+
+export const isPdf = (file: Pick<DocumentFile, "mime_type">) => file.mime_type === "application/pdf";
+
+// 1536 → "1.5 KB"
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,72 @@
+import { RowValidationError } from "./schema";
+
+/* -----------------------------------------------------
+   Errors from the backends, tagged with where they came
+   from so the UI can explain them. `message` stays
+   technical (it is what gets logged).
+   ----------------------------------------------------- */
+export type ErrorSource = "auth" | "database" | "storage" | "verifier";
+
+export class ServiceError extends Error {
+  constructor(
+    public readonly source: ErrorSource,
+    message: string,
+    public readonly code?: string,
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = "ServiceError";
+  }
+}
+
+const GENERIC = "Something went wrong. Please try again.";
+
+// Postgres / PostgREST error codes worth explaining
+const DATABASE_MESSAGES: Record<string, string> = {
+  "23505": "This record already exists.",
+  "23503": "This record is linked to data that no longer exists.",
+  "42501": "You don't have permission to do that.",
+  "23514": "That change isn't allowed for this asset's current status.",
+  "40001": "Someone else updated this asset. Refresh and try again.",
+  PGRST301: "Your session has expired. Please log in again.",
+  PGRST116: "The record could not be found.",
+};
+
+function serviceMessage(err: ServiceError): string {
+  if (err.status === 429 || /rate limit|only request this after/i.test(err.message)) {
+    return "Too many requests. Please wait a minute and try again.";
+  }
+  switch (err.source) {
+    case "auth":
+      if (/expired|invalid/i.test(err.message)) return "The code is incorrect or has expired.";
+      return "Sign-in failed. Please try again.";
+    case "database":
+      return (err.code && DATABASE_MESSAGES[err.code]) || "Couldn't load or save data. Please try again.";
+    case "storage":
+      if (err.status === 413) return "The file is too large.";
+      return "File storage failed. Please try again.";
+    case "verifier":
+      if (err.status === 401) return "Your session has expired. Please log in again.";
+      if (err.status === 409) return "This asset no longer accepts photos.";
+      if (err.status === 413) return "The image is too large.";
+      if (err.status && err.status >= 500) {
+        return "The verification service is unavailable. Please try again shortly.";
+      }
+      return "Image verification failed. Please try again.";
+  }
+}
+
+/* -----------------------------------------------------
+   Anything thrown → one sentence a user can act on
+   ----------------------------------------------------- */
+export function toUserMessage(err: unknown, fallback = GENERIC): string {
+  if (err instanceof ServiceError) return serviceMessage(err);
+  if (err instanceof RowValidationError) return "Received unexpected data from the server.";
+  // fetch() rejects with a TypeError when the network or CORS fails
+  if (err instanceof TypeError && /fetch|network|load failed/i.test(err.message)) {
+    return "Can't reach the server. Check your connection and try again.";
+  }
+  // Our own errors (DuplicatePhoneError, AccountNotFoundError, …) are already readable
+  if (err instanceof Error && err.message) return err.message;
+  return fallback;
+}
@@ -0,0 +1,110 @@
+import type { AssetFact } from "./data";
+import { REVIEW_QUEUE_STATUSES } from "./assetLifecycle";
+
+/* -----------------------------------------------------
+   Verification funnel and SLA metrics, computed from
+   one AssetFact per asset
+   ----------------------------------------------------- */
+export const FUNNEL_RANGES = [
+  { value: "all", label: "All time", days: null },
+  { value: "30", label: "Last 30 days", days: 30 },
+  { value: "90", label: "Last 90 days", days: 90 },
+  { value: "365", label: "Last 12 months", days: 365 },
+] as const;
+
+export const FUNNEL_STAGES = [
+  { key: "issued", label: "Issued" },
+  { key: "submitted", label: "Evidence submitted" },
+  { key: "pending", label: "Pending review" },
+  { key: "authenticated", label: "Authenticated" },
+  { key: "rejected", label: "Rejected" },
+] as const;
+export type FunnelStage = (typeof FUNNEL_STAGES)[number]["key"];
+
+// Time waiting in the review queue, upper bounds in days
+export const AGING_BUCKETS = [
+  { label: "< 1 day", maxDays: 1 },
+  { label: "1–3 days", maxDays: 3 },
+  { label: "3–7 days", maxDays: 7 },
+  { label: "7–14 days", maxDays: 14 },
+  { label: "14+ days", maxDays: Infinity },
+] as const;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface FunnelSummary extends Record<FunnelStage, number> {
+  medianSubmitHours: number | null; // issued → first submission
+  medianDecisionHours: number | null; // first submission → decision
+  aiChecks: number;
+  aiRejections: number;
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const hoursBetween = (from: string, to: string) =>
+  (new Date(to).getTime() - new Date(from).getTime()) / HOUR_MS;
+
+export function summarizeFunnel(facts: AssetFact[]): FunnelSummary {
+  const submitHours: number[] = [];
+  const decisionHours: number[] = [];
+  for (const f of facts) {
+    if (f.submitted_at) submitHours.push(hoursBetween(f.created_at, f.submitted_at));
+    if (f.submitted_at && f.decided_at) decisionHours.push(hoursBetween(f.submitted_at, f.decided_at));
+  }
+  return {
+    issued: facts.length,
+    submitted: facts.filter((f) => f.submitted_at).length,
+    pending: facts.filter((f) => REVIEW_QUEUE_STATUSES.includes(f.status)).length,
+    authenticated: facts.filter((f) => f.status === "authenticated").length,
+    rejected: facts.filter((f) => f.status === "rejected").length,
+    medianSubmitHours: median(submitHours),
+    medianDecisionHours: median(decisionHours),
+    aiChecks: facts.reduce((n, f) => n + f.ai_checks, 0),
+    aiRejections: facts.reduce((n, f) => n + f.ai_rejections, 0),
+  };
+}
+
+// key → summary of that group's facts; facts without a key go under null
+export function summarizeBy(
+  facts: AssetFact[],
+  keyOf: (fact: AssetFact) => string | null
+): Array<{ key: string | null } & FunnelSummary> {
+  const groups = new Map<string | null, AssetFact[]>();
+  for (const fact of facts) {
+    const key = keyOf(fact);
+    groups.set(key, [...(groups.get(key) ?? []), fact]);
+  }
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, ...summarizeFunnel(group) }))
+    .sort((a, b) => b.issued - a.issued);
+}
+
+// Assets still waiting on a loan manager, by how long they have waited
+export function agingBuckets(facts: AssetFact[], now = new Date()) {
+  const counts = AGING_BUCKETS.map((b) => ({ label: b.label, assets: 0 }));
+  for (const f of facts) {
+    if (!REVIEW_QUEUE_STATUSES.includes(f.status)) continue;
+    // Rows from before the lifecycle have no submission time
+    const since = f.queued_at ?? f.submitted_at ?? f.created_at;
+    const days = hoursBetween(since, now.toISOString()) / 24;
+    const index = AGING_BUCKETS.findIndex((b) => days < b.maxDays);
+    counts[index].assets += 1;
+  }
+  return counts;
+}
+
+export function formatHours(hours: number | null): string {
+  if (hours == null) return "—";
+  if (hours < 1) return `${Math.round(hours * 60)}m`;
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+}
+
+export function formatRate(part: number, whole: number): string {
+  return whole === 0 ? "—" : `${((part / whole) * 100).toFixed(1)}%`;
+}
@@ -0,0 +1,105 @@
+import type { LoginCount } from "./data";
+import type { UserRole } from "../types";
+
+/* -----------------------------------------------------
+   Login analytics: the data layer returns sign-ins per
+   UTC day, role and bank; this turns them into chart
+   rows per day / week / month with no gaps
+   ----------------------------------------------------- */
+export type LoginGranularity = "day" | "week" | "month";
+export type LoginBreakdown = "total" | "role" | "bank";
+
+export const LOGIN_RANGES = [
+  { value: "7", label: "Last 7 days", days: 7 },
+  { value: "30", label: "Last 30 days", days: 30 },
+  { value: "90", label: "Last 90 days", days: 90 },
+  { value: "365", label: "Last 12 months", days: 365 },
+] as const;
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  superadmin: "Super admins",
+  loanmanager: "Loan managers",
+  user: "Beneficiaries",
+};
+
+// Series key for logins of users without a bank (super admins)
+export const NO_BANK = "none";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+// First UTC day of the range ending today, `days` days long
+export function rangeStart(days: number, now = new Date()): Date {
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return new Date(today - (days - 1) * DAY_MS);
+}
+
+// "2025-09-17" → the day, its Monday, or its month
+export function bucketOf(day: string, granularity: LoginGranularity): string {
+  if (granularity === "day") return day;
+  if (granularity === "month") return day.slice(0, 7);
+  const date = new Date(day + "T00:00:00Z");
+  const sinceMonday = (date.getUTCDay() + 6) % 7;
+  return isoDay(new Date(date.getTime() - sinceMonday * DAY_MS));
+}
+
+export function bucketLabel(bucket: string, granularity: LoginGranularity): string {
+  const date = new Date((granularity === "month" ? bucket + "-01" : bucket) + "T00:00:00Z");
+  if (granularity === "month") {
+    return date.toLocaleDateString(undefined, { month: "short", year: "numeric", timeZone: "UTC" });
+  }
+  const label = date.toLocaleDateString(undefined, { day: "numeric", month: "short", timeZone: "UTC" });
+  return granularity === "week" ? `Wk of ${label}` : label;
+}
+
+function seriesKey(count: LoginCount, breakdown: LoginBreakdown): string {
+  if (breakdown === "role") return count.role;
+  if (breakdown === "bank") return count.bank_id ?? NO_BANK;
+  return "logins";
+}
+
+export interface LoginSeries {
+  rows: Array<{ bucket: string; label: string } & Record<string, number | string>>;
+  keys: string[]; // series present in the data, biggest first
+  total: number;
+}
+
+export function buildLoginSeries(
+  counts: LoginCount[],
+  { from, to, granularity, breakdown }: {
+    from: Date;
+    to: Date;
+    granularity: LoginGranularity;
+    breakdown: LoginBreakdown;
+  }
+): LoginSeries {
+  // Every bucket in the range, so quiet periods show as zero
+  const buckets: string[] = [];
+  for (let t = from.getTime(); t <= to.getTime(); t += DAY_MS) {
+    const bucket = bucketOf(isoDay(new Date(t)), granularity);
+    if (buckets[buckets.length - 1] !== bucket) buckets.push(bucket);
+  }
+
+  const totals = new Map<string, number>();
+  const cells = new Map<string, Map<string, number>>();
+  for (const count of counts) {
+    const bucket = bucketOf(count.day, granularity);
+    const key = seriesKey(count, breakdown);
+    const row = cells.get(bucket) ?? new Map<string, number>();
+    row.set(key, (row.get(key) ?? 0) + count.logins);
+    cells.set(bucket, row);
+    totals.set(key, (totals.get(key) ?? 0) + count.logins);
+  }
+
+  const keys = [...totals.keys()].sort((a, b) => totals.get(b)! - totals.get(a)!);
+  if (keys.length === 0 && breakdown === "total") keys.push("logins");
+  return {
+    rows: buckets.map((bucket) => {
+      const row: LoginSeries["rows"][number] = { bucket, label: bucketLabel(bucket, granularity) };
+      for (const key of keys) row[key] = cells.get(bucket)?.get(key) ?? 0;
+      return row;
+    }),
+    keys,
+    total: [...totals.values()].reduce((sum, n) => sum + n, 0),
+  };
+}
@@ -1,80 +1,235 @@
-import { Bank, Asset, BeneficiaryUser } from '../types';
+import { Bank, Asset, AssetTransition, AuditEvent, Branch, DocumentFile, Region, RequiredDocument, User } from '../types';
 
 export const mockBanks: Bank[] = [
-  {
-    id: '1',
-    name: 'State Bank of India',
-    branch: 'Mumbai Central',
-    branchManager: 'Rajesh Kumar',
-    employees: [
-      { id: 'e1', name: 'Amit Sharma', phone: '+91 98765 43210', bankId: '1' },
-      { id: 'e2', name: 'Priya Patel', phone: '+91 98765 43211', bankId: '1' },
-    ]
-  },
-  {
-    id: '2',
-    name: 'HDFC Bank',
-    branch: 'Delhi South',
-    branchManager: 'Sunita Verma',
-    employees: [
-      { id: 'e3', name: 'Vikram Singh', phone: '+91 98765 43212', bankId: '2' },
-    ]
-  },
-  {
-    id: '3',
-    name: 'ICICI Bank',
-    branch: 'Bangalore Tech Park',
-    branchManager: 'Anil Reddy',
-    employees: [
-      { id: 'e4', name: 'Deepa Krishnan', phone: '+91 98765 43213', bankId: '3' },
-      { id: 'e5', name: 'Rahul Gupta', phone: '+91 98765 43214', bankId: '3' },
-    ]
-  },
+  { id: '1', name: 'State Bank of India', deleted_at: null },
+  { id: '2', name: 'HDFC Bank', deleted_at: null },
+  { id: '3', name: 'ICICI Bank', deleted_at: null },
+];
+
+export const mockRegions: Region[] = [
+  { id: 'r1', bank_id: '1', name: 'West' },
+  { id: 'r2', bank_id: '2', name: 'North' },
+  { id: 'r3', bank_id: '3', name: 'South' },
 ];
 
-export const mockBeneficiaries: BeneficiaryUser[] = [
+export const mockBranches: Branch[] = [
+  { id: 'b1', bank_id: '1', region_id: 'r1', name: 'Mumbai Central', branch_manager: 'Rajesh Kumar' },
+  { id: 'b2', bank_id: '1', region_id: 'r1', name: 'Pune Camp', branch_manager: 'Meera Kulkarni' },
+  { id: 'b3', bank_id: '2', region_id: 'r2', name: 'Delhi South', branch_manager: 'Sunita Verma' },
+  { id: 'b4', bank_id: '3', region_id: 'r3', name: 'Bangalore Tech Park', branch_manager: 'Anil Reddy' },
+];
+
+export const mockSuperAdmins: User[] = [
+  { id: 's1', name: 'Neha Joshi', phone: '+919876500000', role: 'superadmin', status: 'authenticated', asset: null, bank_id: null, loan_manager_id: null, branch_id: null, deactivated_at: null },
+];
+
+export const mockLoanManagers: User[] = [
+  { id: 'e1', name: 'Amit Sharma', phone: '+919876543210', role: 'loanmanager', status: 'authenticated', asset: null, bank_id: '1', loan_manager_id: null, branch_id: 'b1', deactivated_at: null },
+  { id: 'e2', name: 'Priya Patel', phone: '+919876543211', role: 'loanmanager', status: 'authenticated', asset: null, bank_id: '1', loan_manager_id: null, branch_id: 'b2', deactivated_at: null },
+  { id: 'e3', name: 'Vikram Singh', phone: '+919876543212', role: 'loanmanager', status: 'authenticated', asset: null, bank_id: '2', loan_manager_id: null, branch_id: 'b3', deactivated_at: null },
+  { id: 'e4', name: 'Deepa Krishnan', phone: '+919876543213', role: 'loanmanager', status: 'authenticated', asset: null, bank_id: '3', loan_manager_id: null, branch_id: 'b4', deactivated_at: null },
+  { id: 'e5', name: 'Rahul Gupta', phone: '+919876543214', role: 'loanmanager', status: 'authenticated', asset: null, bank_id: '3', loan_manager_id: null, branch_id: 'b4', deactivated_at: null },
+];
+
+export const mockBeneficiaries: User[] = [
   {
     id: 'u1',
     name: 'Anjali Mehta',
-    phone: '+91 98765 11111',
-    assetsAllocated: ['House - Plot 42A', 'Tractor'],
+    phone: '+919876511111',
+    role: 'user',
+    status: 'submitted',
+    asset: 'House - Plot 42A',
+    bank_id: '1',
+    loan_manager_id: 'e1',
+    branch_id: null,
+    deactivated_at: null,
   },
   {
     id: 'u2',
     name: 'Suresh Yadav',
-    phone: '+91 98765 22222',
-    assetsAllocated: ['Agricultural Land - 5 acres'],
+    phone: '+919876522222',
+    role: 'user',
+    status: 'awaiting_evidence',
+    asset: 'Agricultural Land - 5 acres',
+    bank_id: '2',
+    loan_manager_id: 'e3',
+    branch_id: null,
+    deactivated_at: null,
   },
   {
     id: 'u3',
     name: 'Kavita Desai',
-    phone: '+91 98765 33333',
-    assetsAllocated: ['Apartment - Flat 101', 'Car'],
-    images: ['https://images.unsplash.com/photo-1560518883-ce09059eeffa?w=400']
+    phone: '+919876533333',
+    role: 'user',
+    status: 'awaiting_evidence',
+    asset: 'Apartment - Flat 101',
+    bank_id: '3',
+    loan_manager_id: 'e4',
+    branch_id: null,
+    deactivated_at: null,
   },
 ];
 
+const emptyAsset = {
+  issued_date: null,
+  image_url: null,
+  latitude: null,
+  longitude: null,
+  location_address: null,
+  created_at: null,
+  verified_at: null,
+};
+
 export const mockAssets: Asset[] = [
   {
+    ...emptyAsset,
     id: 'a1',
-    name: 'House - Plot 42A',
-    userId: 'u1',
-    status: 'pending',
+    asset_name: 'House - Plot 42A',
+    user_id: 'u1',
+    status: 'submitted',
+    created_at: '2025-09-10T00:00:00.000Z',
   },
   {
+    ...emptyAsset,
     id: 'a2',
-    name: 'Tractor',
-    userId: 'u1',
+    asset_name: 'Tractor',
+    user_id: 'u1',
     status: 'authenticated',
-    imageUrl: 'https://images.unsplash.com/photo-1562916260-eb478b684986?w=400',
-    verifiedAt: new Date('2025-09-15'),
+    image_url: 'https://images.unsplash.com/photo-1562916260-eb478b684986?w=400',
+    created_at: '2025-09-01T00:00:00.000Z',
+    verified_at: '2025-09-15T00:00:00.000Z',
   },
   {
+    ...emptyAsset,
     id: 'a3',
-    name: 'Agricultural Land - 5 acres',
-    userId: 'u2',
-    status: 'non-verified',
-    imageUrl: 'https://images.unsplash.com/photo-1625246333195-78d9c38ad449?w=400',
-    uploadedAt: new Date('2025-09-20'),
+    asset_name: 'Agricultural Land - 5 acres',
+    user_id: 'u2',
+    status: 'awaiting_evidence',
+    image_url: 'https://images.unsplash.com/photo-1625246333195-78d9c38ad449?w=400',
+    created_at: '2025-09-20T00:00:00.000Z',
+  },
+  {
+    ...emptyAsset,
+    id: 'a4',
+    asset_name: 'Apartment - Flat 101',
+    user_id: 'u3',
+    status: 'awaiting_evidence',
+    image_url: 'https://images.unsplash.com/photo-1560518883-ce09059eeffa?w=400',
+    created_at: '2025-09-22T00:00:00.000Z',
+  },
+  {
+    ...emptyAsset,
+    id: 'a5',
+    asset_name: 'Car',
+    user_id: 'u3',
+    status: 'awaiting_evidence',
+    created_at: '2025-09-25T00:00:00.000Z',
+  },
+];
+
+// How the assets above reached their current status
+const transition = (
+  id: string,
+  asset_id: string,
+  from_status: AssetTransition['from_status'],
+  to_status: AssetTransition['to_status'],
+  actor_id: string,
+  created_at: string
+): AssetTransition => ({
+  id,
+  asset_id,
+  from_status,
+  to_status,
+  actor_id,
+  actor_role: actor_id.startsWith('e') ? 'loanmanager' : 'user',
+  reason: null,
+  created_at,
+});
+
+export const mockTransitions: AssetTransition[] = [
+  transition('t1', 'a2', 'draft', 'awaiting_evidence', 'e1', '2025-09-01T00:05:00.000Z'),
+  transition('t2', 'a2', 'awaiting_evidence', 'submitted', 'u1', '2025-09-05T10:00:00.000Z'),
+  transition('t3', 'a2', 'submitted', 'under_review', 'e1', '2025-09-08T09:30:00.000Z'),
+  transition('t4', 'a2', 'under_review', 'authenticated', 'e1', '2025-09-15T00:00:00.000Z'),
+  transition('t5', 'a1', 'draft', 'awaiting_evidence', 'e1', '2025-09-10T00:05:00.000Z'),
+  transition('t6', 'a1', 'awaiting_evidence', 'submitted', 'u1', '2025-09-18T12:00:00.000Z'),
+  transition('t7', 'a3', 'draft', 'awaiting_evidence', 'e3', '2025-09-20T00:05:00.000Z'),
+  transition('t8', 'a4', 'draft', 'awaiting_evidence', 'e4', '2025-09-22T00:05:00.000Z'),
+  transition('t9', 'a5', 'draft', 'awaiting_evidence', 'e4', '2025-09-25T00:05:00.000Z'),
+];
+
+export const mockDocuments: RequiredDocument[] = [
+  { id: 'd1', asset_id: 'a1', document_name: 'Aadhaar Card', is_uploaded: true, uploaded_at: '2025-09-18T00:00:00.000Z' },
+  { id: 'd2', asset_id: 'a1', document_name: 'Land Proof', is_uploaded: true, uploaded_at: '2025-09-18T00:00:00.000Z' },
+  { id: 'd3', asset_id: 'a3', document_name: 'Aadhaar Card', is_uploaded: false, uploaded_at: null },
+  { id: 'd4', asset_id: 'a3', document_name: 'Income Certificate', is_uploaded: false, uploaded_at: null },
+  { id: 'd5', asset_id: 'a5', document_name: 'RC Book', is_uploaded: false, uploaded_at: null },
+];
+
+// Placeholder scans for the documents marked uploaded above
+const sampleScan = (title: string) =>
+  'data:image/svg+xml;utf8,' +
+  encodeURIComponent(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="420" height="280"><rect width="100%" height="100%" fill="#f3f4f6"/><text x="50%" y="50%" text-anchor="middle" font-family="sans-serif" font-size="22" fill="#6b7280">${title} (sample)</text></svg>`
+  );
+
+export const mockDocumentFiles: DocumentFile[] = [
+  {
+    id: 'f1',
+    document_id: 'd1',
+    asset_id: 'a1',
+    version: 1,
+    file_name: 'aadhaar.svg',
+    mime_type: 'image/svg+xml',
+    size_bytes: 420,
+    storage_path: 'a1/d1/v1-aadhaar.svg',
+    uploaded_at: '2025-09-18T00:00:00.000Z',
+  },
+  {
+    id: 'f2',
+    document_id: 'd2',
+    asset_id: 'a1',
+    version: 1,
+    file_name: 'land-proof.svg',
+    mime_type: 'image/svg+xml',
+    size_bytes: 420,
+    storage_path: 'a1/d2/v1-land-proof.svg',
+    uploaded_at: '2025-09-18T00:00:00.000Z',
   },
 ];
+
+// storage_path → file contents as a data: URL
+export const mockDocumentData: Record<string, string> = {
+  'a1/d1/v1-aadhaar.svg': sampleScan('Aadhaar Card'),
+  'a1/d2/v1-land-proof.svg': sampleScan('Land Proof'),
+};
+
+// Sign-in history for the login analytics: a deterministic spread over the
+// 90 days before `now`, weekdays busier than weekends
+export function mockLoginEvents(now = new Date()): AuditEvent[] {
+  const people = [...mockSuperAdmins, ...mockLoanManagers, ...mockBeneficiaries];
+  const events: AuditEvent[] = [];
+  for (let daysAgo = 89; daysAgo >= 0; daysAgo--) {
+    const day = new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000);
+    const weekend = day.getUTCDay() === 0 || day.getUTCDay() === 6;
+    people.forEach((person, i) => {
+      // Pseudo-random but stable: roughly every other person per weekday
+      if ((daysAgo * 7 + i * 3) % (weekend ? 5 : 2) !== 0) return;
+      day.setUTCHours(8 + ((daysAgo + i) % 10), (i * 13) % 60, 0, 0);
+      events.push({
+        id: `login-${daysAgo}-${person.id}`,
+        action: 'auth.login',
+        actor_id: person.id,
+        actor_name: person.name,
+        actor_role: person.role,
+        target_type: 'user',
+        target_id: null,
+        asset_id: null,
+        before: null,
+        after: null,
+        created_at: day.toISOString(),
+      });
+    });
+  }
+  return events;
+}
@@ -0,0 +1,75 @@
+import { toast } from "sonner";
+import { toUserMessage } from "./errors";
+
+/* -----------------------------------------------------
+   App-wide notifications on top of the sonner <Toaster>
+   mounted in App.tsx
+   ----------------------------------------------------- */
+export interface NotifyAction {
+  label: string; // e.g. "Retry", "View asset"
+  onClick: () => void;
+}
+
+export interface NotifyOptions {
+  description?: string;
+  action?: NotifyAction;
+  duration?: number; // ms
+}
+
+export interface NotifyErrorOptions extends Omit<NotifyOptions, "description"> {
+  // Shown as the headline with the normalized message beneath it
+  title?: string;
+  // Shorthand for a "Retry" action
+  retry?: () => void;
+}
+
+// Handle for a long-running task shown as a single updating toast
+export interface ProgressToast {
+  update(message: string, description?: string): void;
+  success(message: string, options?: NotifyOptions): void;
+  error(err: unknown, options?: NotifyErrorOptions): void;
+  warning(message: string, options?: NotifyOptions): void;
+  dismiss(): void;
+}
+
+function errorToast(err: unknown, options: NotifyErrorOptions = {}, id?: string | number) {
+  const { title, retry, action, duration } = options;
+  console.error(`❌ ${title ?? "Error"}:`, err);
+
+  const message = toUserMessage(err);
+  toast.error(title ?? message, {
+    id,
+    description: title ? message : undefined,
+    action: action ?? (retry ? { label: "Retry", onClick: retry } : undefined),
+    duration,
+  });
+}
+
+export const notify = {
+  success(message: string, options?: NotifyOptions) {
+    toast.success(message, options);
+  },
+
+  info(message: string, options?: NotifyOptions) {
+    toast.info(message, options);
+  },
+
+  warning(message: string, options?: NotifyOptions) {
+    toast.warning(message, options);
+  },
+
+  error(err: unknown, options?: NotifyErrorOptions) {
+    errorToast(err, options);
+  },
+
+  progress(message: string, description?: string): ProgressToast {
+    const id = toast.loading(message, { description });
+    return {
+      update: (next, nextDescription) => toast.loading(next, { id, description: nextDescription }),
+      success: (next, options) => toast.success(next, { ...options, id }),
+      error: (err, options) => errorToast(err, options, id),
+      warning: (next, options) => toast.warning(next, { ...options, id }),
+      dismiss: () => toast.dismiss(id),
+    };
+  },
+};
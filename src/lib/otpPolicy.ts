@@ -0,0 +1,97 @@
+/* -----------------------------------------------------
+   OTP policy. The gateway (server/routes/auth.ts) counts
+   wrong codes per phone and enforces the lockout; the
+   copy kept here per phone in localStorage only drives
+   the cooldown, expiry and lockout shown on screen.
+   ----------------------------------------------------- */
+export const RESEND_COOLDOWN_SECONDS = 30;
+// Keep in sync with the SMS OTP expiry configured in Supabase Auth
+export const OTP_TTL_SECONDS = 5 * 60;
+// Keep in sync with the lockout in server/routes/auth.ts
+export const MAX_WRONG_ATTEMPTS = 5;
+export const LOCKOUT_SECONDS = 15 * 60;
+
+const STORAGE_PREFIX = "authenx-otp:";
+
+interface StoredOtpState {
+  sentAt: number | null; // ms epoch of the last OTP sent
+  failures: number; // wrong codes since that send
+  lockedUntil: number | null; // ms epoch
+}
+
+export interface OtpStatus {
+  resendInSeconds: number; // 0 → resend allowed
+  expiresInSeconds: number; // 0 → current code expired
+  lockedForSeconds: number; // 0 → not locked
+  attemptsLeft: number;
+}
+
+const EMPTY: StoredOtpState = { sentAt: null, failures: 0, lockedUntil: null };
+
+function read(phone: string): StoredOtpState {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + phone);
+    return raw ? { ...EMPTY, ...JSON.parse(raw) } : { ...EMPTY };
+  } catch {
+    return { ...EMPTY };
+  }
+}
+
+function write(phone: string, state: StoredOtpState) {
+  localStorage.setItem(STORAGE_PREFIX + phone, JSON.stringify(state));
+}
+
+const secondsUntil = (ms: number | null, now: number) =>
+  ms == null ? 0 : Math.max(0, Math.ceil((ms - now) / 1000));
+
+export function getOtpStatus(phone: string, now = Date.now()): OtpStatus {
+  const state = read(phone);
+  const sentAt = state.sentAt;
+  return {
+    resendInSeconds: sentAt ? secondsUntil(sentAt + RESEND_COOLDOWN_SECONDS * 1000, now) : 0,
+    expiresInSeconds: sentAt ? secondsUntil(sentAt + OTP_TTL_SECONDS * 1000, now) : 0,
+    lockedForSeconds: secondsUntil(state.lockedUntil, now),
+    attemptsLeft: Math.max(0, MAX_WRONG_ATTEMPTS - state.failures),
+  };
+}
+
+// A fresh code resets the wrong-attempt count but not an active lockout
+export function recordOtpSent(phone: string) {
+  const state = read(phone);
+  write(phone, { ...state, sentAt: Date.now(), failures: 0 });
+}
+
+// Returns the status after counting the failure (locks at the limit)
+export function recordOtpFailure(phone: string): OtpStatus {
+  const state = read(phone);
+  const failures = state.failures + 1;
+  const lockedUntil =
+    failures >= MAX_WRONG_ATTEMPTS ? Date.now() + LOCKOUT_SECONDS * 1000 : state.lockedUntil;
+  write(phone, { ...state, failures, lockedUntil });
+  return getOtpStatus(phone);
+}
+
+// The gateway said the phone is locked; show it for as long as it says
+export function recordOtpLockout(phone: string, retryAfterSeconds: number) {
+  const state = read(phone);
+  write(phone, {
+    ...state,
+    failures: MAX_WRONG_ATTEMPTS,
+    lockedUntil: Date.now() + retryAfterSeconds * 1000,
+  });
+}
+
+export function clearOtpState(phone: string) {
+  localStorage.removeItem(STORAGE_PREFIX + phone);
+}
+
+// 75 → "1:15"
+export function formatCountdown(seconds: number): string {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${String(s).padStart(2, "0")}`;
+}
+
+export function lockoutMessage(lockedForSeconds: number): string {
+  return `Too many wrong codes. Try again in ${formatCountdown(lockedForSeconds)}.`;
+}
@@ -0,0 +1,87 @@
+import {
+  getCountries,
+  getCountryCallingCode,
+  parsePhoneNumberFromString,
+  type CountryCode,
+  type PhoneNumber,
+} from "libphonenumber-js/max";
+
+export type { CountryCode };
+
+/* -----------------------------------------------------
+   Phone numbers are stored in E.164 (+919876543210).
+   Input without a "+" is read as a national number of
+   the given country (India unless told otherwise).
+   Validation uses libphonenumber's full metadata.
+   ----------------------------------------------------- */
+export const DEFAULT_COUNTRY: CountryCode = "IN";
+
+const clean = (raw: unknown) => String(raw ?? "").trim().replace(/[^\d+]/g, "");
+
+function parse(raw: unknown, country: CountryCode): PhoneNumber | undefined {
+  const text = String(raw ?? "").trim();
+  return text ? parsePhoneNumberFromString(text, country) : undefined;
+}
+
+// E.164 for a valid number, otherwise null
+export function toE164(raw: unknown, country: CountryCode = DEFAULT_COUNTRY): string | null {
+  const parsed = parse(raw, country);
+  return parsed?.isValid() ? parsed.number : null;
+}
+
+export function isValidPhone(raw: unknown, country: CountryCode = DEFAULT_COUNTRY): boolean {
+  return toE164(raw, country) !== null;
+}
+
+// Best effort for lookups: E.164 when it parses, else the cleaned input
+export function normalizePhone(raw: unknown, country: CountryCode = DEFAULT_COUNTRY): string {
+  return parse(raw, country)?.number ?? clean(raw);
+}
+
+// Older rows may hold the bare national number → match every spelling
+export function phoneLookupKeys(raw: unknown, country: CountryCode = DEFAULT_COUNTRY): string[] {
+  const parsed = parse(raw, country);
+  return Array.from(
+    new Set([parsed?.number, parsed?.nationalNumber, clean(raw)].filter(Boolean) as string[])
+  );
+}
+
+// Legacy data may hold one number under several spellings; the E.164
+// row wins, then the others in phoneLookupKeys order
+export function pickPhoneMatch<T extends { phone: string }>(rows: T[], raw: unknown): T | null {
+  for (const key of phoneLookupKeys(raw)) {
+    const row = rows.find((r) => r.phone === key);
+    if (row) return row;
+  }
+  return null;
+}
+
+// "+919876543210" → "+91 98765 43210"
+export function formatPhone(e164: string): string {
+  return parse(e164, DEFAULT_COUNTRY)?.formatInternational() ?? e164;
+}
+
+export function invalidPhoneMessage(raw: unknown, country: CountryCode = DEFAULT_COUNTRY): string {
+  const example = country === "IN" ? " Example: +919876543210" : "";
+  return `"${String(raw ?? "").trim()}" is not a valid ${countryName(country)} phone number.${example}`;
+}
+
+/* -----------------------------------------------------
+   Country picker options
+   ----------------------------------------------------- */
+export interface CountryOption {
+  code: CountryCode;
+  name: string;
+  callingCode: string; // without "+"
+}
+
+const regionNames =
+  typeof Intl.DisplayNames === "function" ? new Intl.DisplayNames(["en"], { type: "region" }) : null;
+
+export function countryName(code: CountryCode): string {
+  return regionNames?.of(code) ?? code;
+}
+
+export const COUNTRY_OPTIONS: CountryOption[] = getCountries()
+  .map((code) => ({ code, name: countryName(code), callingCode: getCountryCallingCode(code) }))
+  .sort((a, b) => a.name.localeCompare(b.name));
@@ -0,0 +1,99 @@
+import type {
+  DocumentFile,
+  ItemReview,
+  RejectionReason,
+  RequiredDocument,
+  ReviewItemType,
+} from "../types";
+
+/* -----------------------------------------------------
+   Per-item review of an asset's evidence. Every document
+   (its current version) and every image needs an
+   "accepted" before the asset can be granted; a
+   rejection reopens that item for re-upload.
+   ----------------------------------------------------- */
+export const REJECTION_REASON_LABELS: Record<RejectionReason, string> = {
+  blurry: "Blurry or unreadable",
+  wrong_document: "Wrong document",
+  expired: "Expired",
+  details_mismatch: "Details don't match the beneficiary",
+  incomplete: "Incomplete or pages missing",
+  suspected_tampering: "Looks edited or tampered with",
+  other: "Other",
+};
+
+// Images have no row of their own; they are reviewed by storage key.
+// Public URLs → the path (stable across reloads); data: URLs (demo) → a short hash.
+export function imageReviewRef(url: string): string {
+  if (url.startsWith("data:")) {
+    let hash = 0x811c9dc5; // FNV-1a
+    for (let i = 0; i < url.length; i++) {
+      hash ^= url.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return `data:${(hash >>> 0).toString(16)}:${url.length}`;
+  }
+  return url.split("?")[0].split("/object/public/").pop()!;
+}
+
+const keyOf = (type: ReviewItemType, ref: string) => `${type}:${ref}`;
+
+export type ReviewIndex = Record<string, ItemReview>;
+
+// Latest decision per item (reviews arrive oldest first)
+export function indexReviews(reviews: ItemReview[]): ReviewIndex {
+  const index: ReviewIndex = {};
+  for (const review of reviews) index[keyOf(review.item_type, review.item_ref)] = review;
+  return index;
+}
+
+export function documentReview(index: ReviewIndex, current: DocumentFile | undefined) {
+  return current ? index[keyOf("document", current.id)] ?? null : null;
+}
+
+export function imageReview(index: ReviewIndex, url: string) {
+  return index[keyOf("image", imageReviewRef(url))] ?? null;
+}
+
+export interface ReviewSummary {
+  total: number; // documents + images
+  missing: number; // documents without any upload
+  accepted: number;
+  rejected: number;
+  unreviewed: number;
+  grantable: boolean;
+}
+
+export function summarizeReview(
+  documents: RequiredDocument[],
+  files: Record<string, DocumentFile[]>, // document id → versions, newest first
+  images: string[],
+  index: ReviewIndex
+): ReviewSummary {
+  const summary = { total: 0, missing: 0, accepted: 0, rejected: 0, unreviewed: 0 };
+  const count = (review: ItemReview | null) => {
+    summary.total++;
+    if (!review) summary.unreviewed++;
+    else if (review.decision === "accepted") summary.accepted++;
+    else summary.rejected++;
+  };
+
+  for (const doc of documents) {
+    const current = files[doc.id]?.[0];
+    if (!current) {
+      summary.total++;
+      summary.missing++;
+    } else {
+      count(documentReview(index, current));
+    }
+  }
+  images.forEach((url) => count(imageReview(index, url)));
+
+  return { ...summary, grantable: summary.total > 0 && summary.accepted === summary.total };
+}
+
+// "Blurry or unreadable — name is cut off"
+export function describeRejection(review: ItemReview): string {
+  const reason = review.reason ? REJECTION_REASON_LABELS[review.reason] : "Rejected";
+  return review.note ? `${reason} — ${review.note}` : reason;
+}
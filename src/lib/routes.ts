@@ -0,0 +1,65 @@
+import type { UserRole } from "../types";
+
+/* -----------------------------------------------------
+   Route table — every screen is addressable by URL so
+   refreshes, bookmarks and back/forward keep working.
+   ----------------------------------------------------- */
+export const ROUTES = {
+  splash: "/",
+  login: "/login",
+  otp: "/otp",
+
+  // Super admin
+  adminBanks: "/admin/banks",
+  adminBank: (bankId: string) => `/admin/banks/${bankId}`,
+  adminAdd: "/admin/add",
+  adminAnalytics: "/admin/analytics",
+  adminActivity: "/admin/activity",
+
+  // Loan manager
+  lmUsers: "/lm/users",
+  lmUser: (userId: string) => `/lm/users/${userId}`,
+  lmAdd: "/lm/add",
+
+  // Beneficiary
+  myAssets: "/me/assets",
+  myAsset: (assetId: string) => `/me/assets/${assetId}`,
+} as const;
+
+// Path prefix owned by each role's dashboard
+const ROLE_PREFIX: Record<UserRole, string> = {
+  superadmin: "/admin",
+  loanmanager: "/lm",
+  user: "/me",
+};
+
+// Landing page after login for each role
+export function homePathFor(role: UserRole): string {
+  switch (role) {
+    case "superadmin":
+      return ROUTES.adminBanks;
+    case "loanmanager":
+      return ROUTES.lmUsers;
+    case "user":
+      return ROUTES.myAssets;
+  }
+}
+
+// True when `path` belongs to the dashboard of `role`
+export function canAccess(role: UserRole, path: string): boolean {
+  const prefix = ROLE_PREFIX[role];
+  return path === prefix || path.startsWith(prefix + "/");
+}
+
+/* -----------------------------------------------------
+   Where to land after login: the page the guard bounced
+   us from (if this role may see it), else the role home.
+   ----------------------------------------------------- */
+export function redirectTargetFor(role: UserRole, from?: string | null): string {
+  return from && canAccess(role, from) ? from : homePathFor(role);
+}
+
+// Shape of `location.state` carried from a guard through login → OTP
+export interface RedirectState {
+  from?: string;
+}
@@ -0,0 +1,319 @@
+import {
+  ASSET_STATUSES,
+  AUDIT_ACTIONS,
+  AUDIT_TARGET_TYPES,
+  REJECTION_REASONS,
+  REVIEW_DECISIONS,
+  REVIEW_ITEM_TYPES,
+  USER_ROLES,
+  type Asset,
+  type AssetTransition,
+  type AuditEvent,
+  type Bank,
+  type Branch,
+  type DocumentFile,
+  type ItemReview,
+  type Region,
+  type RequiredDocument,
+  type User,
+} from "../types";
+import type { AddedBeneficiary, AssetFact, ImportResult, LoginCount } from "./data/types";
+import { upgradeAssetStatus } from "./assetLifecycle";
+
+/* -----------------------------------------------------
+   Column lists — select exactly what the parsers check
+   ----------------------------------------------------- */
+export const USER_COLUMNS = "id, name, phone, role, status, asset, bank_id, loan_manager_id, branch_id, deactivated_at";
+export const BANK_COLUMNS = "id, name, deleted_at";
+export const REGION_COLUMNS = "id, bank_id, name";
+export const BRANCH_COLUMNS = "id, bank_id, region_id, name, branch_manager";
+export const ASSET_COLUMNS =
+  "id, user_id, asset_name, status, issued_date, image_url, latitude, longitude, location_address, created_at, verified_at";
+export const REQUIRED_DOCUMENT_COLUMNS = "id, asset_id, document_name, is_uploaded, uploaded_at";
+export const DOCUMENT_FILE_COLUMNS =
+  "id, document_id, asset_id, version, file_name, mime_type, size_bytes, storage_path, uploaded_at";
+export const ITEM_REVIEW_COLUMNS =
+  "id, asset_id, item_type, item_ref, decision, reason, note, reviewed_by, reviewed_at";
+export const ASSET_TRANSITION_COLUMNS =
+  "id, asset_id, from_status, to_status, actor_id, actor_role, reason, created_at";
+export const AUDIT_EVENT_COLUMNS =
+  "id, action, actor_id, actor_name, actor_role, target_type, target_id, asset_id, before, after, created_at";
+
+/* -----------------------------------------------------
+   Thrown when Supabase returns a row that does not match
+   the domain types (missing column, unknown role, ...)
+   ----------------------------------------------------- */
+export class RowValidationError extends Error {
+  constructor(
+    public readonly table: string,
+    public readonly field: string,
+    public readonly value: unknown
+  ) {
+    super(`Invalid ${table}.${field}: ${JSON.stringify(value)}`);
+    this.name = "RowValidationError";
+  }
+}
+
+type Row = Record<string, unknown>;
+
+function asRow(table: string, value: unknown): Row {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new RowValidationError(table, "*", value);
+  }
+  return value as Row;
+}
+
+// ids may be uuid strings or bigint serials depending on the table
+function id(table: string, row: Row, field: string): string {
+  const v = row[field];
+  if (typeof v === "string" && v) return v;
+  if (typeof v === "number" && Number.isFinite(v)) return String(v);
+  throw new RowValidationError(table, field, v);
+}
+
+function optionalId(table: string, row: Row, field: string): string | null {
+  return row[field] == null ? null : id(table, row, field);
+}
+
+function text(table: string, row: Row, field: string): string {
+  const v = row[field];
+  if (typeof v !== "string") throw new RowValidationError(table, field, v);
+  return v;
+}
+
+function optionalText(table: string, row: Row, field: string): string | null {
+  return row[field] == null ? null : text(table, row, field);
+}
+
+function optionalNumber(table: string, row: Row, field: string): number | null {
+  const v = row[field];
+  if (v == null) return null;
+  if (typeof v !== "number" || !Number.isFinite(v)) {
+    throw new RowValidationError(table, field, v);
+  }
+  return v;
+}
+
+function num(table: string, row: Row, field: string): number {
+  const v = optionalNumber(table, row, field);
+  if (v == null) throw new RowValidationError(table, field, v);
+  return v;
+}
+
+function bool(table: string, row: Row, field: string): boolean {
+  const v = row[field];
+  if (typeof v !== "boolean") throw new RowValidationError(table, field, v);
+  return v;
+}
+
+function optionalObject(table: string, row: Row, field: string): Record<string, unknown> | null {
+  const v = row[field];
+  if (v == null) return null;
+  if (typeof v !== "object" || Array.isArray(v)) throw new RowValidationError(table, field, v);
+  return v as Record<string, unknown>;
+}
+
+function oneOf<T extends string>(
+  table: string,
+  row: Row,
+  field: string,
+  allowed: readonly T[]
+): T {
+  const v = row[field];
+  if (!allowed.includes(v as T)) throw new RowValidationError(table, field, v);
+  return v as T;
+}
+
+// Accepts the pre-lifecycle values and returns their lifecycle equivalent
+function assetStatus(table: string, row: Row, field: string) {
+  return oneOf(table, { [field]: upgradeAssetStatus(row[field]) }, field, ASSET_STATUSES);
+}
+
+/* -----------------------------------------------------
+   Row parsers
+   ----------------------------------------------------- */
+export function parseUser(value: unknown): User {
+  const row = asRow("users", value);
+  return {
+    id: id("users", row, "id"),
+    name: text("users", row, "name"),
+    phone: text("users", row, "phone"),
+    role: oneOf("users", row, "role", USER_ROLES),
+    status: row.status == null ? null : assetStatus("users", row, "status"),
+    asset: optionalText("users", row, "asset"),
+    bank_id: optionalId("users", row, "bank_id"),
+    loan_manager_id: optionalId("users", row, "loan_manager_id"),
+    branch_id: optionalId("users", row, "branch_id"),
+    deactivated_at: optionalText("users", row, "deactivated_at"),
+  };
+}
+
+export function parseBank(value: unknown): Bank {
+  const row = asRow("banks", value);
+  return {
+    id: id("banks", row, "id"),
+    name: text("banks", row, "name"),
+    deleted_at: optionalText("banks", row, "deleted_at"),
+  };
+}
+
+export function parseRegion(value: unknown): Region {
+  const row = asRow("regions", value);
+  return {
+    id: id("regions", row, "id"),
+    bank_id: id("regions", row, "bank_id"),
+    name: text("regions", row, "name"),
+  };
+}
+
+export function parseBranch(value: unknown): Branch {
+  const row = asRow("branches", value);
+  return {
+    id: id("branches", row, "id"),
+    bank_id: id("branches", row, "bank_id"),
+    region_id: id("branches", row, "region_id"),
+    name: text("branches", row, "name"),
+    branch_manager: text("branches", row, "branch_manager"),
+  };
+}
+
+export function parseAsset(value: unknown): Asset {
+  const row = asRow("assets", value);
+  return {
+    id: id("assets", row, "id"),
+    user_id: id("assets", row, "user_id"),
+    asset_name: text("assets", row, "asset_name"),
+    status: assetStatus("assets", row, "status"),
+    issued_date: optionalText("assets", row, "issued_date"),
+    image_url: optionalText("assets", row, "image_url"),
+    latitude: optionalNumber("assets", row, "latitude"),
+    longitude: optionalNumber("assets", row, "longitude"),
+    location_address: optionalText("assets", row, "location_address"),
+    created_at: optionalText("assets", row, "created_at"),
+    verified_at: optionalText("assets", row, "verified_at"),
+  };
+}
+
+export function parseRequiredDocument(value: unknown): RequiredDocument {
+  const row = asRow("required_documents", value);
+  return {
+    id: id("required_documents", row, "id"),
+    asset_id: id("required_documents", row, "asset_id"),
+    document_name: text("required_documents", row, "document_name"),
+    is_uploaded: bool("required_documents", row, "is_uploaded"),
+    uploaded_at: optionalText("required_documents", row, "uploaded_at"),
+  };
+}
+
+export function parseDocumentFile(value: unknown): DocumentFile {
+  const row = asRow("document_files", value);
+  return {
+    id: id("document_files", row, "id"),
+    document_id: id("document_files", row, "document_id"),
+    asset_id: id("document_files", row, "asset_id"),
+    version: num("document_files", row, "version"),
+    file_name: text("document_files", row, "file_name"),
+    mime_type: text("document_files", row, "mime_type"),
+    size_bytes: num("document_files", row, "size_bytes"),
+    storage_path: text("document_files", row, "storage_path"),
+    uploaded_at: text("document_files", row, "uploaded_at"),
+  };
+}
+
+export function parseItemReview(value: unknown): ItemReview {
+  const row = asRow("item_reviews", value);
+  return {
+    id: id("item_reviews", row, "id"),
+    asset_id: id("item_reviews", row, "asset_id"),
+    item_type: oneOf("item_reviews", row, "item_type", REVIEW_ITEM_TYPES),
+    item_ref: text("item_reviews", row, "item_ref"),
+    decision: oneOf("item_reviews", row, "decision", REVIEW_DECISIONS),
+    reason: row.reason == null ? null : oneOf("item_reviews", row, "reason", REJECTION_REASONS),
+    note: optionalText("item_reviews", row, "note"),
+    reviewed_by: optionalId("item_reviews", row, "reviewed_by"),
+    reviewed_at: text("item_reviews", row, "reviewed_at"),
+  };
+}
+
+export function parseAssetTransition(value: unknown): AssetTransition {
+  const row = asRow("asset_transitions", value);
+  return {
+    id: id("asset_transitions", row, "id"),
+    asset_id: id("asset_transitions", row, "asset_id"),
+    from_status: assetStatus("asset_transitions", row, "from_status"),
+    to_status: assetStatus("asset_transitions", row, "to_status"),
+    actor_id: optionalId("asset_transitions", row, "actor_id"),
+    actor_role: oneOf("asset_transitions", row, "actor_role", USER_ROLES),
+    reason: optionalText("asset_transitions", row, "reason"),
+    created_at: text("asset_transitions", row, "created_at"),
+  };
+}
+
+export function parseAuditEvent(value: unknown): AuditEvent {
+  const row = asRow("audit_events", value);
+  return {
+    id: id("audit_events", row, "id"),
+    action: oneOf("audit_events", row, "action", AUDIT_ACTIONS),
+    actor_id: optionalId("audit_events", row, "actor_id"),
+    actor_name: optionalText("audit_events", row, "actor_name"),
+    actor_role: row.actor_role == null ? null : oneOf("audit_events", row, "actor_role", USER_ROLES),
+    target_type: oneOf("audit_events", row, "target_type", AUDIT_TARGET_TYPES),
+    target_id: optionalText("audit_events", row, "target_id"),
+    asset_id: optionalId("audit_events", row, "asset_id"),
+    before: optionalObject("audit_events", row, "before"),
+    after: optionalObject("audit_events", row, "after"),
+    created_at: text("audit_events", row, "created_at"),
+  };
+}
+
+// Row of the login_counts() function
+export function parseLoginCount(value: unknown): LoginCount {
+  const row = asRow("login_counts", value);
+  return {
+    day: text("login_counts", row, "day"),
+    role: oneOf("login_counts", row, "role", USER_ROLES),
+    bank_id: optionalId("login_counts", row, "bank_id"),
+    logins: num("login_counts", row, "logins"),
+  };
+}
+
+// Row of the asset_facts() function
+export function parseAssetFact(value: unknown): AssetFact {
+  const row = asRow("asset_facts", value);
+  return {
+    asset_id: id("asset_facts", row, "asset_id"),
+    bank_id: optionalId("asset_facts", row, "bank_id"),
+    loan_manager_id: optionalId("asset_facts", row, "loan_manager_id"),
+    status: assetStatus("asset_facts", row, "status"),
+    created_at: text("asset_facts", row, "created_at"),
+    submitted_at: optionalText("asset_facts", row, "submitted_at"),
+    decided_at: optionalText("asset_facts", row, "decided_at"),
+    queued_at: optionalText("asset_facts", row, "queued_at"),
+    ai_checks: num("asset_facts", row, "ai_checks"),
+    ai_rejections: num("asset_facts", row, "ai_rejections"),
+  };
+}
+
+// Result of the import_beneficiaries() function
+export function parseImportResult(value: unknown): ImportResult {
+  const row = asRow("import_beneficiaries", value);
+  return {
+    users_created: num("import_beneficiaries", row, "users_created"),
+    assets_created: num("import_beneficiaries", row, "assets_created"),
+    assets_updated: num("import_beneficiaries", row, "assets_updated"),
+  };
+}
+
+// Result of the add_beneficiary() function
+export function parseAddedBeneficiary(value: unknown): AddedBeneficiary {
+  const row = asRow("add_beneficiary", value);
+  return {
+    user: parseUser(row.user),
+    added_to_existing: bool("add_beneficiary", row, "added_to_existing"),
+  };
+}
+
+// Parses a whole result set; null (no rows) becomes []
+export function parseRows<T>(parse: (value: unknown) => T, rows: unknown[] | null | undefined): T[] {
+  return (rows ?? []).map(parse);
+}
@@ -0,0 +1,35 @@
+/* -----------------------------------------------------
+   WebOTP (Chrome on Android): reads the code straight
+   from the incoming SMS once the user taps "Allow".
+   The SMS must end with a line binding it to this
+   origin, e.g. for https://authen-x-xkou.vercel.app:
+
+     Your AuthenX code is 123456
+
+     @authen-x-xkou.vercel.app #123456
+
+   (set this as the SMS template in Supabase Auth)
+   ----------------------------------------------------- */
+
+// Not in lib.dom yet
+interface OTPCredential extends Credential {
+  code: string;
+}
+
+export const isWebOtpSupported = () =>
+  typeof window !== "undefined" && "OTPCredential" in window;
+
+// Resolves with the code, or null when unsupported, dismissed or aborted
+export async function readSmsOtp(signal: AbortSignal): Promise<string | null> {
+  if (!isWebOtpSupported()) return null;
+  try {
+    const credential = (await navigator.credentials.get({
+      otp: { transport: ["sms"] },
+      signal,
+    } as CredentialRequestOptions)) as OTPCredential | null;
+    return credential?.code ?? null;
+  } catch (err: any) {
+    if (err?.name !== "AbortError") console.warn("⚠️ WebOTP failed:", err);
+    return null;
+  }
+}
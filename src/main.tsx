@@ -1,7 +1,12 @@
 
   import { createRoot } from "react-dom/client";
+  import { BrowserRouter } from "react-router-dom";
   import App from "./App.tsx";
   import "./index.css";
 
-  createRoot(document.getElementById("root")!).render(<App />);
-  
\ No newline at end of file
+  createRoot(document.getElementById("root")!).render(
+    <BrowserRouter>
+      <App />
+    </BrowserRouter>
+  );
+  
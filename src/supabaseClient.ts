@@ -1,6 +1,10 @@
 import { createClient } from '@supabase/supabase-js'
+import { DEMO_MODE } from './lib/demo'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL as string
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY as string
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey)
+// Demo mode has no Supabase project; the placeholder client is never called
+export const supabase = DEMO_MODE
+  ? createClient('http://localhost:54321', 'demo-anon-key')
+  : createClient(supabaseUrl, supabaseAnonKey)
@@ -1,42 +1,192 @@
-export type UserRole = 'superadmin' | 'bankadmin' | 'user';
+// ==========================================================
+// Domain types — one interface per Supabase table row.
+// Column names match the database (snake_case); rows are
+// checked at runtime by the parsers in lib/schema.ts.
+// ==========================================================
 
+export const USER_ROLES = ['superadmin', 'loanmanager', 'user'] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+// Lifecycle order; allowed moves between them live in lib/assetLifecycle.ts
+export const ASSET_STATUSES = [
+  'draft',
+  'awaiting_evidence',
+  'submitted',
+  'under_review',
+  'authenticated',
+  'rejected',
+  'resubmitted',
+] as const;
+export type AssetStatus = (typeof ASSET_STATUSES)[number];
+
+export const REVIEW_ITEM_TYPES = ['document', 'image'] as const;
+export type ReviewItemType = (typeof REVIEW_ITEM_TYPES)[number];
+
+export const REVIEW_DECISIONS = ['accepted', 'rejected'] as const;
+export type ReviewDecision = (typeof REVIEW_DECISIONS)[number];
+
+export const REJECTION_REASONS = [
+  'blurry',
+  'wrong_document',
+  'expired',
+  'details_mismatch',
+  'incomplete',
+  'suspected_tampering',
+  'other',
+] as const;
+export type RejectionReason = (typeof REJECTION_REASONS)[number];
+
+// `users` — beneficiaries, loan managers and super admins
 export interface User {
   id: string;
   name: string;
   phone: string;
   role: UserRole;
-  bankId?: string;
+  status: AssetStatus | null;
+  asset: string | null;
+  bank_id: string | null;
+  loan_manager_id: string | null; // beneficiaries: the loan manager responsible for them
+  branch_id: string | null; // loan managers: the branch they work at
+  deactivated_at: string | null; // set when the account is switched off; it can't sign in
 }
 
+// `banks` — one row per bank; its branches are grouped into regions.
+// Deleted banks stay for their history, with deleted_at set
 export interface Bank {
   id: string;
   name: string;
-  branch: string;
-  branchManager: string;
-  employees: Employee[];
+  deleted_at: string | null;
 }
 
-export interface Employee {
+// `regions` — a bank's grouping of branches, e.g. "West"
+export interface Region {
   id: string;
+  bank_id: string;
   name: string;
-  phone: string;
-  bankId: string;
 }
 
-export interface Asset {
+// `branches` — where loan managers work
+export interface Branch {
   id: string;
+  bank_id: string; // always the region's bank
+  region_id: string;
   name: string;
-  userId: string;
-  status: 'pending' | 'non-verified' | 'authenticated';
-  imageUrl?: string;
-  uploadedAt?: Date;
-  verifiedAt?: Date;
+  branch_manager: string;
 }
 
-export interface BeneficiaryUser {
+// `assets` — one loan-financed asset of a beneficiary
+export interface Asset {
   id: string;
-  name: string;
-  phone: string;
-  assetsAllocated: string[];
-  images?: string[];
+  user_id: string;
+  asset_name: string;
+  status: AssetStatus;
+  issued_date: string | null;
+  image_url: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  location_address: string | null;
+  created_at: string | null;
+  verified_at: string | null;
+}
+
+// `required_documents` — checklist entries of an asset;
+// is_uploaded / uploaded_at follow the latest document_files row
+export interface RequiredDocument {
+  id: string;
+  asset_id: string;
+  document_name: string;
+  is_uploaded: boolean;
+  uploaded_at: string | null;
+}
+
+// `document_files` — every uploaded version of a required document
+export interface DocumentFile {
+  id: string;
+  document_id: string;
+  asset_id: string;
+  version: number; // 1, 2, … — the highest is the current file
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  storage_path: string; // key in the asset-documents bucket
+  uploaded_at: string;
+}
+
+// `item_reviews` — a loan manager's decision on one document
+// version or one image; the latest row per item is current
+export interface ItemReview {
+  id: string;
+  asset_id: string;
+  item_type: ReviewItemType;
+  item_ref: string; // document_files.id, or the image's storage key
+  decision: ReviewDecision;
+  reason: RejectionReason | null; // required when rejected
+  note: string | null;
+  reviewed_by: string | null; // users.id
+  reviewed_at: string;
+}
+
+// `asset_transitions` — audit trail of every asset status change
+export interface AssetTransition {
+  id: string;
+  asset_id: string;
+  from_status: AssetStatus;
+  to_status: AssetStatus;
+  actor_id: string | null; // users.id
+  actor_role: UserRole;
+  reason: string | null; // required for rejections
+  created_at: string;
+}
+
+export const AUDIT_ACTIONS = [
+  'auth.login',
+  'auth.logout',
+  'user.create',
+  'bank.create',
+  'asset.create',
+  'asset.update',
+  'asset.transition',
+  'document.upload',
+  'image.verify',
+  'image.upload',
+  'image.delete',
+  'review.record',
+  'import.excel',
+  'bank.update',
+  'bank.delete',
+  'user.deactivate',
+  'user.transfer',
+  'region.create',
+  'branch.create',
+  'branch.update',
+  'user.update',
+] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_TARGET_TYPES = [
+  'user',
+  'bank',
+  'asset',
+  'document',
+  'image',
+  'review',
+  'import',
+  'region',
+  'branch',
+] as const;
+export type AuditTargetType = (typeof AUDIT_TARGET_TYPES)[number];
+
+// `audit_events` — append-only log of every state-changing action
+export interface AuditEvent {
+  id: string;
+  action: AuditAction;
+  actor_id: string | null; // users.id; null for system changes
+  actor_name: string | null; // as it was when the action happened
+  actor_role: UserRole | null;
+  target_type: AuditTargetType;
+  target_id: string | null;
+  asset_id: string | null; // set for everything shown on an asset's timeline
+  before: Record<string, unknown> | null; // changed fields only
+  after: Record<string, unknown> | null;
+  created_at: string;
 }
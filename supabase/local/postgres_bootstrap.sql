@@ -0,0 +1,59 @@
+-- ==========================================================
+-- Plain Postgres (15+) only: the pieces a Supabase stack
+-- already provides and the migrations rely on — the API
+-- roles, auth.jwt() and the storage tables. Run it once
+-- before the migrations; never against Supabase itself.
+-- ==========================================================
+
+do $$
+begin
+  create role anon nologin;
+exception
+  when duplicate_object then null;
+end;
+$$;
+
+do $$
+begin
+  create role authenticated nologin;
+exception
+  when duplicate_object then null;
+end;
+$$;
+
+-- Claims of the caller, as PostgREST sets them:
+--   set request.jwt.claims = '{"phone": "919876543210"}';
+create schema if not exists auth;
+create or replace function auth.jwt()
+returns jsonb
+language sql
+stable
+as $$
+  select coalesce(nullif(current_setting('request.jwt.claims', true), ''), '{}')::jsonb;
+$$;
+
+create schema if not exists storage;
+create table if not exists storage.buckets (
+  id                 text primary key,
+  name               text not null unique,
+  public             boolean not null default false,
+  file_size_limit    bigint,
+  allowed_mime_types text[],
+  created_at         timestamptz not null default now()
+);
+create table if not exists storage.objects (
+  id         uuid primary key default gen_random_uuid(),
+  bucket_id  text references storage.buckets (id),
+  name       text not null,
+  metadata   jsonb,
+  created_at timestamptz not null default now(),
+  unique (bucket_id, name)
+);
+alter table storage.objects enable row level security;
+
+-- Supabase's default grants; row-level security does the rest
+grant usage on schema public, auth, storage to anon, authenticated;
+alter default privileges in schema public grant all on tables to anon, authenticated;
+alter default privileges in schema public grant usage, select on sequences to anon, authenticated;
+alter default privileges in schema public grant execute on functions to anon, authenticated;
+grant select, insert, delete on storage.objects to authenticated;
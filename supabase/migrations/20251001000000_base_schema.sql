@@ -0,0 +1,73 @@
+-- ==========================================================
+-- Base schema: the tables the app started with. Later
+-- migrations add the lifecycle, audit log, bank scoping
+-- and the enum types on top of these.
+-- Every statement is idempotent, so projects whose tables
+-- were created by hand can apply it as well.
+-- ==========================================================
+
+create extension if not exists pgcrypto;
+
+create table if not exists public.banks (
+  id             uuid primary key default gen_random_uuid(),
+  name           text not null check (btrim(name) <> ''),
+  branch         text not null check (btrim(branch) <> ''),
+  branch_manager text not null,
+  created_at     timestamptz not null default now()
+);
+
+-- Beneficiaries, loan managers and super admins. Phones are
+-- stored in E.164 (see src/lib/phone.ts); one row per phone.
+create table if not exists public.users (
+  id         uuid primary key default gen_random_uuid(),
+  name       text not null check (btrim(name) <> ''),
+  phone      text not null check (phone ~ '^\+[1-9][0-9]{6,14}$'),
+  role       text not null check (role in ('superadmin', 'loanmanager', 'user')),
+  status     text,
+  asset      text,
+  bank_id    uuid references public.banks (id) on delete set null,
+  created_at timestamptz not null default now(),
+  constraint users_phone_key unique (phone)
+);
+
+create index if not exists users_role_idx on public.users (role);
+
+-- One loan-financed asset of a beneficiary
+create table if not exists public.assets (
+  id               uuid primary key default gen_random_uuid(),
+  user_id          uuid not null references public.users (id) on delete cascade,
+  asset_name       text not null check (btrim(asset_name) <> ''),
+  status           text not null default 'non-verified',
+  issued_date      date,
+  image_url        text,
+  latitude         double precision check (latitude between -90 and 90),
+  longitude        double precision check (longitude between -180 and 180),
+  location_address text,
+  created_at       timestamptz not null default now(),
+  verified_at      timestamptz
+);
+
+create index if not exists assets_user_id_idx on public.assets (user_id, created_at desc);
+
+-- Checklist of documents a beneficiary must upload for an asset
+create table if not exists public.required_documents (
+  id            uuid primary key default gen_random_uuid(),
+  asset_id      uuid not null references public.assets (id) on delete cascade,
+  document_name text not null check (btrim(document_name) <> ''),
+  is_uploaded   boolean not null default false,
+  uploaded_at   timestamptz
+);
+
+create index if not exists required_documents_asset_id_idx on public.required_documents (asset_id);
+
+-- Photos taken on site: objects are "<asset id>/<file>", served
+-- through public URLs (src/lib/data/supabase.ts)
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'asset-images',
+  'asset-images',
+  true,
+  10485760,
+  array['image/jpeg', 'image/png', 'image/webp', 'image/heic']
+)
+on conflict (id) do nothing;
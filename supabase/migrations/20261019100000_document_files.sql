@@ -0,0 +1,32 @@
+-- ==========================================================
+-- Uploaded files for required_documents, one row per version.
+-- required_documents.is_uploaded / uploaded_at are set by the
+-- app when a version is stored (never ticked by hand).
+-- ==========================================================
+
+create table if not exists public.document_files (
+  id           uuid primary key default gen_random_uuid(),
+  document_id  uuid not null references public.required_documents (id) on delete cascade,
+  asset_id     uuid not null references public.assets (id) on delete cascade,
+  version      integer not null check (version > 0),
+  file_name    text not null,
+  mime_type    text not null,
+  size_bytes   bigint not null check (size_bytes >= 0),
+  storage_path text not null unique,
+  uploaded_at  timestamptz not null default now(),
+  unique (document_id, version)
+);
+
+create index if not exists document_files_asset_id_idx on public.document_files (asset_id);
+
+-- Private bucket: files are read through signed URLs.
+-- Limits match lib/documents.ts (10 MB, PDF or image).
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'asset-documents',
+  'asset-documents',
+  false,
+  10485760,
+  array['application/pdf', 'image/jpeg', 'image/png', 'image/webp', 'image/heic']
+)
+on conflict (id) do nothing;
@@ -0,0 +1,25 @@
+-- ==========================================================
+-- Loan manager decisions on individual evidence items:
+-- a document version (document_files.id) or an image
+-- (its storage key). The latest row per item is current.
+-- ==========================================================
+
+create table if not exists public.item_reviews (
+  id          uuid primary key default gen_random_uuid(),
+  asset_id    uuid not null references public.assets (id) on delete cascade,
+  item_type   text not null check (item_type in ('document', 'image')),
+  item_ref    text not null,
+  decision    text not null check (decision in ('accepted', 'rejected')),
+  reason      text check (
+    reason in ('blurry', 'wrong_document', 'expired', 'details_mismatch',
+               'incomplete', 'suspected_tampering', 'other')
+  ),
+  note        text,
+  reviewed_by uuid references public.users (id) on delete set null,
+  reviewed_at timestamptz not null default now(),
+  -- A rejection always says why
+  check (decision = 'accepted' or reason is not null)
+);
+
+create index if not exists item_reviews_asset_id_idx
+  on public.item_reviews (asset_id, reviewed_at);
@@ -0,0 +1,146 @@
+-- ==========================================================
+-- Asset verification lifecycle. Status changes only go
+-- through transition_asset(), which checks the same rule
+-- table as src/lib/assetLifecycle.ts, and every change is
+-- logged in asset_transitions (who, when, why).
+-- ==========================================================
+
+-- Map the pre-lifecycle values onto the new statuses
+update public.assets
+   set status = case status
+                  when 'non-verified' then 'awaiting_evidence'
+                  when 'pending' then 'submitted'
+                  else status
+                end
+ where status in ('non-verified', 'pending');
+
+update public.users
+   set status = case status
+                  when 'non-verified' then 'awaiting_evidence'
+                  when 'pending' then 'submitted'
+                  else status
+                end
+ where status in ('non-verified', 'pending');
+
+alter table public.assets drop constraint if exists assets_status_check;
+alter table public.assets
+  alter column status set default 'draft',
+  add constraint assets_status_check check (
+    status in ('draft', 'awaiting_evidence', 'submitted', 'under_review',
+               'authenticated', 'rejected', 'resubmitted')
+  );
+
+create table if not exists public.asset_transitions (
+  id          uuid primary key default gen_random_uuid(),
+  asset_id    uuid not null references public.assets (id) on delete cascade,
+  from_status text not null,
+  to_status   text not null,
+  actor_id    uuid references public.users (id) on delete set null,
+  actor_role  text not null check (actor_role in ('superadmin', 'loanmanager', 'user')),
+  reason      text,
+  created_at  timestamptz not null default now()
+);
+
+create index if not exists asset_transitions_asset_id_idx
+  on public.asset_transitions (asset_id, created_at);
+
+-- The audit trail is append-only
+revoke update, delete on public.asset_transitions from anon, authenticated;
+
+/* -----------------------------------------------------
+   Direct status updates are refused; transition_asset()
+   flags its own update for the duration of the call
+   ----------------------------------------------------- */
+create or replace function public.guard_asset_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status is distinct from old.status
+     and coalesce(current_setting('authenx.transition', true), '') <> 'on' then
+    raise exception 'assets.status changes must go through transition_asset()'
+      using errcode = '23514';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists assets_status_guard on public.assets;
+create trigger assets_status_guard
+  before update of status on public.assets
+  for each row execute function public.guard_asset_status();
+
+/* -----------------------------------------------------
+   transition_asset(asset, expected current status,
+   target status, reason) → the logged transition.
+   The actor is the users row of the signed-in phone.
+   ----------------------------------------------------- */
+create or replace function public.transition_asset(
+  p_asset_id uuid,
+  p_from     text,
+  p_to       text,
+  p_reason   text default null
+)
+returns public.asset_transitions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor   public.users;
+  v_current text;
+  v_rule    record;
+  v_row     public.asset_transitions;
+begin
+  -- Supabase stores auth phones without the leading "+"
+  select * into v_actor
+    from public.users
+   where phone in (auth.jwt() ->> 'phone', '+' || (auth.jwt() ->> 'phone'))
+   limit 1;
+  if not found then
+    raise exception 'transition_asset: caller is not a registered user' using errcode = '42501';
+  end if;
+
+  select status into v_current from public.assets where id = p_asset_id for update;
+  if not found then
+    raise exception 'transition_asset: no asset %', p_asset_id using errcode = 'P0002';
+  end if;
+  if v_current <> p_from then
+    raise exception 'transition_asset: asset is %, not %', v_current, p_from using errcode = '40001';
+  end if;
+
+  select * into v_rule
+    from (values
+      ('draft',             'awaiting_evidence', array['loanmanager'], false),
+      ('awaiting_evidence', 'submitted',         array['user'],        false),
+      ('submitted',         'under_review',      array['loanmanager'], false),
+      ('resubmitted',       'under_review',      array['loanmanager'], false),
+      ('under_review',      'authenticated',     array['loanmanager'], false),
+      ('under_review',      'rejected',          array['loanmanager'], true),
+      ('rejected',          'resubmitted',       array['user'],        false)
+    ) as t(from_status, to_status, roles, reason_required)
+   where t.from_status = p_from and t.to_status = p_to;
+
+  if not found or not (v_actor.role = any (v_rule.roles)) then
+    raise exception 'transition_asset: % may not move % → %', v_actor.role, p_from, p_to
+      using errcode = '23514';
+  end if;
+  if v_rule.reason_required and coalesce(btrim(p_reason), '') = '' then
+    raise exception 'transition_asset: % → % needs a reason', p_from, p_to using errcode = '23514';
+  end if;
+
+  perform set_config('authenx.transition', 'on', true);
+  update public.assets
+     set status = p_to,
+         verified_at = case when p_to = 'authenticated' then now() else verified_at end
+   where id = p_asset_id;
+  perform set_config('authenx.transition', 'off', true);
+
+  insert into public.asset_transitions (asset_id, from_status, to_status, actor_id, actor_role, reason)
+  values (p_asset_id, p_from, p_to, v_actor.id, v_actor.role, nullif(btrim(p_reason), ''))
+  returning * into v_row;
+  return v_row;
+end;
+$$;
+
+grant execute on function public.transition_asset(uuid, text, text, text) to authenticated;
@@ -0,0 +1,230 @@
+-- ==========================================================
+-- Append-only audit log. Triggers record every write to
+-- the app tables and the image bucket; the app itself only
+-- appends events nothing else sees (sign-in, imports).
+-- The actor is always taken from the caller's JWT.
+-- ==========================================================
+
+create table if not exists public.audit_events (
+  id          uuid primary key default gen_random_uuid(),
+  action      text not null check (
+    action in ('auth.login', 'auth.logout', 'user.create', 'bank.create',
+               'asset.create', 'asset.update', 'asset.transition',
+               'document.upload', 'image.upload', 'image.delete',
+               'review.record', 'import.excel')
+  ),
+  actor_id    uuid references public.users (id) on delete set null,
+  actor_name  text,
+  actor_role  text check (actor_role in ('superadmin', 'loanmanager', 'user')),
+  target_type text not null check (
+    target_type in ('user', 'bank', 'asset', 'document', 'image', 'review', 'import')
+  ),
+  target_id   text,
+  asset_id    uuid references public.assets (id) on delete set null,
+  before      jsonb,
+  after       jsonb,
+  created_at  timestamptz not null default now(),
+  -- What the log search in the super admin dashboard matches against
+  search_text text generated always as (
+    lower(
+      action || ' ' || coalesce(actor_name, '') || ' ' || coalesce(target_id, '') || ' ' ||
+      coalesce(before::text, '') || ' ' || coalesce(after::text, '')
+    )
+  ) stored
+);
+
+create index if not exists audit_events_asset_id_idx on public.audit_events (asset_id, created_at);
+create index if not exists audit_events_created_at_idx on public.audit_events (created_at desc);
+
+/* -----------------------------------------------------
+   users row of the signed-in phone (null for service
+   role / migrations)
+   ----------------------------------------------------- */
+create or replace function public.current_app_user()
+returns public.users
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  -- Supabase stores auth phones without the leading "+"
+  select *
+    from public.users
+   where phone in (auth.jwt() ->> 'phone', '+' || (auth.jwt() ->> 'phone'))
+   limit 1;
+$$;
+
+-- Whatever the client sends, actor and time come from the server
+create or replace function public.stamp_audit_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor public.users := public.current_app_user();
+begin
+  new.actor_id := v_actor.id;
+  new.actor_name := v_actor.name;
+  new.actor_role := v_actor.role;
+  new.created_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists audit_events_stamp on public.audit_events;
+create trigger audit_events_stamp
+  before insert on public.audit_events
+  for each row execute function public.stamp_audit_event();
+
+create or replace function public.log_audit_event(
+  p_action      text,
+  p_target_type text,
+  p_target_id   text,
+  p_asset_id    uuid,
+  p_before      jsonb,
+  p_after       jsonb
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.audit_events (action, target_type, target_id, asset_id, before, after)
+  values (p_action, p_target_type, p_target_id, p_asset_id, p_before, p_after);
+$$;
+
+/* -----------------------------------------------------
+   Row triggers
+   ----------------------------------------------------- */
+create or replace function public.audit_row_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb;
+  v_new jsonb;
+begin
+  case tg_table_name
+    when 'users' then
+      perform public.log_audit_event('user.create', 'user', new.id::text, null, null,
+        jsonb_build_object('name', new.name, 'phone', new.phone, 'role', new.role, 'bank_id', new.bank_id));
+
+    when 'banks' then
+      perform public.log_audit_event('bank.create', 'bank', new.id::text, null, null,
+        to_jsonb(new) - 'id');
+
+    when 'assets' then
+      if tg_op = 'INSERT' then
+        perform public.log_audit_event('asset.create', 'asset', new.id::text, new.id, null,
+          jsonb_build_object('user_id', new.user_id, 'asset_name', new.asset_name, 'status', new.status));
+      else
+        -- Changed columns only; status moves are logged from asset_transitions
+        select jsonb_object_agg(o.key, o.value), jsonb_object_agg(o.key, n.value)
+          into v_old, v_new
+          from jsonb_each(to_jsonb(old) - 'status' - 'verified_at') o
+          join jsonb_each(to_jsonb(new)) n using (key)
+         where o.value is distinct from n.value;
+        if v_new is not null then
+          perform public.log_audit_event('asset.update', 'asset', new.id::text, new.id, v_old, v_new);
+        end if;
+      end if;
+
+    when 'asset_transitions' then
+      perform public.log_audit_event('asset.transition', 'asset', new.asset_id::text, new.asset_id,
+        jsonb_build_object('status', new.from_status),
+        jsonb_build_object('status', new.to_status, 'reason', new.reason));
+
+    when 'document_files' then
+      perform public.log_audit_event('document.upload', 'document', new.id::text, new.asset_id, null,
+        jsonb_build_object(
+          'document_name', (select document_name from public.required_documents where id = new.document_id),
+          'file_name', new.file_name,
+          'version', new.version));
+
+    when 'item_reviews' then
+      perform public.log_audit_event('review.record', 'review', new.id::text, new.asset_id, null,
+        jsonb_build_object('item_type', new.item_type, 'item_ref', new.item_ref,
+          'decision', new.decision, 'reason', new.reason, 'note', new.note));
+  end case;
+  return null;
+end;
+$$;
+
+drop trigger if exists users_audit on public.users;
+create trigger users_audit after insert on public.users
+  for each row execute function public.audit_row_change();
+
+drop trigger if exists banks_audit on public.banks;
+create trigger banks_audit after insert on public.banks
+  for each row execute function public.audit_row_change();
+
+drop trigger if exists assets_audit on public.assets;
+create trigger assets_audit after insert or update on public.assets
+  for each row execute function public.audit_row_change();
+
+drop trigger if exists asset_transitions_audit on public.asset_transitions;
+create trigger asset_transitions_audit after insert on public.asset_transitions
+  for each row execute function public.audit_row_change();
+
+drop trigger if exists document_files_audit on public.document_files;
+create trigger document_files_audit after insert on public.document_files
+  for each row execute function public.audit_row_change();
+
+drop trigger if exists item_reviews_audit on public.item_reviews;
+create trigger item_reviews_audit after insert on public.item_reviews
+  for each row execute function public.audit_row_change();
+
+/* -----------------------------------------------------
+   Image bucket: objects are "<asset id>/<file>"; the
+   target id matches the item_ref used by item_reviews
+   ----------------------------------------------------- */
+create or replace function public.audit_asset_image()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_object storage.objects := coalesce(new, old);
+begin
+  if v_object.bucket_id <> 'asset-images' then
+    return null;
+  end if;
+  perform public.log_audit_event(
+    case when tg_op = 'INSERT' then 'image.upload' else 'image.delete' end,
+    'image',
+    v_object.bucket_id || '/' || v_object.name,
+    nullif(split_part(v_object.name, '/', 1), '')::uuid,
+    null,
+    null
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists asset_images_audit on storage.objects;
+create trigger asset_images_audit after insert or delete on storage.objects
+  for each row execute function public.audit_asset_image();
+
+/* -----------------------------------------------------
+   Access: append-only for everyone; loan managers read
+   asset timelines, super admins read everything
+   ----------------------------------------------------- */
+alter table public.audit_events enable row level security;
+revoke update, delete, truncate on public.audit_events from anon, authenticated;
+
+drop policy if exists audit_events_insert on public.audit_events;
+create policy audit_events_insert on public.audit_events
+  for insert to authenticated
+  with check (action in ('auth.login', 'auth.logout', 'import.excel'));
+
+drop policy if exists audit_events_select on public.audit_events;
+create policy audit_events_select on public.audit_events
+  for select to authenticated
+  using (
+    (public.current_app_user()).role = 'superadmin'
+    or ((public.current_app_user()).role = 'loanmanager' and asset_id is not null)
+  );
@@ -0,0 +1,36 @@
+-- ==========================================================
+-- Login analytics: successful sign-ins (auth.login audit
+-- events) per UTC day, role and the user's bank.
+-- ==========================================================
+
+create index if not exists audit_events_logins_idx
+  on public.audit_events (created_at)
+  where action = 'auth.login';
+
+create or replace function public.login_counts(p_from timestamptz, p_to timestamptz)
+returns table (day text, role text, bank_id uuid, logins integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if (public.current_app_user()).role is distinct from 'superadmin' then
+    raise exception 'login_counts: super admins only' using errcode = '42501';
+  end if;
+
+  return query
+    select to_char(e.created_at at time zone 'UTC', 'YYYY-MM-DD'),
+           e.actor_role,
+           u.bank_id,
+           count(*)::integer
+      from public.audit_events e
+      left join public.users u on u.id = e.actor_id
+     where e.action = 'auth.login'
+       and e.actor_role is not null
+       and e.created_at between p_from and p_to
+     group by 1, 2, 3;
+end;
+$$;
+
+grant execute on function public.login_counts(timestamptz, timestamptz) to authenticated;
@@ -0,0 +1,75 @@
+-- ==========================================================
+-- Funnel / SLA analytics: one row per asset with its
+-- bank, issuing loan manager, lifecycle timestamps and AI
+-- verdict counts. AI verdicts are image.verify audit
+-- events, reported by the app after each check.
+-- ==========================================================
+
+alter table public.audit_events drop constraint if exists audit_events_action_check;
+alter table public.audit_events add constraint audit_events_action_check check (
+  action in ('auth.login', 'auth.logout', 'user.create', 'bank.create',
+             'asset.create', 'asset.update', 'asset.transition',
+             'document.upload', 'image.verify', 'image.upload', 'image.delete',
+             'review.record', 'import.excel')
+);
+
+drop policy if exists audit_events_insert on public.audit_events;
+create policy audit_events_insert on public.audit_events
+  for insert to authenticated
+  with check (action in ('auth.login', 'auth.logout', 'import.excel', 'image.verify'));
+
+create index if not exists asset_transitions_to_status_idx
+  on public.asset_transitions (asset_id, to_status, created_at);
+
+create or replace function public.asset_facts(p_from timestamptz, p_to timestamptz)
+returns table (
+  asset_id        uuid,
+  bank_id         uuid,
+  loan_manager_id uuid,
+  status          text,
+  created_at      timestamptz,
+  submitted_at    timestamptz,
+  decided_at      timestamptz,
+  queued_at       timestamptz,
+  ai_checks       integer,
+  ai_rejections   integer
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if (public.current_app_user()).role is distinct from 'superadmin' then
+    raise exception 'asset_facts: super admins only' using errcode = '42501';
+  end if;
+
+  return query
+    select a.id,
+           u.bank_id,
+           (select t.actor_id from public.asset_transitions t
+             where t.asset_id = a.id and t.to_status = 'awaiting_evidence'
+             order by t.created_at limit 1),
+           a.status,
+           a.created_at,
+           (select min(t.created_at) from public.asset_transitions t
+             where t.asset_id = a.id and t.to_status = 'submitted'),
+           (select max(t.created_at) from public.asset_transitions t
+             where t.asset_id = a.id and t.to_status in ('authenticated', 'rejected')),
+           case when a.status in ('submitted', 'resubmitted', 'under_review') then
+             (select max(t.created_at) from public.asset_transitions t
+               where t.asset_id = a.id and t.to_status in ('submitted', 'resubmitted'))
+           end,
+           (select count(*)::integer from public.audit_events e
+             where e.asset_id = a.id and e.action = 'image.verify'),
+           (select count(*)::integer from public.audit_events e
+             where e.asset_id = a.id and e.action = 'image.verify'
+               and (e.after ->> 'is_real')::boolean is false)
+      from public.assets a
+      join public.users u on u.id = a.user_id
+     where (p_from is null or a.created_at >= p_from)
+       and a.created_at <= p_to;
+end;
+$$;
+
+grant execute on function public.asset_facts(timestamptz, timestamptz) to authenticated;
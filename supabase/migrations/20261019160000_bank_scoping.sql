@@ -0,0 +1,248 @@
+-- ==========================================================
+-- Bank scoping. Beneficiaries belong to the bank of the loan
+-- manager who registered them, and their assets with them.
+-- Row-level security limits loan managers to their own
+-- bank's beneficiaries; super admins see everything and a
+-- beneficiary sees only themselves.
+-- ==========================================================
+
+-- Beneficiaries registered before scoping: the bank of the loan
+-- manager who first opened one of their assets for evidence
+update public.users u
+   set bank_id = (
+     select lm.bank_id
+       from public.assets a
+       join public.asset_transitions t on t.asset_id = a.id and t.to_status = 'awaiting_evidence'
+       join public.users lm on lm.id = t.actor_id
+      where a.user_id = u.id and lm.bank_id is not null
+      order by t.created_at
+      limit 1
+   )
+ where u.role = 'user' and u.bank_id is null;
+
+create index if not exists users_bank_id_role_idx on public.users (bank_id, role);
+
+/* -----------------------------------------------------
+   Access checks shared by the policies below. Security
+   definer so they can read users / assets regardless of
+   the caller's own policies.
+   ----------------------------------------------------- */
+create or replace function public.can_access_user(p_user_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case v_me.role
+           when 'superadmin' then true
+           when 'loanmanager' then
+             v_me.id = p_user_id
+             or exists (
+               select 1 from public.users b
+                where b.id = p_user_id and b.role = 'user'
+                  and v_me.bank_id is not null and b.bank_id = v_me.bank_id
+             )
+           when 'user' then v_me.id = p_user_id
+           else false
+         end
+    from (select (public.current_app_user()).*) v_me;
+$$;
+
+create or replace function public.can_access_asset(p_asset_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select public.can_access_user(a.user_id) from public.assets a where a.id = p_asset_id),
+    false
+  );
+$$;
+
+-- Loan managers and super admins, as opposed to beneficiaries
+create or replace function public.is_staff()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((public.current_app_user()).role in ('superadmin', 'loanmanager'), false);
+$$;
+
+grant execute on function public.can_access_user(uuid) to authenticated;
+grant execute on function public.can_access_asset(uuid) to authenticated;
+grant execute on function public.is_staff() to authenticated;
+
+/* -----------------------------------------------------
+   users: loan managers add beneficiaries to their own
+   bank only; loan managers and super admins are added
+   by super admins
+   ----------------------------------------------------- */
+alter table public.users enable row level security;
+
+drop policy if exists users_select on public.users;
+create policy users_select on public.users
+  for select to authenticated
+  using (public.can_access_user(id));
+
+-- The login screen checks that a phone is registered before
+-- sending an OTP
+drop policy if exists users_select_login on public.users;
+create policy users_select_login on public.users
+  for select to anon
+  using (true);
+
+drop policy if exists users_insert on public.users;
+create policy users_insert on public.users
+  for insert to authenticated
+  with check (
+    (public.current_app_user()).role = 'superadmin'
+    or (
+      (public.current_app_user()).role = 'loanmanager'
+      and role = 'user'
+      and bank_id is not null
+      and bank_id = (public.current_app_user()).bank_id
+    )
+  );
+
+drop policy if exists users_update on public.users;
+create policy users_update on public.users
+  for update to authenticated
+  using ((public.current_app_user()).role = 'superadmin')
+  with check ((public.current_app_user()).role = 'superadmin');
+
+/* -----------------------------------------------------
+   banks: readable by staff, written by super admins
+   ----------------------------------------------------- */
+alter table public.banks enable row level security;
+
+drop policy if exists banks_select on public.banks;
+create policy banks_select on public.banks
+  for select to authenticated
+  using (public.is_staff());
+
+drop policy if exists banks_write on public.banks;
+create policy banks_write on public.banks
+  for all to authenticated
+  using ((public.current_app_user()).role = 'superadmin')
+  with check ((public.current_app_user()).role = 'superadmin');
+
+/* -----------------------------------------------------
+   assets and everything hanging off them follow the
+   beneficiary; only staff create assets and checklists
+   ----------------------------------------------------- */
+alter table public.assets enable row level security;
+
+drop policy if exists assets_select on public.assets;
+create policy assets_select on public.assets
+  for select to authenticated
+  using (public.can_access_user(user_id));
+
+drop policy if exists assets_insert on public.assets;
+create policy assets_insert on public.assets
+  for insert to authenticated
+  with check (public.is_staff() and public.can_access_user(user_id));
+
+-- Status changes are further restricted by guard_asset_status()
+drop policy if exists assets_update on public.assets;
+create policy assets_update on public.assets
+  for update to authenticated
+  using (public.can_access_user(user_id))
+  with check (public.can_access_user(user_id));
+
+alter table public.required_documents enable row level security;
+
+drop policy if exists required_documents_select on public.required_documents;
+create policy required_documents_select on public.required_documents
+  for select to authenticated
+  using (public.can_access_asset(asset_id));
+
+drop policy if exists required_documents_insert on public.required_documents;
+create policy required_documents_insert on public.required_documents
+  for insert to authenticated
+  with check (public.is_staff() and public.can_access_asset(asset_id));
+
+-- Beneficiaries mark their documents uploaded
+drop policy if exists required_documents_update on public.required_documents;
+create policy required_documents_update on public.required_documents
+  for update to authenticated
+  using (public.can_access_asset(asset_id))
+  with check (public.can_access_asset(asset_id));
+
+alter table public.document_files enable row level security;
+
+drop policy if exists document_files_select on public.document_files;
+create policy document_files_select on public.document_files
+  for select to authenticated
+  using (public.can_access_asset(asset_id));
+
+drop policy if exists document_files_insert on public.document_files;
+create policy document_files_insert on public.document_files
+  for insert to authenticated
+  with check (public.can_access_asset(asset_id));
+
+alter table public.item_reviews enable row level security;
+
+drop policy if exists item_reviews_select on public.item_reviews;
+create policy item_reviews_select on public.item_reviews
+  for select to authenticated
+  using (public.can_access_asset(asset_id));
+
+drop policy if exists item_reviews_insert on public.item_reviews;
+create policy item_reviews_insert on public.item_reviews
+  for insert to authenticated
+  with check (public.is_staff() and public.can_access_asset(asset_id));
+
+-- Rows are written by transition_asset(); beneficiaries read the
+-- rejection reason from here
+alter table public.asset_transitions enable row level security;
+
+drop policy if exists asset_transitions_select on public.asset_transitions;
+create policy asset_transitions_select on public.asset_transitions
+  for select to authenticated
+  using (public.can_access_asset(asset_id));
+
+-- Loan managers read the timelines of their own bank's assets
+drop policy if exists audit_events_select on public.audit_events;
+create policy audit_events_select on public.audit_events
+  for select to authenticated
+  using (
+    (public.current_app_user()).role = 'superadmin'
+    or (
+      (public.current_app_user()).role = 'loanmanager'
+      and asset_id is not null
+      and public.can_access_asset(asset_id)
+    )
+  );
+
+/* -----------------------------------------------------
+   Storage: objects in both buckets are "<asset id>/...".
+   asset-images is public for reading; writes are scoped.
+   ----------------------------------------------------- */
+drop policy if exists asset_documents_select on storage.objects;
+create policy asset_documents_select on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'asset-documents'
+    and public.can_access_asset(nullif(split_part(name, '/', 1), '')::uuid)
+  );
+
+drop policy if exists asset_objects_insert on storage.objects;
+create policy asset_objects_insert on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id in ('asset-documents', 'asset-images')
+    and public.can_access_asset(nullif(split_part(name, '/', 1), '')::uuid)
+  );
+
+drop policy if exists asset_images_delete on storage.objects;
+create policy asset_images_delete on storage.objects
+  for delete to authenticated
+  using (
+    bucket_id = 'asset-images'
+    and public.can_access_asset(nullif(split_part(name, '/', 1), '')::uuid)
+  );
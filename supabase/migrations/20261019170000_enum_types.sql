@@ -0,0 +1,221 @@
+-- ==========================================================
+-- Enum types for user roles and asset statuses, replacing
+-- the text + check columns. Values match USER_ROLES and
+-- ASSET_STATUSES in src/types/index.ts. Also makes sure
+-- hand-made tables get the unique phone constraint.
+-- ==========================================================
+
+do $$
+begin
+  create type public.user_role as enum ('superadmin', 'loanmanager', 'user');
+exception
+  when duplicate_object then null;
+end;
+$$;
+
+do $$
+begin
+  create type public.asset_status as enum (
+    'draft', 'awaiting_evidence', 'submitted', 'under_review',
+    'authenticated', 'rejected', 'resubmitted'
+  );
+exception
+  when duplicate_object then null;
+end;
+$$;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+     where conrelid = 'public.users'::regclass and contype = 'u'
+       and conkey = array[(select attnum from pg_attribute
+                            where attrelid = 'public.users'::regclass and attname = 'phone')]
+  ) then
+    alter table public.users add constraint users_phone_key unique (phone);
+  end if;
+end;
+$$;
+
+/* -----------------------------------------------------
+   Column type change. Postgres refuses it while a policy
+   or trigger reads the columns, including policies that
+   only read (current_app_user()).role, so those are
+   dropped around it and recreated as they were.
+   ----------------------------------------------------- */
+drop policy if exists users_insert on public.users;
+drop policy if exists users_update on public.users;
+drop policy if exists banks_write on public.banks;
+drop policy if exists audit_events_select on public.audit_events;
+drop trigger if exists assets_status_guard on public.assets;
+
+alter table public.users drop constraint if exists users_role_check;
+alter table public.assets drop constraint if exists assets_status_check;
+alter table public.assets alter column status drop default;
+
+alter table public.users
+  alter column role type public.user_role using role::public.user_role,
+  alter column status type public.asset_status using status::public.asset_status;
+
+alter table public.assets
+  alter column status type public.asset_status using status::public.asset_status,
+  alter column status set default 'draft';
+
+create trigger assets_status_guard
+  before update of status on public.assets
+  for each row execute function public.guard_asset_status();
+
+create policy users_insert on public.users
+  for insert to authenticated
+  with check (
+    (public.current_app_user()).role = 'superadmin'
+    or (
+      (public.current_app_user()).role = 'loanmanager'
+      and role = 'user'
+      and bank_id is not null
+      and bank_id = (public.current_app_user()).bank_id
+    )
+  );
+
+create policy users_update on public.users
+  for update to authenticated
+  using ((public.current_app_user()).role = 'superadmin')
+  with check ((public.current_app_user()).role = 'superadmin');
+
+create policy banks_write on public.banks
+  for all to authenticated
+  using ((public.current_app_user()).role = 'superadmin')
+  with check ((public.current_app_user()).role = 'superadmin');
+
+create policy audit_events_select on public.audit_events
+  for select to authenticated
+  using (
+    (public.current_app_user()).role = 'superadmin'
+    or (
+      (public.current_app_user()).role = 'loanmanager'
+      and asset_id is not null
+      and public.can_access_asset(asset_id)
+    )
+  );
+
+/* -----------------------------------------------------
+   Functions that mixed these columns with text. The
+   RPC signatures stay text so the client is unchanged.
+   ----------------------------------------------------- */
+create or replace function public.transition_asset(
+  p_asset_id uuid,
+  p_from     text,
+  p_to       text,
+  p_reason   text default null
+)
+returns public.asset_transitions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor   public.users := public.current_app_user();
+  v_current text;
+  v_rule    record;
+  v_row     public.asset_transitions;
+begin
+  if v_actor.id is null then
+    raise exception 'transition_asset: caller is not a registered user' using errcode = '42501';
+  end if;
+
+  select status::text into v_current from public.assets where id = p_asset_id for update;
+  if not found then
+    raise exception 'transition_asset: no asset %', p_asset_id using errcode = 'P0002';
+  end if;
+  if v_current <> p_from then
+    raise exception 'transition_asset: asset is %, not %', v_current, p_from using errcode = '40001';
+  end if;
+
+  select * into v_rule
+    from (values
+      ('draft',             'awaiting_evidence', array['loanmanager'], false),
+      ('awaiting_evidence', 'submitted',         array['user'],        false),
+      ('submitted',         'under_review',      array['loanmanager'], false),
+      ('resubmitted',       'under_review',      array['loanmanager'], false),
+      ('under_review',      'authenticated',     array['loanmanager'], false),
+      ('under_review',      'rejected',          array['loanmanager'], true),
+      ('rejected',          'resubmitted',       array['user'],        false)
+    ) as t(from_status, to_status, roles, reason_required)
+   where t.from_status = p_from and t.to_status = p_to;
+
+  if not found or not (v_actor.role::text = any (v_rule.roles)) then
+    raise exception 'transition_asset: % may not move % → %', v_actor.role, p_from, p_to
+      using errcode = '23514';
+  end if;
+  if v_rule.reason_required and coalesce(btrim(p_reason), '') = '' then
+    raise exception 'transition_asset: % → % needs a reason', p_from, p_to using errcode = '23514';
+  end if;
+  -- Loan managers only move their own bank's assets
+  if not public.can_access_asset(p_asset_id) then
+    raise exception 'transition_asset: asset % is not yours', p_asset_id using errcode = '42501';
+  end if;
+
+  perform set_config('authenx.transition', 'on', true);
+  update public.assets
+     set status = p_to::public.asset_status,
+         verified_at = case when p_to = 'authenticated' then now() else verified_at end
+   where id = p_asset_id;
+  perform set_config('authenx.transition', 'off', true);
+
+  insert into public.asset_transitions (asset_id, from_status, to_status, actor_id, actor_role, reason)
+  values (p_asset_id, p_from, p_to, v_actor.id, v_actor.role::text, nullif(btrim(p_reason), ''))
+  returning * into v_row;
+  return v_row;
+end;
+$$;
+
+create or replace function public.asset_facts(p_from timestamptz, p_to timestamptz)
+returns table (
+  asset_id        uuid,
+  bank_id         uuid,
+  loan_manager_id uuid,
+  status          text,
+  created_at      timestamptz,
+  submitted_at    timestamptz,
+  decided_at      timestamptz,
+  queued_at       timestamptz,
+  ai_checks       integer,
+  ai_rejections   integer
+)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if (public.current_app_user()).role is distinct from 'superadmin' then
+    raise exception 'asset_facts: super admins only' using errcode = '42501';
+  end if;
+
+  return query
+    select a.id,
+           u.bank_id,
+           (select t.actor_id from public.asset_transitions t
+             where t.asset_id = a.id and t.to_status = 'awaiting_evidence'
+             order by t.created_at limit 1),
+           a.status::text,
+           a.created_at,
+           (select min(t.created_at) from public.asset_transitions t
+             where t.asset_id = a.id and t.to_status = 'submitted'),
+           (select max(t.created_at) from public.asset_transitions t
+             where t.asset_id = a.id and t.to_status in ('authenticated', 'rejected')),
+           case when a.status in ('submitted', 'resubmitted', 'under_review') then
+             (select max(t.created_at) from public.asset_transitions t
+               where t.asset_id = a.id and t.to_status in ('submitted', 'resubmitted'))
+           end,
+           (select count(*)::integer from public.audit_events e
+             where e.asset_id = a.id and e.action = 'image.verify'),
+           (select count(*)::integer from public.audit_events e
+             where e.asset_id = a.id and e.action = 'image.verify'
+               and (e.after ->> 'is_real')::boolean is false)
+      from public.assets a
+      join public.users u on u.id = a.user_id
+     where (p_from is null or a.created_at >= p_from)
+       and a.created_at <= p_to;
+end;
+$$;
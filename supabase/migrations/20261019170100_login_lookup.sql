@@ -0,0 +1,33 @@
+-- ==========================================================
+-- The login screen no longer reads public.users with the
+-- anon key: it asks phone_registered() instead, which says
+-- yes or no and nothing else. Signed-in users keep the
+-- scoped users_select policy.
+-- ==========================================================
+
+drop policy if exists users_select_login on public.users;
+revoke all on public.users from anon;
+
+-- p_phones: the spellings of one number (phoneLookupKeys in src/lib/phone.ts)
+create or replace function public.phone_registered(p_phones text[])
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.users where phone = any (p_phones));
+$$;
+
+revoke all on function public.phone_registered(text[]) from public;
+grant execute on function public.phone_registered(text[]) to anon, authenticated;
+
+-- Listing an asset's photos reads storage.objects even though
+-- the bucket itself is public
+drop policy if exists asset_images_select on storage.objects;
+create policy asset_images_select on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'asset-images'
+    and public.can_access_asset(nullif(split_part(name, '/', 1), '')::uuid)
+  );
@@ -0,0 +1,8 @@
+-- ==========================================================
+-- Sign-in now goes through the gateway (server/), which
+-- looks phones up with the service role and answers the
+-- same for unknown numbers. The anon-callable check told
+-- anyone whether a number is registered, so it goes.
+-- ==========================================================
+
+drop function if exists public.phone_registered(text[]);
@@ -0,0 +1,78 @@
+-- ==========================================================
+-- Image uploads go through the gateway (server/), which
+-- runs the AI check and stores only accepted images. The
+-- asset-images bucket becomes writable by the service role
+-- alone, and the gateway records the verdict and upload
+-- events itself, naming the user it acted for.
+-- ==========================================================
+
+-- Beneficiaries can no longer write to asset-images; documents are unchanged
+drop policy if exists asset_objects_insert on storage.objects;
+drop policy if exists asset_documents_insert on storage.objects;
+create policy asset_documents_insert on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'asset-documents'
+    and public.can_access_asset(nullif(split_part(name, '/', 1), '')::uuid)
+  );
+
+-- AI verdicts come from the gateway only
+drop policy if exists audit_events_insert on public.audit_events;
+create policy audit_events_insert on public.audit_events
+  for insert to authenticated
+  with check (action in ('auth.login', 'auth.logout', 'import.excel'));
+
+/* -----------------------------------------------------
+   The actor is still taken from the caller's JWT, except
+   for the service role, which names the user it
+   authenticated in actor_id
+   ----------------------------------------------------- */
+create or replace function public.stamp_audit_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor public.users := public.current_app_user();
+begin
+  if v_actor.id is null
+     and coalesce(auth.jwt() ->> 'role', '') = 'service_role'
+     and new.actor_id is not null then
+    select * into v_actor from public.users where id = new.actor_id;
+  end if;
+  new.actor_id := v_actor.id;
+  new.actor_name := v_actor.name;
+  new.actor_role := v_actor.role;
+  new.created_at := now();
+  return new;
+end;
+$$;
+
+-- Gateway uploads are logged by the gateway, with the user's name on them
+create or replace function public.audit_asset_image()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_object storage.objects := coalesce(new, old);
+begin
+  if v_object.bucket_id <> 'asset-images' then
+    return null;
+  end if;
+  if tg_op = 'INSERT' and coalesce(auth.jwt() ->> 'role', '') = 'service_role' then
+    return null;
+  end if;
+  perform public.log_audit_event(
+    case when tg_op = 'INSERT' then 'image.upload' else 'image.delete' end,
+    'image',
+    v_object.bucket_id || '/' || v_object.name,
+    nullif(split_part(v_object.name, '/', 1), '')::uuid,
+    null,
+    null
+  );
+  return null;
+end;
+$$;
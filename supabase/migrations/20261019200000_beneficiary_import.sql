@@ -0,0 +1,94 @@
+-- ==========================================================
+-- Staged Excel import. The loan manager previews the sheet
+-- (registered_phones() flags numbers that are taken, in any
+-- bank) and then commits it through import_beneficiaries(),
+-- which writes every row or none.
+-- ==========================================================
+
+-- Phones from the list that are already registered. Staff only;
+-- says nothing about whose they are
+create or replace function public.registered_phones(p_phones text[])
+returns setof text
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if not public.is_staff() then
+    raise exception 'registered_phones: staff only' using errcode = '42501';
+  end if;
+  return query select u.phone from public.users u where u.phone = any (p_phones);
+end;
+$$;
+
+revoke all on function public.registered_phones(text[]) from public;
+grant execute on function public.registered_phones(text[]) to authenticated;
+
+/* -----------------------------------------------------
+   p_rows: [{ row, name, phone, asset_name, documents[] }]
+   with E.164 phones. A phone that belongs to the caller's
+   bank gets the asset added; any other registered phone
+   aborts the whole import. The audit triggers log each
+   insert against the caller, as for single adds.
+   ----------------------------------------------------- */
+create or replace function public.import_beneficiaries(p_file text, p_rows jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor  public.users := public.current_app_user();
+  v_row    jsonb;
+  v_user   public.users;
+  v_asset  uuid;
+  v_users  integer := 0;
+  v_assets integer := 0;
+begin
+  if v_actor.role is distinct from 'loanmanager' or v_actor.bank_id is null then
+    raise exception 'import_beneficiaries: only loan managers linked to a bank can import'
+      using errcode = '42501';
+  end if;
+
+  for v_row in select * from jsonb_array_elements(p_rows) loop
+    select * into v_user from public.users where phone = v_row ->> 'phone';
+    if not found then
+      insert into public.users (name, phone, role, status, asset, bank_id)
+      values (v_row ->> 'name', v_row ->> 'phone', 'user', 'awaiting_evidence',
+              v_row ->> 'asset_name', v_actor.bank_id)
+      returning * into v_user;
+      v_users := v_users + 1;
+    elsif v_user.role <> 'user' or v_user.bank_id is distinct from v_actor.bank_id then
+      raise exception 'import_beneficiaries: row %: % is already registered',
+        v_row ->> 'row', v_row ->> 'phone' using errcode = '23505';
+    end if;
+
+    insert into public.assets (user_id, asset_name, issued_date)
+    values (v_user.id, v_row ->> 'asset_name', current_date)
+    returning id into v_asset;
+    v_assets := v_assets + 1;
+
+    insert into public.required_documents (asset_id, document_name)
+    select v_asset, d
+      from jsonb_array_elements_text(coalesce(v_row -> 'documents', '[]'::jsonb)) d;
+
+    perform public.transition_asset(v_asset, 'draft', 'awaiting_evidence');
+  end loop;
+
+  insert into public.audit_events (action, target_type, target_id, after)
+  values ('import.excel', 'import', p_file, jsonb_build_object(
+    'file', p_file,
+    'rows', jsonb_array_length(p_rows),
+    'added', v_assets,
+    'new_users', v_users,
+    'names', (select coalesce(jsonb_agg(r ->> 'name'), '[]'::jsonb)
+                from jsonb_array_elements(p_rows) r)
+  ));
+
+  return jsonb_build_object('users_created', v_users, 'assets_created', v_assets);
+end;
+$$;
+
+revoke all on function public.import_beneficiaries(text, jsonb) from public;
+grant execute on function public.import_beneficiaries(text, jsonb) to authenticated;
@@ -0,0 +1,99 @@
+-- ==========================================================
+-- Exported beneficiary lists re-import as updates: a row
+-- carrying an asset_id renames that asset and adds the
+-- documents missing from its checklist instead of issuing
+-- a new asset. Statuses are never set by an import.
+-- ==========================================================
+
+/* -----------------------------------------------------
+   p_rows: [{ row, name, phone, asset_name, documents[],
+   asset_id }] with E.164 phones; asset_id null for new
+   assets
+   ----------------------------------------------------- */
+create or replace function public.import_beneficiaries(p_file text, p_rows jsonb)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor   public.users := public.current_app_user();
+  v_row     jsonb;
+  v_user    public.users;
+  v_asset   uuid;
+  v_users   integer := 0;
+  v_assets  integer := 0;
+  v_updated integer := 0;
+begin
+  if v_actor.role is distinct from 'loanmanager' or v_actor.bank_id is null then
+    raise exception 'import_beneficiaries: only loan managers linked to a bank can import'
+      using errcode = '42501';
+  end if;
+
+  for v_row in select * from jsonb_array_elements(p_rows) loop
+    select * into v_user from public.users where phone = v_row ->> 'phone';
+    if not found then
+      insert into public.users (name, phone, role, status, asset, bank_id)
+      values (v_row ->> 'name', v_row ->> 'phone', 'user', 'awaiting_evidence',
+              v_row ->> 'asset_name', v_actor.bank_id)
+      returning * into v_user;
+      v_users := v_users + 1;
+    elsif v_user.role <> 'user' or v_user.bank_id is distinct from v_actor.bank_id then
+      raise exception 'import_beneficiaries: row %: % is already registered',
+        v_row ->> 'row', v_row ->> 'phone' using errcode = '23505';
+    end if;
+
+    if nullif(v_row ->> 'asset_id', '') is not null then
+      select id into v_asset
+        from public.assets
+       where id = (v_row ->> 'asset_id')::uuid and user_id = v_user.id;
+      if not found then
+        raise exception 'import_beneficiaries: row %: asset % is not %''s',
+          v_row ->> 'row', v_row ->> 'asset_id', v_user.name using errcode = 'P0002';
+      end if;
+
+      update public.assets
+         set asset_name = v_row ->> 'asset_name'
+       where id = v_asset and asset_name is distinct from v_row ->> 'asset_name';
+
+      insert into public.required_documents (asset_id, document_name)
+      select v_asset, d
+        from jsonb_array_elements_text(coalesce(v_row -> 'documents', '[]'::jsonb)) d
+       where not exists (
+         select 1 from public.required_documents r
+          where r.asset_id = v_asset and lower(r.document_name) = lower(d)
+       );
+      v_updated := v_updated + 1;
+      continue;
+    end if;
+
+    insert into public.assets (user_id, asset_name, issued_date)
+    values (v_user.id, v_row ->> 'asset_name', current_date)
+    returning id into v_asset;
+    v_assets := v_assets + 1;
+
+    insert into public.required_documents (asset_id, document_name)
+    select v_asset, d
+      from jsonb_array_elements_text(coalesce(v_row -> 'documents', '[]'::jsonb)) d;
+
+    perform public.transition_asset(v_asset, 'draft', 'awaiting_evidence');
+  end loop;
+
+  insert into public.audit_events (action, target_type, target_id, after)
+  values ('import.excel', 'import', p_file, jsonb_build_object(
+    'file', p_file,
+    'rows', jsonb_array_length(p_rows),
+    'added', v_assets,
+    'updated', v_updated,
+    'new_users', v_users,
+    'names', (select coalesce(jsonb_agg(r ->> 'name'), '[]'::jsonb)
+                from jsonb_array_elements(p_rows) r)
+  ));
+
+  return jsonb_build_object(
+    'users_created', v_users,
+    'assets_created', v_assets,
+    'assets_updated', v_updated
+  );
+end;
+$$;
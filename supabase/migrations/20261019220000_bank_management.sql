@@ -0,0 +1,273 @@
+-- ==========================================================
+-- Bank lifecycle. Super admins edit banks, give them any
+-- number of loan managers and hand a leaving manager's
+-- beneficiaries to a successor. Nothing is hard-deleted:
+-- banks get deleted_at, loan managers deactivated_at, and
+-- both keep their history in the audit log.
+-- ==========================================================
+
+alter table public.banks add column if not exists deleted_at timestamptz;
+
+alter table public.users
+  add column if not exists deactivated_at timestamptz,
+  -- Beneficiaries only: the loan manager responsible for them
+  add column if not exists loan_manager_id uuid references public.users (id);
+
+create index if not exists users_loan_manager_id_idx on public.users (loan_manager_id);
+
+-- Beneficiaries registered so far: whoever first opened one of their
+-- assets for evidence
+update public.users u
+   set loan_manager_id = (
+     select t.actor_id
+       from public.assets a
+       join public.asset_transitions t on t.asset_id = a.id and t.to_status = 'awaiting_evidence'
+       join public.users lm on lm.id = t.actor_id and lm.role = 'loanmanager'
+      where a.user_id = u.id
+      order by t.created_at
+      limit 1
+   )
+ where u.role = 'user' and u.loan_manager_id is null;
+
+alter table public.audit_events drop constraint if exists audit_events_action_check;
+alter table public.audit_events add constraint audit_events_action_check check (
+  action in ('auth.login', 'auth.logout', 'user.create', 'bank.create',
+             'asset.create', 'asset.update', 'asset.transition',
+             'document.upload', 'image.verify', 'image.upload', 'image.delete',
+             'review.record', 'import.excel',
+             'bank.update', 'bank.delete', 'user.deactivate', 'user.transfer')
+);
+
+/* -----------------------------------------------------
+   Deactivated accounts no longer count as signed in, so
+   every policy and function built on current_app_user()
+   shuts them out
+   ----------------------------------------------------- */
+create or replace function public.current_app_user()
+returns public.users
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  -- Supabase stores auth phones without the leading "+"
+  select *
+    from public.users
+   where phone in (auth.jwt() ->> 'phone', '+' || (auth.jwt() ->> 'phone'))
+     and deactivated_at is null
+   limit 1;
+$$;
+
+-- A beneficiary added by a loan manager is theirs
+create or replace function public.assign_loan_manager()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor public.users := public.current_app_user();
+begin
+  if new.role = 'user' and new.loan_manager_id is null and v_actor.role = 'loanmanager' then
+    new.loan_manager_id := v_actor.id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists users_assign_loan_manager on public.users;
+create trigger users_assign_loan_manager
+  before insert on public.users
+  for each row execute function public.assign_loan_manager();
+
+-- Edits log the changed fields; setting deleted_at logs the deletion
+create or replace function public.audit_bank_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb;
+  v_new jsonb;
+begin
+  if old.deleted_at is null and new.deleted_at is not null then
+    perform public.log_audit_event('bank.delete', 'bank', new.id::text, null, null,
+      jsonb_build_object('name', new.name, 'branch', new.branch));
+    return null;
+  end if;
+  select jsonb_object_agg(o.key, o.value), jsonb_object_agg(o.key, n.value)
+    into v_old, v_new
+    from jsonb_each(to_jsonb(old)) o
+    join jsonb_each(to_jsonb(new)) n using (key)
+   where o.value is distinct from n.value;
+  if v_new is not null then
+    perform public.log_audit_event('bank.update', 'bank', new.id::text, null, v_old, v_new);
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists banks_audit_update on public.banks;
+create trigger banks_audit_update after update on public.banks
+  for each row execute function public.audit_bank_update();
+
+/* -----------------------------------------------------
+   Hand-overs, super admins only. The successor must be an
+   active loan manager of a bank that still exists;
+   beneficiaries follow them into their bank.
+   ----------------------------------------------------- */
+create or replace function public.successor_loan_manager(p_id uuid)
+returns public.users
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_successor public.users;
+begin
+  select u.* into v_successor
+    from public.users u
+    join public.banks b on b.id = u.bank_id and b.deleted_at is null
+   where u.id = p_id and u.role = 'loanmanager' and u.deactivated_at is null;
+  if not found then
+    raise exception 'successor % is not an active loan manager', p_id using errcode = '23514';
+  end if;
+  return v_successor;
+end;
+$$;
+
+create or replace function public.transfer_beneficiaries(p_from uuid, p_to uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_to    public.users;
+  v_count integer;
+begin
+  if (public.current_app_user()).role is distinct from 'superadmin' then
+    raise exception 'transfer_beneficiaries: super admins only' using errcode = '42501';
+  end if;
+  if p_from = p_to then
+    raise exception 'transfer_beneficiaries: pick another loan manager' using errcode = '23514';
+  end if;
+  v_to := public.successor_loan_manager(p_to);
+
+  update public.users
+     set loan_manager_id = v_to.id, bank_id = v_to.bank_id
+   where role = 'user' and loan_manager_id = p_from;
+  get diagnostics v_count = row_count;
+
+  if v_count > 0 then
+    perform public.log_audit_event('user.transfer', 'user', p_from::text, null, null,
+      jsonb_build_object('to', v_to.id, 'to_name', v_to.name, 'bank_id', v_to.bank_id,
+                         'beneficiaries', v_count));
+  end if;
+  return v_count;
+end;
+$$;
+
+-- p_successor may be null only when nobody is left behind
+create or replace function public.deactivate_loan_manager(p_id uuid, p_successor uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_manager public.users;
+  v_count   integer := 0;
+begin
+  if (public.current_app_user()).role is distinct from 'superadmin' then
+    raise exception 'deactivate_loan_manager: super admins only' using errcode = '42501';
+  end if;
+  select * into v_manager
+    from public.users
+   where id = p_id and role = 'loanmanager' and deactivated_at is null
+     for update;
+  if not found then
+    raise exception 'deactivate_loan_manager: % is not an active loan manager', p_id
+      using errcode = 'P0002';
+  end if;
+
+  if p_successor is not null then
+    v_count := public.transfer_beneficiaries(p_id, p_successor);
+  elsif exists (select 1 from public.users where role = 'user' and loan_manager_id = p_id) then
+    raise exception 'deactivate_loan_manager: % still has beneficiaries, pick a successor',
+      v_manager.name using errcode = '23514';
+  end if;
+
+  update public.users set deactivated_at = now() where id = p_id;
+  perform public.log_audit_event('user.deactivate', 'user', p_id::text, null, null,
+    jsonb_build_object('name', v_manager.name, 'role', v_manager.role,
+                       'bank_id', v_manager.bank_id, 'successor', p_successor));
+  return v_count;
+end;
+$$;
+
+/* -----------------------------------------------------
+   Soft delete: the bank's loan managers are deactivated
+   and its beneficiaries move to p_successor, in another
+   bank. Without a successor they keep their accounts and
+   assets but nobody reviews them.
+   ----------------------------------------------------- */
+create or replace function public.delete_bank(p_id uuid, p_successor uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_to      public.users;
+  v_manager uuid;
+  v_count   integer;
+begin
+  if (public.current_app_user()).role is distinct from 'superadmin' then
+    raise exception 'delete_bank: super admins only' using errcode = '42501';
+  end if;
+  perform 1 from public.banks where id = p_id and deleted_at is null for update;
+  if not found then
+    raise exception 'delete_bank: bank % does not exist', p_id using errcode = 'P0002';
+  end if;
+
+  if p_successor is not null then
+    v_to := public.successor_loan_manager(p_successor);
+    if v_to.bank_id = p_id then
+      raise exception 'delete_bank: the successor must work for another bank' using errcode = '23514';
+    end if;
+    update public.users
+       set loan_manager_id = v_to.id, bank_id = v_to.bank_id
+     where role = 'user' and bank_id = p_id;
+    get diagnostics v_count = row_count;
+    if v_count > 0 then
+      perform public.log_audit_event('user.transfer', 'bank', p_id::text, null, null,
+        jsonb_build_object('to', v_to.id, 'to_name', v_to.name, 'bank_id', v_to.bank_id,
+                           'beneficiaries', v_count));
+    end if;
+  end if;
+
+  for v_manager in
+    select id from public.users
+     where bank_id = p_id and role = 'loanmanager' and deactivated_at is null
+  loop
+    update public.users set deactivated_at = now() where id = v_manager;
+    perform public.log_audit_event('user.deactivate', 'user', v_manager::text, null, null,
+      (select jsonb_build_object('name', name, 'role', role, 'bank_id', bank_id,
+                                 'successor', p_successor)
+         from public.users where id = v_manager));
+  end loop;
+
+  update public.banks set deleted_at = now() where id = p_id;
+end;
+$$;
+
+revoke all on function public.successor_loan_manager(uuid) from public;
+revoke all on function public.transfer_beneficiaries(uuid, uuid) from public;
+revoke all on function public.deactivate_loan_manager(uuid, uuid) from public;
+revoke all on function public.delete_bank(uuid, uuid) from public;
+grant execute on function public.transfer_beneficiaries(uuid, uuid) to authenticated;
+grant execute on function public.deactivate_loan_manager(uuid, uuid) to authenticated;
+grant execute on function public.delete_bank(uuid, uuid) to authenticated;
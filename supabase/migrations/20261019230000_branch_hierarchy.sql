@@ -0,0 +1,265 @@
+-- ==========================================================
+-- Bank → region → branch. A bank is one row however many
+-- branches it has; branches are grouped into regions and
+-- loan managers work at a branch. Beneficiaries stay
+-- scoped by bank, and count towards the branch of their
+-- loan manager.
+-- ==========================================================
+
+create table if not exists public.regions (
+  id         uuid primary key default gen_random_uuid(),
+  bank_id    uuid not null references public.banks (id),
+  name       text not null check (btrim(name) <> ''),
+  created_at timestamptz not null default now(),
+  constraint regions_bank_name_key unique (bank_id, name),
+  -- Target of branches' (region_id, bank_id) foreign key
+  constraint regions_id_bank_key unique (id, bank_id)
+);
+
+create table if not exists public.branches (
+  id             uuid primary key default gen_random_uuid(),
+  bank_id        uuid not null,
+  region_id      uuid not null,
+  name           text not null check (btrim(name) <> ''),
+  branch_manager text not null,
+  created_at     timestamptz not null default now(),
+  -- A branch's region belongs to the same bank
+  constraint branches_region_fkey foreign key (region_id, bank_id)
+    references public.regions (id, bank_id),
+  constraint branches_region_name_key unique (region_id, name)
+);
+
+create index if not exists branches_bank_id_idx on public.branches (bank_id);
+
+-- Loan managers only
+alter table public.users add column if not exists branch_id uuid references public.branches (id);
+
+/* -----------------------------------------------------
+   Existing rows: every banks row becomes a branch (same
+   id) in an "Unassigned" region of the first live row
+   with its name, which stays the bank. The other rows go.
+   ----------------------------------------------------- */
+do $$
+begin
+  if not exists (
+    select 1 from information_schema.columns
+     where table_schema = 'public' and table_name = 'banks' and column_name = 'branch'
+  ) then
+    return;
+  end if;
+
+  create temp table bank_merge on commit drop as
+  select id,
+         first_value(id) over (
+           partition by lower(btrim(name))
+           order by deleted_at is not null, created_at, id
+         ) as bank_id,
+         branch,
+         branch_manager
+    from public.banks;
+
+  insert into public.regions (bank_id, name)
+  select distinct bank_id, 'Unassigned' from bank_merge
+  on conflict (bank_id, name) do nothing;
+
+  insert into public.branches (id, bank_id, region_id, name, branch_manager)
+  select m.id, m.bank_id, r.id, m.branch, m.branch_manager
+    from bank_merge m
+    join public.regions r on r.bank_id = m.bank_id and r.name = 'Unassigned'
+  on conflict do nothing;
+
+  update public.users u
+     set branch_id = u.bank_id
+   where u.role = 'loanmanager'
+     and u.branch_id is null
+     and exists (select 1 from public.branches b where b.id = u.bank_id);
+
+  update public.users u
+     set bank_id = m.bank_id
+    from bank_merge m
+   where u.bank_id = m.id and m.id <> m.bank_id;
+
+  delete from public.banks b
+   using bank_merge m
+   where b.id = m.id and m.id <> m.bank_id;
+
+  alter table public.banks drop column branch, drop column branch_manager;
+end;
+$$;
+
+-- A loan manager's bank is their branch's
+create or replace function public.sync_branch_bank()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.branch_id is not null then
+    select bank_id into new.bank_id from public.branches where id = new.branch_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists users_branch_bank on public.users;
+create trigger users_branch_bank
+  before insert or update of branch_id on public.users
+  for each row execute function public.sync_branch_bank();
+
+/* -----------------------------------------------------
+   Audit
+   ----------------------------------------------------- */
+alter table public.audit_events drop constraint if exists audit_events_action_check;
+alter table public.audit_events add constraint audit_events_action_check check (
+  action in ('auth.login', 'auth.logout', 'user.create', 'bank.create',
+             'asset.create', 'asset.update', 'asset.transition',
+             'document.upload', 'image.verify', 'image.upload', 'image.delete',
+             'review.record', 'import.excel',
+             'bank.update', 'bank.delete', 'user.deactivate', 'user.transfer',
+             'region.create', 'branch.create', 'branch.update', 'user.update')
+);
+
+alter table public.audit_events drop constraint if exists audit_events_target_type_check;
+alter table public.audit_events add constraint audit_events_target_type_check check (
+  target_type in ('user', 'bank', 'asset', 'document', 'image', 'review', 'import',
+                  'region', 'branch')
+);
+
+-- banks.branch is gone; deletions now record the name only
+create or replace function public.audit_bank_update()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb;
+  v_new jsonb;
+begin
+  if old.deleted_at is null and new.deleted_at is not null then
+    perform public.log_audit_event('bank.delete', 'bank', new.id::text, null, null,
+      jsonb_build_object('name', new.name));
+    return null;
+  end if;
+  select jsonb_object_agg(o.key, o.value), jsonb_object_agg(o.key, n.value)
+    into v_old, v_new
+    from jsonb_each(to_jsonb(old)) o
+    join jsonb_each(to_jsonb(new)) n using (key)
+   where o.value is distinct from n.value;
+  if v_new is not null then
+    perform public.log_audit_event('bank.update', 'bank', new.id::text, null, v_old, v_new);
+  end if;
+  return null;
+end;
+$$;
+
+create or replace function public.audit_hierarchy_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_old jsonb;
+  v_new jsonb;
+begin
+  if tg_table_name = 'regions' then
+    perform public.log_audit_event('region.create', 'region', new.id::text, null, null,
+      jsonb_build_object('bank_id', new.bank_id, 'name', new.name));
+  elsif tg_op = 'INSERT' then
+    perform public.log_audit_event('branch.create', 'branch', new.id::text, null, null,
+      jsonb_build_object('bank_id', new.bank_id, 'region_id', new.region_id,
+                         'name', new.name, 'branch_manager', new.branch_manager));
+  else
+    select jsonb_object_agg(o.key, o.value), jsonb_object_agg(o.key, n.value)
+      into v_old, v_new
+      from jsonb_each(to_jsonb(old)) o
+      join jsonb_each(to_jsonb(new)) n using (key)
+     where o.value is distinct from n.value;
+    if v_new is not null then
+      perform public.log_audit_event('branch.update', 'branch', new.id::text, null, v_old, v_new);
+    end if;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists regions_audit on public.regions;
+create trigger regions_audit after insert on public.regions
+  for each row execute function public.audit_hierarchy_change();
+
+drop trigger if exists branches_audit on public.branches;
+create trigger branches_audit after insert or update on public.branches
+  for each row execute function public.audit_hierarchy_change();
+
+/* -----------------------------------------------------
+   Access: like banks, readable by staff and written by
+   super admins
+   ----------------------------------------------------- */
+alter table public.regions enable row level security;
+
+drop policy if exists regions_select on public.regions;
+create policy regions_select on public.regions
+  for select to authenticated
+  using (public.is_staff());
+
+drop policy if exists regions_write on public.regions;
+create policy regions_write on public.regions
+  for all to authenticated
+  using ((public.current_app_user()).role = 'superadmin')
+  with check ((public.current_app_user()).role = 'superadmin');
+
+alter table public.branches enable row level security;
+
+drop policy if exists branches_select on public.branches;
+create policy branches_select on public.branches
+  for select to authenticated
+  using (public.is_staff());
+
+drop policy if exists branches_write on public.branches;
+create policy branches_write on public.branches
+  for all to authenticated
+  using ((public.current_app_user()).role = 'superadmin')
+  with check ((public.current_app_user()).role = 'superadmin');
+
+-- Moves a loan manager to another branch of their bank; beneficiaries
+-- stay with them
+create or replace function public.assign_branch(p_user uuid, p_branch uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user   public.users;
+  v_branch public.branches;
+begin
+  if (public.current_app_user()).role is distinct from 'superadmin' then
+    raise exception 'assign_branch: super admins only' using errcode = '42501';
+  end if;
+  select * into v_user
+    from public.users
+   where id = p_user and role = 'loanmanager' and deactivated_at is null
+     for update;
+  if not found then
+    raise exception 'assign_branch: % is not an active loan manager', p_user using errcode = 'P0002';
+  end if;
+  select * into v_branch from public.branches where id = p_branch;
+  if not found or v_branch.bank_id is distinct from v_user.bank_id then
+    raise exception 'assign_branch: the branch must belong to %''s bank', v_user.name
+      using errcode = '23514';
+  end if;
+  if v_user.branch_id is not distinct from p_branch then
+    return;
+  end if;
+
+  update public.users set branch_id = p_branch where id = p_user;
+  perform public.log_audit_event('user.update', 'user', p_user::text, null,
+    jsonb_build_object('branch_id', v_user.branch_id),
+    jsonb_build_object('branch_id', p_branch, 'name', v_user.name, 'branch', v_branch.name));
+end;
+$$;
+
+revoke all on function public.assign_branch(uuid, uuid) from public;
+grant execute on function public.assign_branch(uuid, uuid) to authenticated;
@@ -0,0 +1,47 @@
+-- ==========================================================
+-- required_documents.is_uploaded / uploaded_at are derived
+-- from document_files instead of being set by the app:
+-- the only way to tick a document is to store a version of
+-- it. A file the app stored but couldn't record can be
+-- removed again.
+-- ==========================================================
+
+create or replace function public.sync_document_uploaded()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_document_id uuid := coalesce(new.document_id, old.document_id);
+begin
+  update public.required_documents d
+     set is_uploaded = f.latest is not null,
+         uploaded_at = f.latest
+    from (select max(uploaded_at) as latest
+            from public.document_files
+           where document_id = v_document_id) f
+   where d.id = v_document_id;
+  return null;
+end;
+$$;
+
+drop trigger if exists document_files_sync_uploaded on public.document_files;
+create trigger document_files_sync_uploaded
+  after insert or delete on public.document_files
+  for each row execute function public.sync_document_uploaded();
+
+-- No updates: is_uploaded follows document_files
+drop policy if exists required_documents_update on public.required_documents;
+revoke update on public.required_documents from anon, authenticated;
+
+-- A document file with no document_files row can be removed
+-- again; recorded ones stay
+drop policy if exists asset_documents_delete_orphan on storage.objects;
+create policy asset_documents_delete_orphan on storage.objects
+  for delete to authenticated
+  using (
+    bucket_id = 'asset-documents'
+    and public.can_access_asset(nullif(split_part(name, '/', 1), '')::uuid)
+    and not exists (select 1 from public.document_files f where f.storage_path = objects.name)
+  );
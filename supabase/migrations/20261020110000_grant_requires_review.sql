@@ -0,0 +1,122 @@
+-- ==========================================================
+-- An asset is granted only once every document and image
+-- has been accepted: transition_asset() refuses the move to
+-- authenticated until asset_grantable() holds.
+-- ==========================================================
+
+/* -----------------------------------------------------
+   asset_grantable(asset): every item needs an accepted
+   latest review, as summarizeReview() in src/lib/
+   reviews.ts — each required document's current version
+   (a document never uploaded blocks it) and each image,
+   reviewed under "asset-images/<object name>". An asset
+   with nothing to review is not grantable.
+   ----------------------------------------------------- */
+create or replace function public.asset_grantable(p_asset_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with items as (
+    select 'document' as item_type,
+           (select f.id::text from public.document_files f
+             where f.document_id = d.id
+             order by f.version desc
+             limit 1) as item_ref
+      from public.required_documents d
+     where d.asset_id = p_asset_id
+    union all
+    select 'image', o.bucket_id || '/' || o.name
+      from storage.objects o
+     where o.bucket_id = 'asset-images'
+       and split_part(o.name, '/', 1) = p_asset_id::text
+  )
+  select count(*) > 0
+         and coalesce(bool_and(coalesce(
+           (select r.decision from public.item_reviews r
+             where r.asset_id = p_asset_id
+               and r.item_type = i.item_type
+               and r.item_ref = i.item_ref
+             order by r.reviewed_at desc
+             limit 1) = 'accepted',
+           false)), false)
+    from items i;
+$$;
+
+/* -----------------------------------------------------
+   transition_asset: as in 20261019170000_enum_types.sql,
+   plus the grant check
+   ----------------------------------------------------- */
+create or replace function public.transition_asset(
+  p_asset_id uuid,
+  p_from     text,
+  p_to       text,
+  p_reason   text default null
+)
+returns public.asset_transitions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor   public.users := public.current_app_user();
+  v_current text;
+  v_rule    record;
+  v_row     public.asset_transitions;
+begin
+  if v_actor.id is null then
+    raise exception 'transition_asset: caller is not a registered user' using errcode = '42501';
+  end if;
+
+  select status::text into v_current from public.assets where id = p_asset_id for update;
+  if not found then
+    raise exception 'transition_asset: no asset %', p_asset_id using errcode = 'P0002';
+  end if;
+  if v_current <> p_from then
+    raise exception 'transition_asset: asset is %, not %', v_current, p_from using errcode = '40001';
+  end if;
+
+  select * into v_rule
+    from (values
+      ('draft',             'awaiting_evidence', array['loanmanager'], false),
+      ('awaiting_evidence', 'submitted',         array['user'],        false),
+      ('submitted',         'under_review',      array['loanmanager'], false),
+      ('resubmitted',       'under_review',      array['loanmanager'], false),
+      ('under_review',      'authenticated',     array['loanmanager'], false),
+      ('under_review',      'rejected',          array['loanmanager'], true),
+      ('rejected',          'resubmitted',       array['user'],        false)
+    ) as t(from_status, to_status, roles, reason_required)
+   where t.from_status = p_from and t.to_status = p_to;
+
+  if not found or not (v_actor.role::text = any (v_rule.roles)) then
+    raise exception 'transition_asset: % may not move % → %', v_actor.role, p_from, p_to
+      using errcode = '23514';
+  end if;
+  if v_rule.reason_required and coalesce(btrim(p_reason), '') = '' then
+    raise exception 'transition_asset: % → % needs a reason', p_from, p_to using errcode = '23514';
+  end if;
+  -- Granted only once every document and image is accepted
+  if p_to = 'authenticated' and not public.asset_grantable(p_asset_id) then
+    raise exception 'transition_asset: every document and image must be accepted first'
+      using errcode = '23514';
+  end if;
+  -- Loan managers only move their own bank's assets
+  if not public.can_access_asset(p_asset_id) then
+    raise exception 'transition_asset: asset % is not yours', p_asset_id using errcode = '42501';
+  end if;
+
+  perform set_config('authenx.transition', 'on', true);
+  update public.assets
+     set status = p_to::public.asset_status,
+         verified_at = case when p_to = 'authenticated' then now() else verified_at end
+   where id = p_asset_id;
+  perform set_config('authenx.transition', 'off', true);
+
+  insert into public.asset_transitions (asset_id, from_status, to_status, actor_id, actor_role, reason)
+  values (p_asset_id, p_from, p_to, v_actor.id, v_actor.role::text, nullif(btrim(p_reason), ''))
+  returning * into v_row;
+  return v_row;
+end;
+$$;
@@ -0,0 +1,79 @@
+-- ==========================================================
+-- transition_asset() checks that the caller may see the
+-- asset before anything else, so a loan manager can't move
+-- another bank's asset, nor a beneficiary someone else's,
+-- and neither learns its status.
+-- ==========================================================
+
+create or replace function public.transition_asset(
+  p_asset_id uuid,
+  p_from     text,
+  p_to       text,
+  p_reason   text default null
+)
+returns public.asset_transitions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor   public.users := public.current_app_user();
+  v_current text;
+  v_rule    record;
+  v_row     public.asset_transitions;
+begin
+  if v_actor.id is null then
+    raise exception 'transition_asset: caller is not a registered user' using errcode = '42501';
+  end if;
+  -- Only assets the caller can see: beneficiaries their own, loan managers
+  -- their bank's; anything else looks like a missing asset
+  if not public.can_access_asset(p_asset_id) then
+    raise exception 'transition_asset: no asset %', p_asset_id using errcode = 'P0002';
+  end if;
+
+  select status::text into v_current from public.assets where id = p_asset_id for update;
+  if not found then
+    raise exception 'transition_asset: no asset %', p_asset_id using errcode = 'P0002';
+  end if;
+  if v_current <> p_from then
+    raise exception 'transition_asset: asset is %, not %', v_current, p_from using errcode = '40001';
+  end if;
+
+  select * into v_rule
+    from (values
+      ('draft',             'awaiting_evidence', array['loanmanager'], false),
+      ('awaiting_evidence', 'submitted',         array['user'],        false),
+      ('submitted',         'under_review',      array['loanmanager'], false),
+      ('resubmitted',       'under_review',      array['loanmanager'], false),
+      ('under_review',      'authenticated',     array['loanmanager'], false),
+      ('under_review',      'rejected',          array['loanmanager'], true),
+      ('rejected',          'resubmitted',       array['user'],        false)
+    ) as t(from_status, to_status, roles, reason_required)
+   where t.from_status = p_from and t.to_status = p_to;
+
+  if not found or not (v_actor.role::text = any (v_rule.roles)) then
+    raise exception 'transition_asset: % may not move % → %', v_actor.role, p_from, p_to
+      using errcode = '23514';
+  end if;
+  if v_rule.reason_required and coalesce(btrim(p_reason), '') = '' then
+    raise exception 'transition_asset: % → % needs a reason', p_from, p_to using errcode = '23514';
+  end if;
+  -- Granted only once every document and image is accepted
+  if p_to = 'authenticated' and not public.asset_grantable(p_asset_id) then
+    raise exception 'transition_asset: every document and image must be accepted first'
+      using errcode = '23514';
+  end if;
+
+  perform set_config('authenx.transition', 'on', true);
+  update public.assets
+     set status = p_to::public.asset_status,
+         verified_at = case when p_to = 'authenticated' then now() else verified_at end
+   where id = p_asset_id;
+  perform set_config('authenx.transition', 'off', true);
+
+  insert into public.asset_transitions (asset_id, from_status, to_status, actor_id, actor_role, reason)
+  values (p_asset_id, p_from, p_to, v_actor.id, v_actor.role::text, nullif(btrim(p_reason), ''))
+  returning * into v_row;
+  return v_row;
+end;
+$$;
@@ -0,0 +1,60 @@
+-- ==========================================================
+-- A loan manager's manual add goes through one call, as
+-- the import does with import_beneficiaries().
+-- ==========================================================
+
+/* -----------------------------------------------------
+   add_beneficiary(name, E.164 phone, asset, documents)
+   → { user, added_to_existing }. User, asset, checklist
+   and the opening transition are written, and logged,
+   together or not at all. A phone that belongs to the
+   caller's bank gets the asset added as another loan.
+   ----------------------------------------------------- */
+create or replace function public.add_beneficiary(
+  p_name       text,
+  p_phone      text,
+  p_asset_name text,
+  p_documents  text[]
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor    public.users := public.current_app_user();
+  v_user     public.users;
+  v_asset    uuid;
+  v_existing boolean;
+begin
+  if v_actor.role is distinct from 'loanmanager' or v_actor.bank_id is null then
+    raise exception 'add_beneficiary: only loan managers linked to a bank can add beneficiaries'
+      using errcode = '42501';
+  end if;
+
+  select * into v_user from public.users where phone = p_phone;
+  v_existing := found;
+  if not v_existing then
+    insert into public.users (name, phone, role, status, asset, bank_id)
+    values (p_name, p_phone, 'user', 'awaiting_evidence', p_asset_name, v_actor.bank_id)
+    returning * into v_user;
+  elsif v_user.role <> 'user' or v_user.bank_id is distinct from v_actor.bank_id then
+    raise exception 'add_beneficiary: % is already registered', p_phone using errcode = '23505';
+  end if;
+
+  insert into public.assets (user_id, asset_name, issued_date)
+  values (v_user.id, p_asset_name, current_date)
+  returning id into v_asset;
+
+  insert into public.required_documents (asset_id, document_name)
+  select v_asset, d from unnest(coalesce(p_documents, '{}')) d;
+
+  perform public.transition_asset(v_asset, 'draft', 'awaiting_evidence');
+
+  return jsonb_build_object('user', to_jsonb(v_user), 'added_to_existing', v_existing);
+end;
+$$;
+
+revoke all on function public.add_beneficiary(text, text, text, text[]) from public;
+grant execute on function public.add_beneficiary(text, text, text, text[]) to authenticated;
+
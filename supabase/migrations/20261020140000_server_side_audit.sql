@@ -0,0 +1,12 @@
+-- ==========================================================
+-- Sign-ins and imports are recorded server-side, where they
+-- can't be forged: the gateway logs auth.login with the
+-- service role and import_beneficiaries() logs import.excel
+-- itself. The app only appends its sign-outs, which write
+-- nothing else.
+-- ==========================================================
+
+drop policy if exists audit_events_insert on public.audit_events;
+create policy audit_events_insert on public.audit_events
+  for insert to authenticated
+  with check (action = 'auth.logout');
@@ -0,0 +1,36 @@
+-- ==========================================================
+-- Images are deleted through the gateway too, which checks
+-- the asset still takes evidence and records the delete
+-- itself. Beneficiaries can no longer delete from
+-- asset-images.
+-- ==========================================================
+
+drop policy if exists asset_images_delete on storage.objects;
+
+-- Gateway uploads and deletes are logged by the gateway, with the user's name on them
+create or replace function public.audit_asset_image()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_object storage.objects := coalesce(new, old);
+begin
+  if v_object.bucket_id <> 'asset-images' then
+    return null;
+  end if;
+  if coalesce(auth.jwt() ->> 'role', '') = 'service_role' then
+    return null;
+  end if;
+  perform public.log_audit_event(
+    case when tg_op = 'INSERT' then 'image.upload' else 'image.delete' end,
+    'image',
+    v_object.bucket_id || '/' || v_object.name,
+    nullif(split_part(v_object.name, '/', 1), '')::uuid,
+    null,
+    null
+  );
+  return null;
+end;
+$$;
@@ -0,0 +1,44 @@
+-- ==========================================================
+-- A document_files row ticks its document (see
+-- sync_document_uploaded), so a client may only record a
+-- version it actually stored: of a document of that asset,
+-- at the path documentStoragePath() builds, as the next
+-- version.
+-- ==========================================================
+
+create or replace function public.document_file_recordable(
+  p_document_id  uuid,
+  p_asset_id     uuid,
+  p_version      integer,
+  p_storage_path text
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+           select 1 from public.required_documents d
+            where d.id = p_document_id and d.asset_id = p_asset_id
+         )
+     and starts_with(p_storage_path, p_asset_id || '/' || p_document_id || '/v' || p_version || '-')
+     and exists (
+           select 1 from storage.objects o
+            where o.bucket_id = 'asset-documents' and o.name = p_storage_path
+         )
+     and p_version = coalesce(
+           (select max(f.version) from public.document_files f where f.document_id = p_document_id),
+           0
+         ) + 1;
+$$;
+
+grant execute on function public.document_file_recordable(uuid, uuid, integer, text) to authenticated;
+
+drop policy if exists document_files_insert on public.document_files;
+create policy document_files_insert on public.document_files
+  for insert to authenticated
+  with check (
+    public.can_access_asset(asset_id)
+    and public.document_file_recordable(document_id, asset_id, version, storage_path)
+  );
@@ -0,0 +1,39 @@
+-- ==========================================================
+-- The status guard fired only when status was in the SET
+-- list, so a beneficiary could still write verified_at,
+-- asset_name, issued_date and the rest through
+-- assets_update. It now checks every update: status and
+-- verified_at only move inside transition_asset(), and a
+-- beneficiary may only change the image and its location.
+-- ==========================================================
+
+create or replace function public.guard_asset_status()
+returns trigger
+language plpgsql
+as $$
+begin
+  if coalesce(current_setting('authenx.transition', true), '') = 'on' then
+    return new;
+  end if;
+
+  if new.status is distinct from old.status or new.verified_at is distinct from old.verified_at then
+    raise exception 'assets.status changes must go through transition_asset()'
+      using errcode = '23514';
+  end if;
+
+  if (public.current_app_user()).role = 'user'
+     and to_jsonb(new) - 'image_url' - 'latitude' - 'longitude' - 'location_address'
+         is distinct from
+         to_jsonb(old) - 'image_url' - 'latitude' - 'longitude' - 'location_address' then
+    raise exception 'assets: beneficiaries can only change the image and its location'
+      using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists assets_status_guard on public.assets;
+create trigger assets_status_guard
+  before update on public.assets
+  for each row execute function public.guard_asset_status();
@@ -0,0 +1,79 @@
+-- ==========================================================
+-- Development seed, loaded by `supabase db reset` after the
+-- migrations. Mirrors src/lib/mockData.ts (same names and
+-- phones) with uuid ids, so the demo accounts work against
+-- a real database too.
+-- Document files are not seeded: storage starts empty.
+-- ==========================================================
+
+insert into public.banks (id, name) values
+  ('10000000-0000-4000-8000-000000000001', 'State Bank of India'),
+  ('10000000-0000-4000-8000-000000000002', 'HDFC Bank'),
+  ('10000000-0000-4000-8000-000000000003', 'ICICI Bank')
+on conflict (id) do nothing;
+
+insert into public.regions (id, bank_id, name) values
+  ('70000000-0000-4000-8000-000000000001', '10000000-0000-4000-8000-000000000001', 'West'),
+  ('70000000-0000-4000-8000-000000000002', '10000000-0000-4000-8000-000000000002', 'North'),
+  ('70000000-0000-4000-8000-000000000003', '10000000-0000-4000-8000-000000000003', 'South')
+on conflict (id) do nothing;
+
+insert into public.branches (id, bank_id, region_id, name, branch_manager) values
+  ('80000000-0000-4000-8000-000000000001', '10000000-0000-4000-8000-000000000001', '70000000-0000-4000-8000-000000000001', 'Mumbai Central', 'Rajesh Kumar'),
+  ('80000000-0000-4000-8000-000000000002', '10000000-0000-4000-8000-000000000001', '70000000-0000-4000-8000-000000000001', 'Pune Camp', 'Meera Kulkarni'),
+  ('80000000-0000-4000-8000-000000000003', '10000000-0000-4000-8000-000000000002', '70000000-0000-4000-8000-000000000002', 'Delhi South', 'Sunita Verma'),
+  ('80000000-0000-4000-8000-000000000004', '10000000-0000-4000-8000-000000000003', '70000000-0000-4000-8000-000000000003', 'Bangalore Tech Park', 'Anil Reddy')
+on conflict (id) do nothing;
+
+insert into public.users (id, name, phone, role, status, asset, bank_id, loan_manager_id, branch_id) values
+  -- Super admin
+  ('20000000-0000-4000-8000-000000000001', 'Neha Joshi', '+919876500000', 'superadmin', 'authenticated', null, null, null, null),
+  -- Loan managers
+  ('30000000-0000-4000-8000-000000000001', 'Amit Sharma', '+919876543210', 'loanmanager', 'authenticated', null, '10000000-0000-4000-8000-000000000001', null, '80000000-0000-4000-8000-000000000001'),
+  ('30000000-0000-4000-8000-000000000002', 'Priya Patel', '+919876543211', 'loanmanager', 'authenticated', null, '10000000-0000-4000-8000-000000000001', null, '80000000-0000-4000-8000-000000000002'),
+  ('30000000-0000-4000-8000-000000000003', 'Vikram Singh', '+919876543212', 'loanmanager', 'authenticated', null, '10000000-0000-4000-8000-000000000002', null, '80000000-0000-4000-8000-000000000003'),
+  ('30000000-0000-4000-8000-000000000004', 'Deepa Krishnan', '+919876543213', 'loanmanager', 'authenticated', null, '10000000-0000-4000-8000-000000000003', null, '80000000-0000-4000-8000-000000000004'),
+  ('30000000-0000-4000-8000-000000000005', 'Rahul Gupta', '+919876543214', 'loanmanager', 'authenticated', null, '10000000-0000-4000-8000-000000000003', null, '80000000-0000-4000-8000-000000000004'),
+  -- Beneficiaries
+  ('40000000-0000-4000-8000-000000000001', 'Anjali Mehta', '+919876511111', 'user', 'submitted', 'House - Plot 42A', '10000000-0000-4000-8000-000000000001', '30000000-0000-4000-8000-000000000001', null),
+  ('40000000-0000-4000-8000-000000000002', 'Suresh Yadav', '+919876522222', 'user', 'awaiting_evidence', 'Agricultural Land - 5 acres', '10000000-0000-4000-8000-000000000002', '30000000-0000-4000-8000-000000000003', null),
+  ('40000000-0000-4000-8000-000000000003', 'Kavita Desai', '+919876533333', 'user', 'awaiting_evidence', 'Apartment - Flat 101', '10000000-0000-4000-8000-000000000003', '30000000-0000-4000-8000-000000000004', null)
+on conflict (id) do nothing;
+
+-- Inserted with their current status; the trigger guarding status only covers updates
+insert into public.assets (id, user_id, asset_name, status, image_url, created_at, verified_at) values
+  ('50000000-0000-4000-8000-000000000001', '40000000-0000-4000-8000-000000000001', 'House - Plot 42A', 'submitted',
+   null, '2025-09-10T00:00:00Z', null),
+  ('50000000-0000-4000-8000-000000000002', '40000000-0000-4000-8000-000000000001', 'Tractor', 'authenticated',
+   'https://images.unsplash.com/photo-1562916260-eb478b684986?w=400', '2025-09-01T00:00:00Z', '2025-09-15T00:00:00Z'),
+  ('50000000-0000-4000-8000-000000000003', '40000000-0000-4000-8000-000000000002', 'Agricultural Land - 5 acres', 'awaiting_evidence',
+   'https://images.unsplash.com/photo-1625246333195-78d9c38ad449?w=400', '2025-09-20T00:00:00Z', null),
+  ('50000000-0000-4000-8000-000000000004', '40000000-0000-4000-8000-000000000003', 'Apartment - Flat 101', 'awaiting_evidence',
+   'https://images.unsplash.com/photo-1560518883-ce09059eeffa?w=400', '2025-09-22T00:00:00Z', null),
+  ('50000000-0000-4000-8000-000000000005', '40000000-0000-4000-8000-000000000003', 'Car', 'awaiting_evidence',
+   null, '2025-09-25T00:00:00Z', null)
+on conflict (id) do nothing;
+
+insert into public.asset_transitions (asset_id, from_status, to_status, actor_id, actor_role, created_at)
+select v.asset_id::uuid, v.from_status, v.to_status, v.actor_id::uuid, u.role::text, v.created_at::timestamptz
+  from (values
+    ('50000000-0000-4000-8000-000000000002', 'draft', 'awaiting_evidence', '30000000-0000-4000-8000-000000000001', '2025-09-01T00:05:00Z'),
+    ('50000000-0000-4000-8000-000000000002', 'awaiting_evidence', 'submitted', '40000000-0000-4000-8000-000000000001', '2025-09-05T10:00:00Z'),
+    ('50000000-0000-4000-8000-000000000002', 'submitted', 'under_review', '30000000-0000-4000-8000-000000000001', '2025-09-08T09:30:00Z'),
+    ('50000000-0000-4000-8000-000000000002', 'under_review', 'authenticated', '30000000-0000-4000-8000-000000000001', '2025-09-15T00:00:00Z'),
+    ('50000000-0000-4000-8000-000000000001', 'draft', 'awaiting_evidence', '30000000-0000-4000-8000-000000000001', '2025-09-10T00:05:00Z'),
+    ('50000000-0000-4000-8000-000000000001', 'awaiting_evidence', 'submitted', '40000000-0000-4000-8000-000000000001', '2025-09-18T12:00:00Z'),
+    ('50000000-0000-4000-8000-000000000003', 'draft', 'awaiting_evidence', '30000000-0000-4000-8000-000000000003', '2025-09-20T00:05:00Z'),
+    ('50000000-0000-4000-8000-000000000004', 'draft', 'awaiting_evidence', '30000000-0000-4000-8000-000000000004', '2025-09-22T00:05:00Z'),
+    ('50000000-0000-4000-8000-000000000005', 'draft', 'awaiting_evidence', '30000000-0000-4000-8000-000000000004', '2025-09-25T00:05:00Z')
+  ) as v(asset_id, from_status, to_status, actor_id, created_at)
+  join public.users u on u.id = v.actor_id::uuid
+ where not exists (select 1 from public.asset_transitions);
+
+insert into public.required_documents (id, asset_id, document_name) values
+  ('60000000-0000-4000-8000-000000000001', '50000000-0000-4000-8000-000000000001', 'Aadhaar Card'),
+  ('60000000-0000-4000-8000-000000000002', '50000000-0000-4000-8000-000000000001', 'Land Proof'),
+  ('60000000-0000-4000-8000-000000000003', '50000000-0000-4000-8000-000000000003', 'Aadhaar Card'),
+  ('60000000-0000-4000-8000-000000000004', '50000000-0000-4000-8000-000000000003', 'Income Certificate'),
+  ('60000000-0000-4000-8000-000000000005', '50000000-0000-4000-8000-000000000005', 'RC Book')
+on conflict (id) do nothing;
@@ -0,0 +1,63 @@
+-- ==========================================================
+-- Run against a database with every migration and
+-- supabase/seed.sql applied:
+--   psql -v ON_ERROR_STOP=1 -f supabase/tests/asset_updates.sql
+-- Raises on the first failure; changes nothing.
+-- ==========================================================
+
+begin;
+
+set local role authenticated;
+
+-- Runs an update of asset 50000000-…-001 (Anjali Mehta, SBI); true if refused
+create function pg_temp.refused(p_set text)
+returns boolean
+language plpgsql
+as $$
+begin
+  execute 'update public.assets set ' || p_set
+       || ' where id = ''50000000-0000-4000-8000-000000000001''';
+  return false;
+exception
+  when insufficient_privilege or check_violation then return true;
+end;
+$$;
+
+-- The beneficiary herself
+set local request.jwt.claims = '{"phone": "919876511111"}';
+
+do $$
+begin
+  if not pg_temp.refused('verified_at = now()') then
+    raise exception 'FAIL: beneficiary set verified_at';
+  end if;
+  if not pg_temp.refused('asset_name = ''Renamed''') then
+    raise exception 'FAIL: beneficiary renamed the asset';
+  end if;
+  if not pg_temp.refused('issued_date = current_date') then
+    raise exception 'FAIL: beneficiary changed the issue date';
+  end if;
+  if not pg_temp.refused('image_url = ''x'', asset_name = ''Renamed''') then
+    raise exception 'FAIL: beneficiary renamed the asset alongside the image';
+  end if;
+  if pg_temp.refused('image_url = ''x'', latitude = 19.07, longitude = 72.87, location_address = ''Mumbai''') then
+    raise exception 'FAIL: beneficiary could not save the image and its location';
+  end if;
+end;
+$$;
+
+-- Her bank's loan manager
+set local request.jwt.claims = '{"phone": "919876543210"}';
+
+do $$
+begin
+  if not pg_temp.refused('verified_at = now()') then
+    raise exception 'FAIL: loan manager set verified_at outside transition_asset()';
+  end if;
+  if pg_temp.refused('asset_name = ''Renamed''') then
+    raise exception 'FAIL: loan manager could not rename the asset';
+  end if;
+end;
+$$;
+
+rollback;
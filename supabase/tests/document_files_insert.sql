@@ -0,0 +1,73 @@
+-- ==========================================================
+-- Run against a database with every migration and
+-- supabase/seed.sql applied:
+--   psql -v ON_ERROR_STOP=1 -f supabase/tests/document_files_insert.sql
+-- Raises on the first failure; changes nothing.
+-- ==========================================================
+
+begin;
+
+-- Anjali Mehta, beneficiary of asset 50000000-…-001 (SBI)
+set local role authenticated;
+set local request.jwt.claims = '{"phone": "919876511111"}';
+
+insert into storage.objects (bucket_id, name) values
+  ('asset-documents', '50000000-0000-4000-8000-000000000001/60000000-0000-4000-8000-000000000003/v1-a.pdf'),
+  ('asset-documents', '50000000-0000-4000-8000-000000000001/60000000-0000-4000-8000-000000000001/v1-a.pdf');
+
+-- Records a version of the given document on her own asset; true if refused
+create function pg_temp.refused(p_document_id uuid, p_version integer, p_storage_path text)
+returns boolean
+language plpgsql
+as $$
+begin
+  insert into public.document_files
+    (document_id, asset_id, version, file_name, mime_type, size_bytes, storage_path)
+  values
+    (p_document_id, '50000000-0000-4000-8000-000000000001', p_version, 'a.pdf', 'application/pdf', 1,
+     p_storage_path);
+  return false;
+exception
+  when insufficient_privilege then return true;
+end;
+$$;
+
+do $$
+begin
+  -- Another bank's document (HDFC), recorded against her own asset
+  if not pg_temp.refused('60000000-0000-4000-8000-000000000003', 1,
+       '50000000-0000-4000-8000-000000000001/60000000-0000-4000-8000-000000000003/v1-a.pdf') then
+    raise exception 'FAIL: recorded a file for another asset''s document';
+  end if;
+  -- Her own document, but nothing stored at the path
+  if not pg_temp.refused('60000000-0000-4000-8000-000000000001', 1,
+       '50000000-0000-4000-8000-000000000001/60000000-0000-4000-8000-000000000001/v1-b.pdf') then
+    raise exception 'FAIL: recorded a file that was never stored';
+  end if;
+  -- Stored, but not as the next version
+  if not pg_temp.refused('60000000-0000-4000-8000-000000000001', 2,
+       '50000000-0000-4000-8000-000000000001/60000000-0000-4000-8000-000000000001/v1-a.pdf') then
+    raise exception 'FAIL: recorded a version out of sequence';
+  end if;
+  -- Stored under another document's folder
+  if not pg_temp.refused('60000000-0000-4000-8000-000000000001', 1,
+       '50000000-0000-4000-8000-000000000001/60000000-0000-4000-8000-000000000003/v1-a.pdf') then
+    raise exception 'FAIL: recorded a file stored for another document';
+  end if;
+  if exists (select 1 from public.required_documents
+              where asset_id = '50000000-0000-4000-8000-000000000001' and is_uploaded) then
+    raise exception 'FAIL: a refused row ticked a document';
+  end if;
+
+  if pg_temp.refused('60000000-0000-4000-8000-000000000001', 1,
+       '50000000-0000-4000-8000-000000000001/60000000-0000-4000-8000-000000000001/v1-a.pdf') then
+    raise exception 'FAIL: refused the stored next version';
+  end if;
+  if not (select is_uploaded from public.required_documents
+           where id = '60000000-0000-4000-8000-000000000001') then
+    raise exception 'FAIL: the recorded version did not tick its document';
+  end if;
+end;
+$$;
+
+rollback;